@@ -0,0 +1,88 @@
+// functions/src/access.ts
+
+import { getAuth } from "firebase-admin/auth";
+import { CallableRequest, HttpsError } from "firebase-functions/v2/https";
+
+/**
+ * Returns the caller's UID.
+ * 
+ * @throws HttpsError("unauthenticated") if the caller is not signed in
+ */
+export function requireAuth(request: CallableRequest): string {
+    const uid = request.auth?.uid;
+    if (!uid) {
+        throw new HttpsError("unauthenticated", "Authentication required");
+    }
+    return uid;
+}
+
+/**
+ * Admin checks already made for a request, so a callable checking several times asks once.
+ */
+const adminChecks = new WeakMap<CallableRequest, Promise<boolean>>();
+
+/**
+ * Confirms an ID token's admin claim against the user as they are now: the claim still
+ * set, the account enabled and the token issued after any revocation. ID tokens stay valid
+ * for up to an hour, so the claim in the token alone outlives a removeAdminClaim.
+ */
+async function confirmAdmin(uid: string, authTime: number): Promise<boolean> {
+    try {
+        const user = await getAuth().getUser(uid);
+        const validSince = user.tokensValidAfterTime ? Date.parse(user.tokensValidAfterTime) / 1000 : 0;
+        return user.customClaims?.admin === true && !user.disabled && authTime >= validSince;
+    } catch (error) {
+        console.error(`Could not confirm the admin privileges of ${uid}:`, error);
+        return false;
+    }
+}
+
+/**
+ * True if the caller is an admin: their ID token carries the admin custom claim and
+ * the user still has it (see confirmAdmin).
+ */
+export function isAdmin(request: CallableRequest): Promise<boolean> {
+    const auth = request.auth;
+    if (auth?.token?.admin !== true) {
+        return Promise.resolve(false);
+    }
+    let check = adminChecks.get(request);
+    if (!check) {
+        check = confirmAdmin(auth.uid, auth.token.auth_time);
+        adminChecks.set(request, check);
+    }
+    return check;
+}
+
+/**
+ * Resolves which user's data a callable acts on. Callers act on their own data;
+ * admins may pass another user's UID.
+ * 
+ * @throws HttpsError("permission-denied") if a non-admin asks for another user's data
+ */
+export async function resolveTargetUser(request: CallableRequest, requestedUserId: unknown): Promise<string> {
+    const callerUid = requireAuth(request);
+    if (requestedUserId === undefined || requestedUserId === null || requestedUserId === callerUid) {
+        return callerUid;
+    }
+    if (typeof requestedUserId !== "string" || !requestedUserId) {
+        throw new HttpsError("invalid-argument", "userId must be a non-empty string");
+    }
+    if (!await isAdmin(request)) {
+        throw new HttpsError("permission-denied", "Only admins can access other users' receipts");
+    }
+    return requestedUserId;
+}
+
+/**
+ * Returns the caller's UID if they are an admin.
+ * 
+ * @throws HttpsError("permission-denied") if the caller is not an admin
+ */
+export async function requireAdmin(request: CallableRequest): Promise<string> {
+    const uid = requireAuth(request);
+    if (!await isAdmin(request)) {
+        throw new HttpsError("permission-denied", "Admin privileges required");
+    }
+    return uid;
+}
@@ -0,0 +1,623 @@
+// functions/src/backfill.ts
+
+import { getFirestore, FieldPath, FieldValue, Query } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { ReceiptData } from "./schema";
+import { ReceiptRecord, receiptsCollection } from "./receipts";
+import { processReceiptBatch } from "./processor";
+import { getExtractionProvider } from "./providers";
+import { getImageMaxDimension, prepareFile } from "./media";
+import { detectMimeType } from "./ingest";
+import { Taxonomy, loadTaxonomy } from "./taxonomy";
+import { VendorRuleSet, loadVendorRules } from "./categoryRules";
+import { CurrencyContext, loadCurrencyContext } from "./currency";
+import { rollupWrites } from "./rollups";
+import { evaluateBudgets } from "./budgets";
+import { syncReceiptRows } from "./sheetSync";
+import { getOrgIdForUser } from "./organizations";
+import { requireAdmin } from "./access";
+
+/**
+ * How long one call works through a job before checkpointing and returning, leaving
+ * room in the function timeout for the receipt in flight.
+ */
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+
+/**
+ * How long a run's claim on a job is honored before another call may resume it
+ * (e.g. after the first call hit the function timeout).
+ */
+const RUN_LEASE_MS = 10 * 60 * 1000;
+
+const SCAN_CHUNK = 50;
+const MAX_APPLY = 200;
+
+/**
+ * Ledger statuses whose data a backfill re-extracts. Other receipts have no data to
+ * compare (received, error) or are out of use (rejected, duplicate).
+ */
+const BACKFILL_STATUSES = ["exported", "pending_review"];
+
+export type BackfillScope = "user" | "organization" | "all";
+
+/**
+ * - running: receipts left to re-extract; call resumeBackfill to continue
+ * - extracted: every receipt in scope was re-extracted; results await a decision
+ * - closed: every changed result was applied or discarded
+ */
+export type BackfillJobStatus = "running" | "extracted" | "closed";
+
+export interface BackfillCounts {
+    scanned: number; // Ledger entries looked at
+    skipped: number; // Not re-extracted (no data, split receipts, already on the current version)
+    changed: number;
+    unchanged: number;
+    failed: number;
+    applied: number;
+    discarded: number;
+}
+
+/**
+ * Where a job stopped: the sort values of the last ledger entry handled, so a run resumes
+ * after it even if that entry was deleted in the meantime.
+ */
+export interface BackfillCursor {
+    createdAt: string;
+    path: string; // Document path of the entry (the tie-breaker for equal createdAt)
+}
+
+/**
+ * A re-extraction run over stored receipts, stored at backfillJobs/{jobId}.
+ * Progress is checkpointed after every receipt (cursor), so a run cut off by the
+ * function timeout resumes where it stopped.
+ */
+export interface BackfillJob {
+    jobId: string;
+    scope: BackfillScope;
+    userId: string | null;
+    orgId: string | null;
+    onlyOutdated: boolean; // Skip receipts already extracted with the target version
+    maxReceipts: number | null; // Stop after re-extracting this many receipts
+    target: { provider: string; version: string }; // Provider version the job extracts with
+    status: BackfillJobStatus;
+    cursor: BackfillCursor | null; // Last ledger entry handled
+    counts: BackfillCounts;
+    runStartedAt: string | null; // Start of the current run's lease
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A field whose value differs between the stored and the re-extracted receipt.
+ */
+export interface FieldDiff {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * The re-extraction of one receipt, stored at backfillJobs/{jobId}/results/{userId}_{receiptId}.
+ */
+export interface BackfillResult {
+    userId: string;
+    receiptId: string;
+    outcome: "changed" | "unchanged" | "failed";
+    decision: "pending" | "applied" | "discarded" | "stale" | null; // null unless changed; stale: the receipt changed since
+    before: ReceiptData; // As stored when re-extracted
+    receiptTimestamp: string; // The ledger entry's timestamp then, to tell whether it changed since
+    after: ReceiptData | null;
+    diff: FieldDiff[];
+    error: string | null;
+    extractedAt: string;
+    decidedBy: string | null;
+    decidedAt: string | null;
+}
+
+export function backfillJobsCollection() {
+    return getFirestore().collection("backfillJobs");
+}
+
+function resultsCollection(jobId: string) {
+    return backfillJobsCollection().doc(jobId).collection("results");
+}
+
+function resultId(userId: string, receiptId: string): string {
+    return `${userId}_${receiptId}`;
+}
+
+/**
+ * The fields of two receipts that differ, among the fields the model extracts
+ * (confidence excluded).
+ */
+function diffReceipts(before: ReceiptData, after: ReceiptData, taxonomy: Taxonomy): FieldDiff[] {
+    return Object.keys(taxonomy.fields.receipt.properties)
+        .filter((field) => field !== "confidence")
+        .map((field) => ({
+            field,
+            before: (before as unknown as Record<string, unknown>)[field] ?? null,
+            after: (after as unknown as Record<string, unknown>)[field] ?? null
+        }))
+        .filter(({ before, after }) => JSON.stringify(before) !== JSON.stringify(after));
+}
+
+/**
+ * The ledger entries in a job's scope, newest upload first, after the cursor if given.
+ */
+function scopeQuery(job: BackfillJob, cursor: BackfillCursor | null): Query {
+    let query: Query;
+    if (job.scope === "user") {
+        query = receiptsCollection(job.userId!);
+    } else {
+        const receipts = getFirestore().collectionGroup("receipts");
+        query = job.scope === "organization" ? receipts.where("orgId", "==", job.orgId) : receipts;
+    }
+    query = query.orderBy("createdAt", "desc").orderBy(FieldPath.documentId(), "desc");
+    if (!cursor) {
+        return query;
+    }
+    // Collection queries compare document IDs, collection group queries full paths
+    const position = job.scope === "user" ? cursor.path.split("/").pop()! : cursor.path;
+    return query.startAfter(cursor.createdAt, position);
+}
+
+/**
+ * Field updates that add to a job's counts. Increments, so a run's checkpoints and
+ * concurrent apply or discard calls don't overwrite each other's counts.
+ */
+function countIncrements(delta: Partial<BackfillCounts>): Record<string, FieldValue> {
+    const update: Record<string, FieldValue> = {};
+    for (const [key, value] of Object.entries(delta)) {
+        if (value) {
+            update[`counts.${key}`] = FieldValue.increment(value);
+        }
+    }
+    return update;
+}
+
+/**
+ * Atomically claims a job for a run, so two calls can't work on it at once.
+ *
+ * @throws HttpsError if the job is missing, finished or being run by another call
+ */
+async function claimJob(jobId: string): Promise<BackfillJob> {
+    const ref = backfillJobsCollection().doc(jobId);
+    return getFirestore().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const job = snapshot.data() as BackfillJob | undefined;
+        if (!job) {
+            throw new HttpsError("not-found", `Backfill job ${jobId} not found`);
+        }
+        if (job.status !== "running") {
+            throw new HttpsError("failed-precondition", `Backfill job ${jobId} has finished extracting (status: ${job.status})`);
+        }
+        if (job.runStartedAt && Date.now() - new Date(job.runStartedAt).getTime() < RUN_LEASE_MS) {
+            throw new HttpsError("failed-precondition", `Backfill job ${jobId} is already running`);
+        }
+        const runStartedAt = new Date().toISOString();
+        transaction.update(ref, { runStartedAt, updatedAt: runStartedAt });
+        return { ...job, runStartedAt };
+    });
+}
+
+/**
+ * Loads what the pipeline extracts with for an organization and uploader, once per run.
+ */
+function pipelineContext() {
+    const byOrg = new Map<string, Promise<{ taxonomy: Taxonomy; currency: CurrencyContext }>>();
+    const byUser = new Map<string, Promise<VendorRuleSet>>();
+    return async (orgId: string, userId: string) => {
+        if (!byOrg.has(orgId)) {
+            byOrg.set(orgId, Promise.all([loadTaxonomy(orgId), loadCurrencyContext(orgId)])
+                .then(([taxonomy, currency]) => ({ taxonomy, currency })));
+        }
+        const key = `${orgId}/${userId}`;
+        if (!byUser.has(key)) {
+            byUser.set(key, loadVendorRules(orgId, userId));
+        }
+        const [{ taxonomy, currency }, vendorRules] = await Promise.all([byOrg.get(orgId)!, byUser.get(key)!]);
+        return { taxonomy, currency, vendorRules };
+    };
+}
+
+/**
+ * Re-extracts the file of an uploaded receipt with the current provider, vendor rules and
+ * base currency, and records a result for it and every receipt split from the same file
+ * (matched by position in the file).
+ */
+async function reextractFile(
+    jobId: string,
+    record: ReceiptRecord,
+    contextFor: ReturnType<typeof pipelineContext>
+): Promise<BackfillResult[]> {
+    const entries = [record];
+    const splits = await receiptsCollection(record.userId).where("parentReceiptId", "==", record.receiptId).get();
+    splits.docs.forEach((doc) => entries.push(doc.data() as ReceiptRecord));
+    const current = entries.filter((entry) => entry.receiptData && BACKFILL_STATUSES.includes(entry.status));
+
+    const extractedAt = new Date().toISOString();
+    const failed = (entry: ReceiptRecord, error: string): BackfillResult => ({
+        userId: entry.userId,
+        receiptId: entry.receiptId,
+        outcome: "failed",
+        decision: null,
+        before: entry.receiptData!,
+        receiptTimestamp: entry.timestamp,
+        after: null,
+        diff: [],
+        error,
+        extractedAt,
+        decidedBy: null,
+        decidedAt: null
+    });
+
+    let results: BackfillResult[];
+    try {
+        const orgId = record.orgId || await getOrgIdForUser(record.userId);
+        const { taxonomy, currency, vendorRules } = await contextFor(orgId, record.userId);
+        const [fileBuffer] = await getStorage().bucket(record.bucket).file(record.storagePath).download();
+        const mimeType = detectMimeType(record, fileBuffer);
+        if (!mimeType) {
+            throw new Error("The stored file is not a supported image or PDF");
+        }
+        const prepared = await prepareFile(fileBuffer, mimeType, getImageMaxDimension());
+        const extracted = await processReceiptBatch(prepared.buffer, record.storagePath, taxonomy, vendorRules, currency, prepared.mimeType);
+
+        results = current.map((entry) => {
+            const after = extracted[entry.receiptData!.source.index];
+            if (!after) {
+                return failed(entry, `Receipt ${entry.receiptData!.source.index + 1} of the file was not found again (${extracted.length} found)`);
+            }
+            const diff = diffReceipts(entry.receiptData!, after, taxonomy);
+            return {
+                ...failed(entry, ""),
+                outcome: diff.length > 0 ? "changed" : "unchanged",
+                decision: diff.length > 0 ? "pending" : null,
+                after,
+                diff,
+                error: null
+            };
+        });
+    } catch (error) {
+        console.error(`Backfill ${jobId}: re-extraction of ${record.storagePath} failed:`, error);
+        results = current.map((entry) => failed(entry, (error as Error).message));
+    }
+
+    const batch = getFirestore().batch();
+    results.forEach((result) => batch.set(resultsCollection(jobId).doc(resultId(result.userId, result.receiptId)), result));
+    await batch.commit();
+    return results;
+}
+
+/**
+ * Works through a claimed job until it runs out of receipts, reaches maxReceipts or uses
+ * up the run budget, checkpointing after every receipt. Releases the claim on return.
+ * The returned counts are the job's counts at the start plus this run's.
+ */
+async function runJob(job: BackfillJob): Promise<BackfillJob> {
+    const ref = backfillJobsCollection().doc(job.jobId);
+    const startedAt = Date.now();
+    const contextFor = pipelineContext();
+    const counts = { ...job.counts };
+    const provider = getExtractionProvider();
+    const reextracted = () => counts.changed + counts.unchanged + counts.failed;
+
+    let cursor = job.cursor;
+    let done = false;
+
+    while (!done && Date.now() - startedAt < RUN_BUDGET_MS) {
+        const chunk = await scopeQuery(job, cursor).limit(SCAN_CHUNK).get();
+        if (chunk.empty) {
+            done = true;
+            break;
+        }
+
+        for (const doc of chunk.docs) {
+            if (Date.now() - startedAt >= RUN_BUDGET_MS || (job.maxReceipts !== null && reextracted() >= job.maxReceipts)) {
+                done = job.maxReceipts !== null && reextracted() >= job.maxReceipts;
+                break;
+            }
+            const record = doc.data() as ReceiptRecord;
+            const delta: Partial<BackfillCounts> = { scanned: 1 };
+
+            const outdated = !job.onlyOutdated ||
+                record.receiptData?.extractedWith?.provider !== job.target.provider ||
+                record.receiptData?.extractedWith?.version !== job.target.version;
+            // Split receipts are re-extracted with the receipt of their uploaded file
+            if (!record.parentReceiptId && outdated && record.receiptData && BACKFILL_STATUSES.includes(record.status)) {
+                const results = await reextractFile(job.jobId, record, contextFor);
+                results.forEach((result) => delta[result.outcome] = (delta[result.outcome] || 0) + 1);
+            } else {
+                delta.skipped = 1;
+            }
+
+            cursor = { createdAt: record.createdAt, path: doc.ref.path };
+            await ref.update({ cursor, ...countIncrements(delta), updatedAt: new Date().toISOString() });
+            for (const [key, value] of Object.entries(delta) as [keyof BackfillCounts, number][]) {
+                counts[key] += value;
+            }
+        }
+        if (chunk.size < SCAN_CHUNK && cursor?.path === chunk.docs[chunk.docs.length - 1].ref.path) {
+            done = true;
+        }
+    }
+
+    if (provider.version !== job.target.version) {
+        console.warn(`Backfill ${job.jobId}: the provider changed to ${provider.version} during the job (target ${job.target.version})`);
+    }
+
+    const status: BackfillJobStatus = done ? (counts.changed > 0 ? "extracted" : "closed") : "running";
+    const update = { status, cursor, runStartedAt: null, updatedAt: new Date().toISOString() };
+    await ref.update(update);
+
+    console.log(`Backfill ${job.jobId}: ${status}`, counts);
+    return { ...job, ...update, counts };
+}
+
+/**
+ * Applies (or discards) a job's changed results. Applied receipts get the re-extracted
+ * data; exported ones keep their status, with statistics, rollups, Sheet rows and budgets
+ * updated to match. Results whose receipt changed since it was re-extracted (edited,
+ * reviewed, deleted) are marked stale and left alone.
+ */
+async function decideResults(
+    job: BackfillJob,
+    decision: "applied" | "discarded",
+    receiptIds: { userId: string; receiptId: string }[] | null,
+    decidedBy: string
+): Promise<{ decided: number; stale: number; remaining: number }> {
+    const db = getFirestore();
+    let results: BackfillResult[];
+    if (receiptIds) {
+        const snapshots = await Promise.all(receiptIds.map(({ userId, receiptId }) =>
+            resultsCollection(job.jobId).doc(resultId(userId, receiptId)).get()));
+        results = snapshots.filter((snapshot) => snapshot.exists).map((snapshot) => snapshot.data() as BackfillResult);
+    } else {
+        const snapshot = await resultsCollection(job.jobId).where("decision", "==", "pending").limit(MAX_APPLY).get();
+        results = snapshot.docs.map((doc) => doc.data() as BackfillResult);
+    }
+
+    let decided = 0;
+    let stale = 0;
+    const exported: ReceiptRecord[] = [];
+    for (const result of results.filter((result) => result.decision === "pending")) {
+        const resultRef = resultsCollection(job.jobId).doc(resultId(result.userId, result.receiptId));
+        const receiptRef = receiptsCollection(result.userId).doc(result.receiptId);
+        const decidedAt = new Date().toISOString();
+
+        const outcome = await db.runTransaction(async (transaction) => {
+            // Decided by a concurrent apply or discard since the results were loaded
+            const current = (await transaction.get(resultRef)).data() as BackfillResult | undefined;
+            if (current?.decision !== "pending") {
+                return { decision: "skipped" as const, updated: null };
+            }
+            const snapshot = await transaction.get(receiptRef);
+            const record = snapshot.data() as ReceiptRecord | undefined;
+            if (decision === "discarded") {
+                transaction.update(resultRef, { decision, decidedBy, decidedAt });
+                return { decision, updated: null };
+            }
+            // Edits, reviews and status changes all move the ledger entry's timestamp
+            if (!record?.receiptData || record.timestamp !== result.receiptTimestamp ||
+                !BACKFILL_STATUSES.includes(record.status)) {
+                transaction.update(resultRef, { decision: "stale", decidedBy, decidedAt });
+                return { decision: "stale" as const, updated: null };
+            }
+
+            const updated: ReceiptRecord = { ...record, receiptData: result.after!, timestamp: decidedAt };
+            if (record.statsApplied) {
+                rollupWrites([{ before: record, after: updated }])
+                    .forEach((write) => transaction.set(write.ref, write.data, { merge: true }));
+            }
+            transaction.update(receiptRef, { receiptData: result.after!, timestamp: decidedAt });
+            transaction.update(resultRef, { decision, decidedBy, decidedAt });
+            return { decision, updated };
+        });
+
+        if (outcome.decision === "skipped") {
+            continue;
+        }
+        if (outcome.decision === "stale") {
+            stale++;
+            continue;
+        }
+        decided++;
+        if (outcome.updated?.status === "exported") {
+            exported.push(outcome.updated);
+        }
+    }
+
+    if (exported.length > 0) {
+        await syncReceiptRows(exported);
+        for (const record of exported) {
+            try {
+                await evaluateBudgets(record);
+            } catch (error) {
+                console.error(`Failed to evaluate budgets for receipt ${record.receiptId}:`, error);
+            }
+        }
+    }
+
+    const remaining = (await resultsCollection(job.jobId).where("decision", "==", "pending").count().get()).data().count;
+    await backfillJobsCollection().doc(job.jobId).update({
+        ...countIncrements({ [decision]: decided }),
+        ...(remaining === 0 && job.status === "extracted" ? { status: "closed" } : {}),
+        updatedAt: new Date().toISOString()
+    });
+    return { decided, stale, remaining };
+}
+
+async function loadJob(jobId: unknown): Promise<BackfillJob> {
+    if (typeof jobId !== "string" || !jobId || jobId.includes("/")) {
+        throw new HttpsError("invalid-argument", "jobId is required");
+    }
+    const snapshot = await backfillJobsCollection().doc(jobId).get();
+    if (!snapshot.exists) {
+        throw new HttpsError("not-found", `Backfill job ${jobId} not found`);
+    }
+    return snapshot.data() as BackfillJob;
+}
+
+function parseReceiptIds(value: unknown): { userId: string; receiptId: string }[] | null {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_APPLY ||
+        !value.every((item) => typeof item?.userId === "string" && item.userId && typeof item?.receiptId === "string" && item.receiptId)) {
+        throw new HttpsError("invalid-argument", `receipts must be a list of 1-${MAX_APPLY} { userId, receiptId }`);
+    }
+    return value;
+}
+
+/**
+ * Cloud Function: Start a Backfill (admin only)
+ *
+ * Re-extracts stored receipts with the current provider and prompt version and records a
+ * per-field diff against the stored data, without changing any receipt:
+ * { scope: "user" | "organization" | "all", userId?, orgId?, onlyOutdated? (default true),
+ * maxReceipts? }. Runs for up to about 7 minutes; if the returned job is still "running",
+ * call resumeBackfill to continue from its checkpoint.
+ */
+export const startBackfill = onCall(
+    {
+        region: "us-central1",
+        memory: "1GiB", // Image processing and the model calls, as in the upload trigger
+        timeoutSeconds: 540,
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const { scope, userId, orgId, maxReceipts } = request.data || {};
+        if (scope !== "user" && scope !== "organization" && scope !== "all") {
+            throw new HttpsError("invalid-argument", "scope must be \"user\", \"organization\" or \"all\"");
+        }
+        if (scope === "user" && (typeof userId !== "string" || !userId || userId.includes("/"))) {
+            throw new HttpsError("invalid-argument", "userId is required for scope \"user\"");
+        }
+        if (scope === "organization" && (typeof orgId !== "string" || !orgId || orgId.includes("/"))) {
+            throw new HttpsError("invalid-argument", "orgId is required for scope \"organization\"");
+        }
+        if (maxReceipts !== undefined && maxReceipts !== null && (!Number.isInteger(maxReceipts) || maxReceipts < 1)) {
+            throw new HttpsError("invalid-argument", "maxReceipts must be a positive integer");
+        }
+
+        const provider = getExtractionProvider();
+        const ref = backfillJobsCollection().doc();
+        const now = new Date().toISOString();
+        const job: BackfillJob = {
+            jobId: ref.id,
+            scope,
+            userId: scope === "user" ? userId : null,
+            orgId: scope === "organization" ? orgId : null,
+            onlyOutdated: request.data?.onlyOutdated !== false,
+            maxReceipts: maxReceipts ?? null,
+            target: { provider: provider.name, version: provider.version },
+            status: "running",
+            cursor: null,
+            counts: { scanned: 0, skipped: 0, changed: 0, unchanged: 0, failed: 0, applied: 0, discarded: 0 },
+            runStartedAt: now,
+            createdBy: adminUid,
+            createdAt: now,
+            updatedAt: now
+        };
+        await ref.set(job);
+
+        console.log(`Backfill ${ref.id} (${scope}) started by ${adminUid} with ${provider.name} ${provider.version}`);
+        return { job: await runJob(job) };
+    }
+);
+
+/**
+ * Cloud Function: Resume a Backfill (admin only)
+ *
+ * Continues a running job from its last checkpoint: { jobId }.
+ */
+export const resumeBackfill = onCall(
+    {
+        region: "us-central1",
+        memory: "1GiB",
+        timeoutSeconds: 540,
+    },
+    async (request) => {
+        await requireAdmin(request);
+        const job = await loadJob(request.data?.jobId);
+        const provider = getExtractionProvider();
+        if (provider.name !== job.target.provider || provider.version !== job.target.version) {
+            throw new HttpsError("failed-precondition",
+                `The extraction provider changed since the job started (${provider.version}, job ${job.target.version}); start a new backfill`);
+        }
+        return { job: await runJob(await claimJob(job.jobId)) };
+    }
+);
+
+/**
+ * Cloud Function: Get a Backfill (admin only)
+ *
+ * Returns a job and its results: { jobId, outcome?: "changed" | "unchanged" | "failed",
+ * decision?: "pending" | "applied" | "discarded" | "stale", limit? }. Without jobId, returns
+ * the most recent jobs.
+ */
+export const getBackfill = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        await requireAdmin(request);
+        const limit = Math.min(Math.max(Number(request.data?.limit) || 50, 1), 200);
+        if (request.data?.jobId === undefined) {
+            const snapshot = await backfillJobsCollection().orderBy("createdAt", "desc").limit(limit).get();
+            return { jobs: snapshot.docs.map((doc) => doc.data() as BackfillJob) };
+        }
+
+        const job = await loadJob(request.data.jobId);
+        let query: Query = resultsCollection(job.jobId);
+        if (request.data?.outcome !== undefined) {
+            query = query.where("outcome", "==", request.data.outcome);
+        }
+        if (request.data?.decision !== undefined) {
+            query = query.where("decision", "==", request.data.decision);
+        }
+        const snapshot = await query.limit(limit).get();
+        return { job, results: snapshot.docs.map((doc) => doc.data() as BackfillResult) };
+    }
+);
+
+/**
+ * Cloud Function: Apply Backfill Results (admin only)
+ *
+ * Replaces receipts' data with their re-extraction: { jobId, receipts?: [{ userId, receiptId }] }.
+ * Without receipts, applies up to 200 pending changed results; call again for more.
+ */
+export const applyBackfill = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 540,
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const job = await loadJob(request.data?.jobId);
+        const result = await decideResults(job, "applied", parseReceiptIds(request.data?.receipts), adminUid);
+        console.log(`Backfill ${job.jobId}: ${result.decided} results applied by ${adminUid} (${result.stale} stale)`);
+        return { success: true, ...result };
+    }
+);
+
+/**
+ * Cloud Function: Discard Backfill Results (admin only)
+ *
+ * Keeps receipts' stored data: { jobId, receipts?: [{ userId, receiptId }] }. Without
+ * receipts, discards up to 200 pending changed results; call again for more.
+ */
+export const discardBackfill = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const job = await loadJob(request.data?.jobId);
+        const result = await decideResults(job, "discarded", parseReceiptIds(request.data?.receipts), adminUid);
+        console.log(`Backfill ${job.jobId}: ${result.decided} results discarded by ${adminUid}`);
+        return { success: true, ...result };
+    }
+);
@@ -0,0 +1,413 @@
+// functions/src/budgets.ts
+
+import { getFirestore, CollectionReference } from "firebase-admin/firestore";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { ReceiptRecord } from "./receipts";
+import { SpendingRollup, orgRollupsCollection, userRollupsCollection } from "./rollups";
+import { Taxonomy, loadTaxonomy } from "./taxonomy";
+import { DEFAULT_ORG_ID, MANAGER_ROLES, getOrgIdForUser, hasOrgRole, organizationDoc, resolveTargetOrg } from "./organizations";
+import { resolveTargetUser } from "./access";
+import { emitEvent } from "./webhooks";
+
+/**
+ * Percentages of a budget that raise an alert unless the budget sets its own.
+ */
+const DEFAULT_THRESHOLDS = [80, 100];
+
+const MAX_THRESHOLDS = 5;
+const MAX_BUDGETS = 100;
+
+/**
+ * gRPC status code returned by create() when the document already exists.
+ */
+const ALREADY_EXISTS = 6;
+
+const MONTH = /^\d{4}-\d{2}$/;
+
+/**
+ * Whose spending a budget limits: a user's own, or their organization's.
+ */
+export type BudgetScope = "personal" | "organization";
+
+/**
+ * A monthly spending limit for a category (including its subcategories), or for
+ * all spending. Stored at users/{userId}/budgets/{budgetId} (personal) or
+ * organizations/{orgId}/budgets/{budgetId}.
+ */
+export interface Budget {
+    budgetId: string;
+    scope: BudgetScope;
+    ownerId: string; // userId or orgId
+    categoryId: string | null; // null for all spending; by ID, so renaming the category keeps the budget
+    amount: number; // Per calendar month of the receipts' transaction dates
+    thresholds: number[]; // Percentages of amount that raise an alert, ascending
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A budget threshold crossed in a month. Stored next to the budget in budgetAlerts,
+ * with the ID {budgetId}_{month}_{threshold}, so each crossing is recorded once.
+ */
+export interface BudgetAlert {
+    alertId: string;
+    budgetId: string;
+    scope: BudgetScope;
+    ownerId: string;
+    categoryId: string | null;
+    categoryName: string | null; // At the time of the alert
+    month: string; // YYYY-MM
+    threshold: number; // Percentage crossed
+    budgetAmount: number;
+    spent: number; // Spending when the threshold was crossed
+    receiptId: string; // Receipt that pushed spending over the threshold
+    userId: string; // Uploader of that receipt
+    createdAt: string;
+}
+
+function ownerDoc(scope: BudgetScope, ownerId: string) {
+    return scope === "personal"
+        ? getFirestore().collection("users").doc(ownerId)
+        : organizationDoc(ownerId);
+}
+
+export function budgetsCollection(scope: BudgetScope, ownerId: string): CollectionReference {
+    return ownerDoc(scope, ownerId).collection("budgets");
+}
+
+export function budgetAlertsCollection(scope: BudgetScope, ownerId: string): CollectionReference {
+    return ownerDoc(scope, ownerId).collection("budgetAlerts");
+}
+
+async function loadBudgets(scope: BudgetScope, ownerId: string): Promise<Budget[]> {
+    const snapshot = await budgetsCollection(scope, ownerId).get();
+    return snapshot.docs.map((doc) => doc.data() as Budget);
+}
+
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * The category names a budget covers: its category and every category below it.
+ * Empty if the category no longer exists; null for an all-spending budget.
+ */
+function coveredCategories(budget: Budget, taxonomy: Taxonomy): Set<string> | null {
+    if (budget.categoryId === null) {
+        return null;
+    }
+    const covered = new Set<string>();
+    const ids = new Set([budget.categoryId]);
+    // Parents come before their children, so one pass collects every level
+    for (const category of taxonomy.categories) {
+        if (ids.has(category.categoryId) || (category.parentId && ids.has(category.parentId))) {
+            ids.add(category.categoryId);
+            covered.add(category.name);
+        }
+    }
+    return covered;
+}
+
+/**
+ * A budget's spending in a month, from the owner's rollup.
+ */
+function spentAgainst(budget: Budget, rollup: SpendingRollup | null, taxonomy: Taxonomy): number {
+    if (!rollup) {
+        return 0;
+    }
+    const covered = coveredCategories(budget, taxonomy);
+    if (covered === null) {
+        return roundAmount(rollup.totalAmount);
+    }
+    return roundAmount([...covered].reduce((sum, name) => sum + (rollup.byCategory?.[name]?.totalAmount || 0), 0));
+}
+
+function categoryName(budget: Budget, taxonomy: Taxonomy): string | null {
+    return taxonomy.categories.find((category) => category.categoryId === budget.categoryId)?.name ?? null;
+}
+
+async function getRollup(scope: BudgetScope, ownerId: string, month: string): Promise<SpendingRollup | null> {
+    const collection = scope === "personal" ? userRollupsCollection(ownerId) : orgRollupsCollection(ownerId);
+    const snapshot = await collection.doc(month).get();
+    return (snapshot.data() as SpendingRollup | undefined) ?? null;
+}
+
+/**
+ * Checks the uploader's and their organization's budgets after a receipt was
+ * exported (and counted in the rollups), and records an alert for each threshold
+ * the month's spending has reached. A threshold is alerted once per budget and month.
+ *
+ * @returns The alerts raised by this receipt
+ */
+export async function evaluateBudgets(record: ReceiptRecord): Promise<BudgetAlert[]> {
+    const receiptData = record.receiptData;
+    if (record.status !== "exported" || !receiptData) {
+        return [];
+    }
+    const orgId = record.orgId || DEFAULT_ORG_ID;
+    const month = receiptData.transactionDate.slice(0, 7);
+    const owners: { scope: BudgetScope; ownerId: string }[] = [
+        { scope: "personal", ownerId: record.userId },
+        { scope: "organization", ownerId: orgId }
+    ];
+
+    const [taxonomy, ...budgetLists] = await Promise.all([
+        loadTaxonomy(orgId),
+        ...owners.map(({ scope, ownerId }) => loadBudgets(scope, ownerId))
+    ]) as [Taxonomy, ...Budget[][]];
+
+    const raised: BudgetAlert[] = [];
+    for (const [index, { scope, ownerId }] of owners.entries()) {
+        // Only budgets this receipt counts against
+        const budgets = budgetLists[index].filter((budget) => {
+            const covered = coveredCategories(budget, taxonomy);
+            return covered === null || covered.has(receiptData.category);
+        });
+        if (budgets.length === 0) {
+            continue;
+        }
+
+        const rollup = await getRollup(scope, ownerId, month);
+        for (const budget of budgets) {
+            const spent = spentAgainst(budget, rollup, taxonomy);
+            for (const threshold of budget.thresholds) {
+                if (spent < budget.amount * threshold / 100) {
+                    continue;
+                }
+                const alertId = `${budget.budgetId}_${month}_${threshold}`;
+                const alert: BudgetAlert = {
+                    alertId,
+                    budgetId: budget.budgetId,
+                    scope,
+                    ownerId,
+                    categoryId: budget.categoryId,
+                    categoryName: categoryName(budget, taxonomy),
+                    month,
+                    threshold,
+                    budgetAmount: budget.amount,
+                    spent,
+                    receiptId: record.receiptId,
+                    userId: record.userId,
+                    createdAt: new Date().toISOString()
+                };
+                try {
+                    await budgetAlertsCollection(scope, ownerId).doc(alertId).create(alert);
+                } catch (error) {
+                    if ((error as { code?: number }).code === ALREADY_EXISTS) {
+                        continue; // Already alerted this month
+                    }
+                    throw error;
+                }
+                raised.push(alert);
+                console.warn(`Budget alert: ${scope} ${ownerId} reached ${threshold}% of ` +
+                    `${alert.categoryName ?? "all spending"} (${spent} of ${budget.amount}) in ${month}`);
+                if (threshold >= 100) {
+                    await emitEvent("budget.exceeded", `${scope}/${ownerId}/${alertId}`, {
+                        userId: scope === "personal" ? ownerId : null,
+                        orgId: scope === "organization" ? ownerId : null
+                    }, { ...alert });
+                }
+            }
+        }
+    }
+    return raised;
+}
+
+/**
+ * Resolves whose budgets a request is about. Personal budgets are the caller's
+ * (admins may pass userId); organization budgets are read and changed by admins.
+ */
+async function resolveBudgetOwner(request: CallableRequest): Promise<{ scope: BudgetScope; ownerId: string }> {
+    const scope = request.data?.scope ?? "personal";
+    if (scope === "personal") {
+        return { scope, ownerId: await resolveTargetUser(request, request.data?.userId) };
+    }
+    if (scope !== "organization") {
+        throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+    }
+    const orgId = await resolveTargetOrg(request, request.data?.orgId);
+    if (!await hasOrgRole(request, orgId, MANAGER_ROLES)) {
+        throw new HttpsError("permission-denied", "Only the organization's owners and admins can manage its budgets");
+    }
+    return { scope, ownerId: orgId };
+}
+
+/**
+ * The organization whose taxonomy a budget's categories come from.
+ */
+async function taxonomyOrgId(scope: BudgetScope, ownerId: string): Promise<string> {
+    return scope === "organization" ? ownerId : getOrgIdForUser(ownerId);
+}
+
+function parseThresholds(value: unknown): number[] {
+    if (value === undefined || value === null) {
+        return DEFAULT_THRESHOLDS;
+    }
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_THRESHOLDS ||
+        !value.every((threshold) => typeof threshold === "number" && Number.isFinite(threshold) && threshold > 0 && threshold <= 1000)) {
+        throw new HttpsError("invalid-argument", `thresholds must be 1 to ${MAX_THRESHOLDS} percentages between 0 and 1000`);
+    }
+    return [...new Set(value as number[])].sort((a, b) => a - b);
+}
+
+/**
+ * Cloud Function: List Budgets
+ *
+ * Returns a user's or (admins) an organization's budgets: { scope?, userId?, orgId? }.
+ */
+export const listBudgets = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveBudgetOwner(request);
+        const [budgets, taxonomy] = await Promise.all([
+            loadBudgets(scope, ownerId),
+            taxonomyOrgId(scope, ownerId).then(loadTaxonomy)
+        ]);
+        return {
+            budgets: budgets.map((budget) => ({ ...budget, categoryName: categoryName(budget, taxonomy) }))
+        };
+    }
+);
+
+/**
+ * Cloud Function: Save Budget
+ *
+ * Creates or updates a monthly budget:
+ * { scope?, userId?, orgId?, budgetId?, categoryId (null for all spending), amount, thresholds? }.
+ * Thresholds are percentages of the amount (default 80 and 100). One budget per category.
+ */
+export const saveBudget = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveBudgetOwner(request);
+        const { budgetId, amount } = request.data || {};
+        const categoryId = request.data?.categoryId ?? null;
+
+        if (budgetId !== undefined && (typeof budgetId !== "string" || !budgetId)) {
+            throw new HttpsError("invalid-argument", "budgetId must be a budget ID");
+        }
+        if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+            throw new HttpsError("invalid-argument", "amount must be a positive number");
+        }
+        const thresholds = parseThresholds(request.data?.thresholds);
+
+        const taxonomy = await loadTaxonomy(await taxonomyOrgId(scope, ownerId));
+        if (categoryId !== null && !taxonomy.categories.some((category) => category.categoryId === categoryId)) {
+            throw new HttpsError("invalid-argument", "categoryId must be an active category, or null for all spending");
+        }
+
+        const collection = budgetsCollection(scope, ownerId);
+        const ref = budgetId ? collection.doc(budgetId) : collection.doc();
+        const budget = await getFirestore().runTransaction(async (transaction) => {
+            const [existing, all] = await Promise.all([transaction.get(ref), transaction.get(collection)]);
+            if (budgetId && !existing.exists) {
+                throw new HttpsError("not-found", `Budget ${budgetId} not found`);
+            }
+            const others = all.docs.filter((doc) => doc.id !== ref.id).map((doc) => doc.data() as Budget);
+            if (others.some((other) => other.categoryId === categoryId)) {
+                throw new HttpsError("already-exists", "There is already a budget for this category");
+            }
+            if (!existing.exists && others.length >= MAX_BUDGETS) {
+                throw new HttpsError("resource-exhausted", `At most ${MAX_BUDGETS} budgets are allowed`);
+            }
+
+            const now = new Date().toISOString();
+            const saved: Budget = {
+                budgetId: ref.id,
+                scope,
+                ownerId,
+                categoryId,
+                amount: roundAmount(amount),
+                thresholds,
+                createdBy: (existing.data() as Budget | undefined)?.createdBy ?? request.auth!.uid,
+                createdAt: (existing.data() as Budget | undefined)?.createdAt ?? now,
+                updatedAt: now
+            };
+            transaction.set(ref, saved);
+            return saved;
+        });
+
+        console.log(`Budget ${budget.budgetId} of ${scope} ${ownerId} saved by ${request.auth!.uid}: ` +
+            `${categoryName(budget, taxonomy) ?? "all spending"} ${budget.amount}/month`);
+        return { success: true, budget: { ...budget, categoryName: categoryName(budget, taxonomy) } };
+    }
+);
+
+/**
+ * Cloud Function: Delete Budget
+ *
+ * Removes a budget: { scope?, userId?, orgId?, budgetId }. Its past alerts are kept.
+ */
+export const deleteBudget = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveBudgetOwner(request);
+        const budgetId = request.data?.budgetId;
+        if (typeof budgetId !== "string" || !budgetId) {
+            throw new HttpsError("invalid-argument", "budgetId is required");
+        }
+
+        const ref = budgetsCollection(scope, ownerId).doc(budgetId);
+        if (!(await ref.get()).exists) {
+            throw new HttpsError("not-found", `Budget ${budgetId} not found`);
+        }
+        await ref.delete();
+
+        console.log(`Budget ${budgetId} of ${scope} ${ownerId} deleted by ${request.auth!.uid}`);
+        return { success: true };
+    }
+);
+
+/**
+ * Cloud Function: Get Budget Status
+ *
+ * Returns budget vs. actual for a month: { scope?, userId?, orgId?, month? (YYYY-MM, default
+ * the current month) }, with each budget's spending, what is left, the thresholds reached
+ * and the month's alerts.
+ */
+export const getBudgetStatus = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveBudgetOwner(request);
+        const month = request.data?.month ?? new Date().toISOString().slice(0, 7);
+        if (typeof month !== "string" || !MONTH.test(month)) {
+            throw new HttpsError("invalid-argument", "month must be a month (YYYY-MM)");
+        }
+
+        const [budgets, taxonomy, rollup, alerts] = await Promise.all([
+            loadBudgets(scope, ownerId),
+            taxonomyOrgId(scope, ownerId).then(loadTaxonomy),
+            getRollup(scope, ownerId, month),
+            budgetAlertsCollection(scope, ownerId).where("month", "==", month).get()
+        ]);
+
+        return {
+            month,
+            budgets: budgets.map((budget) => {
+                const spent = spentAgainst(budget, rollup, taxonomy);
+                const name = categoryName(budget, taxonomy);
+                return {
+                    ...budget,
+                    categoryName: name,
+                    categoryMissing: budget.categoryId !== null && name === null, // Deleted or merged away
+                    spent,
+                    remaining: roundAmount(budget.amount - spent),
+                    percentUsed: Math.round(spent / budget.amount * 1000) / 10,
+                    thresholdsReached: budget.thresholds.filter((threshold) => spent >= budget.amount * threshold / 100)
+                };
+            }),
+            alerts: alerts.docs
+                .map((doc) => doc.data() as BudgetAlert)
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        };
+    }
+);
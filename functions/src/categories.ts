@@ -0,0 +1,506 @@
+// functions/src/categories.ts
+
+import { getFirestore, FieldPath, Query, QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import {
+    CategoryDefinition,
+    DEFAULT_CATEGORY_DEFINITIONS,
+    categoriesCollection,
+    invalidateTaxonomy,
+    loadTaxonomy
+} from "./taxonomy";
+import { DEFAULT_ORG_ID, resolveTargetOrg } from "./organizations";
+import { ReceiptRecord } from "./receipts";
+import { ReceiptData } from "./schema";
+import { syncReceiptRows } from "./sheetSync";
+import { rollupWrites } from "./rollups";
+import { migrateRuleCategory } from "./categoryRules";
+import { isAdmin, requireAdmin } from "./access";
+
+/**
+ * Receipts updated per batched write while migrating a renamed or merged category.
+ */
+const MIGRATION_PAGE_SIZE = 300;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_KEYWORDS = 20;
+
+/**
+ * Fields an admin may set on a category.
+ */
+type CategoryInput = Partial<Pick<CategoryDefinition,
+    "name" | "description" | "glAccountCode" | "parentId" | "keywords" | "isFallback" | "sortOrder">>;
+
+/**
+ * Validates the editable fields of a create/update request. Only the fields
+ * present in the request are returned.
+ *
+ * @throws HttpsError("invalid-argument") if a field has the wrong type
+ */
+function parseCategoryInput(data: unknown): CategoryInput {
+    const fields = (typeof data === "object" && data !== null ? data : {}) as Record<string, unknown>;
+    const { name, description, glAccountCode, parentId, keywords, isFallback, sortOrder } = fields;
+    const input: CategoryInput = {};
+
+    if (name !== undefined) {
+        if (typeof name !== "string" || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+            throw new HttpsError("invalid-argument", `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+        }
+        input.name = name.trim();
+    }
+    if (description !== undefined) {
+        if (typeof description !== "string") {
+            throw new HttpsError("invalid-argument", "description must be a string");
+        }
+        input.description = description.trim();
+    }
+    if (glAccountCode !== undefined) {
+        if (glAccountCode !== null && typeof glAccountCode !== "string") {
+            throw new HttpsError("invalid-argument", "glAccountCode must be a string or null");
+        }
+        input.glAccountCode = glAccountCode ? glAccountCode.trim() : null;
+    }
+    if (parentId !== undefined) {
+        if (parentId !== null && (typeof parentId !== "string" || !parentId)) {
+            throw new HttpsError("invalid-argument", "parentId must be a category ID or null");
+        }
+        input.parentId = parentId;
+    }
+    if (keywords !== undefined) {
+        if (!Array.isArray(keywords) || keywords.length > MAX_KEYWORDS ||
+            !keywords.every((keyword: unknown) => typeof keyword === "string" && keyword.trim())) {
+            throw new HttpsError("invalid-argument", `keywords must be an array of at most ${MAX_KEYWORDS} non-empty strings`);
+        }
+        input.keywords = (keywords as string[]).map((keyword) => keyword.trim().toLowerCase());
+    }
+    if (isFallback !== undefined) {
+        if (typeof isFallback !== "boolean") {
+            throw new HttpsError("invalid-argument", "isFallback must be a boolean");
+        }
+        input.isFallback = isFallback;
+    }
+    if (sortOrder !== undefined) {
+        if (typeof sortOrder !== "number" || !isFinite(sortOrder)) {
+            throw new HttpsError("invalid-argument", "sortOrder must be a number");
+        }
+        input.sortOrder = sortOrder;
+    }
+
+    return input;
+}
+
+/**
+ * Checks that a set of categories forms a usable taxonomy: unique names, parents
+ * that exist and are active, no cycles, and exactly one fallback.
+ *
+ * @throws HttpsError("failed-precondition") describing the first problem found
+ */
+function validateTaxonomy(definitions: CategoryDefinition[]): void {
+    const active = definitions.filter((category) => category.active);
+    const byId = new Map(active.map((category) => [category.categoryId, category]));
+
+    const names = new Set<string>();
+    for (const category of active) {
+        const key = category.name.toLowerCase();
+        if (names.has(key)) {
+            throw new HttpsError("failed-precondition", `A category named "${category.name}" already exists`);
+        }
+        names.add(key);
+    }
+
+    for (const category of active) {
+        if (category.parentId && !byId.has(category.parentId)) {
+            throw new HttpsError("failed-precondition", `Parent category ${category.parentId} of "${category.name}" does not exist`);
+        }
+
+        // Walk up the tree; coming back to the same category means a cycle
+        const seen = new Set([category.categoryId]);
+        let parentId = category.parentId;
+        while (parentId) {
+            if (seen.has(parentId)) {
+                throw new HttpsError("failed-precondition", `"${category.name}" cannot be nested under one of its own subcategories`);
+            }
+            seen.add(parentId);
+            parentId = byId.get(parentId)?.parentId ?? null;
+        }
+    }
+
+    const fallbacks = active.filter((category) => category.isFallback);
+    if (fallbacks.length !== 1) {
+        throw new HttpsError("failed-precondition",
+            `Exactly one category must be the fallback (found ${fallbacks.length})`);
+    }
+}
+
+/**
+ * Writes the default taxonomy to an organization that has no categories yet, so
+ * the first edit starts from the categories extraction was already using.
+ * Safe to run concurrently: the default categories have fixed IDs.
+ */
+async function seedDefaultCategories(orgId: string): Promise<void> {
+    const collection = categoriesCollection(orgId);
+    const existing = await collection.limit(1).get();
+    if (!existing.empty) {
+        return;
+    }
+
+    const now = new Date().toISOString();
+    for (const category of DEFAULT_CATEGORY_DEFINITIONS) {
+        try {
+            await collection.doc(category.categoryId).create({ ...category, createdAt: now, updatedAt: now });
+        } catch (error) {
+            if ((error as { code?: number }).code !== 6) { // ALREADY_EXISTS: seeded by a concurrent call
+                throw error;
+            }
+        }
+    }
+    console.log(`Seeded default categories for organization ${orgId}`);
+}
+
+/**
+ * Replaces a category name in one receipt's data (receipt and line items).
+ *
+ * @returns The updated receipt data, or null if the receipt does not use the category
+ */
+function renamedCategory(record: ReceiptRecord, from: string, to: string): ReceiptData | null {
+    const receiptData = record.receiptData;
+    if (!receiptData || (receiptData.category !== from && !receiptData.lineItems.some((item) => item.category === from))) {
+        return null;
+    }
+    return {
+        ...receiptData,
+        category: receiptData.category === from ? to : receiptData.category,
+        lineItems: receiptData.lineItems.map((item) => item.category === from ? { ...item, category: to } : item)
+    };
+}
+
+/**
+ * Updates every matching receipt in a query, a page at a time.
+ *
+ * @returns The number of receipts updated
+ */
+async function migrateReceiptsInQuery(
+    query: Query,
+    from: string,
+    to: string,
+    include: (record: ReceiptRecord) => boolean
+): Promise<number> {
+    let migrated = 0;
+    let last: QueryDocumentSnapshot | undefined;
+
+    for (;;) {
+        let page = query.orderBy(FieldPath.documentId()).limit(MIGRATION_PAGE_SIZE);
+        if (last) {
+            page = page.startAfter(last);
+        }
+        const snapshot = await page.get();
+        if (snapshot.empty) {
+            break;
+        }
+
+        const batch = getFirestore().batch();
+        const previous: ReceiptRecord[] = [];
+        const updated: ReceiptRecord[] = [];
+        const timestamp = new Date().toISOString();
+        for (const doc of snapshot.docs) {
+            const record = doc.data() as ReceiptRecord;
+            const receiptData = include(record) ? renamedCategory(record, from, to) : null;
+            if (receiptData) {
+                // The timestamp moves like on any other change, so backfill results taken before go stale
+                batch.update(doc.ref, {
+                    "receiptData.category": receiptData.category,
+                    "receiptData.lineItems": receiptData.lineItems,
+                    timestamp
+                });
+                previous.push(record);
+                updated.push({ ...record, receiptData, timestamp });
+            }
+        }
+        if (updated.length > 0) {
+            // Move the receipts' amounts between category rollups in the same batch
+            rollupWrites(updated.map((record, index) => ({ before: previous[index], after: record })))
+                .forEach((write) => batch.set(write.ref, write.data, { merge: true }));
+            await batch.commit();
+            // Rewrite the exported receipts' Sheet rows, one batchUpdate per Sheet
+            await syncReceiptRows(updated.filter((record) => record.status === "exported"));
+        }
+
+        migrated += updated.length;
+        last = snapshot.docs[snapshot.docs.length - 1];
+        if (snapshot.size < MIGRATION_PAGE_SIZE) {
+            break;
+        }
+    }
+
+    return migrated;
+}
+
+/**
+ * Moves an organization's receipts (and their line items) from one category name
+ * to another, after a rename or merge. Spending rollups move with them, and rows
+ * of exported receipts are updated in their Sheets as each page is migrated.
+ *
+ * @returns The number of receipts updated
+ */
+export async function migrateReceiptCategory(orgId: string, from: string, to: string): Promise<number> {
+    if (from === to) {
+        return 0;
+    }
+    const receipts = getFirestore().collectionGroup("receipts");
+
+    let migrated = await migrateReceiptsInQuery(receipts.where("orgId", "==", orgId), from, to, () => true);
+
+    if (orgId === DEFAULT_ORG_ID) {
+        // Entries from before organizations were recorded belong to the default organization.
+        // Only their receipt-level category is indexed, so line items are migrated with it
+        migrated += await migrateReceiptsInQuery(
+            receipts.where("receiptData.category", "==", from), from, to, (record) => !record.orgId
+        );
+    }
+
+    console.log(`Migrated ${migrated} receipts of organization ${orgId} from "${from}" to "${to}"`);
+    return migrated;
+}
+
+/**
+ * Loads an organization's categories (seeding the defaults first) for an edit.
+ */
+async function loadCategoriesForEdit(orgId: string): Promise<CategoryDefinition[]> {
+    await seedDefaultCategories(orgId);
+    const snapshot = await categoriesCollection(orgId).get();
+    return snapshot.docs.map((doc) => doc.data() as CategoryDefinition);
+}
+
+/**
+ * Cloud Function: List Categories
+ *
+ * Returns the active taxonomy of the caller's organization (admins may pass
+ * { orgId }), parents followed by their subcategories. Admins may pass
+ * { includeInactive: true } to also see deleted and merged categories.
+ */
+export const listCategories = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const taxonomy = await loadTaxonomy(orgId);
+
+        let inactive: CategoryDefinition[] = [];
+        if (request.data?.includeInactive === true && await isAdmin(request)) {
+            const snapshot = await categoriesCollection(orgId).where("active", "==", false).get();
+            inactive = snapshot.docs.map((doc) => doc.data() as CategoryDefinition);
+        }
+
+        return {
+            orgId,
+            fallback: taxonomy.fallback,
+            categories: [...taxonomy.categories, ...inactive]
+        };
+    }
+);
+
+/**
+ * Cloud Function: Create Category (admin only)
+ *
+ * { orgId?, name, description?, glAccountCode?, parentId?, keywords?, isFallback?, sortOrder? }.
+ * Making a category the fallback takes that role from the current one.
+ */
+export const createCategory = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const input = parseCategoryInput(request.data);
+        if (!input.name) {
+            throw new HttpsError("invalid-argument", "name is required");
+        }
+
+        const definitions = await loadCategoriesForEdit(orgId);
+        const ref = categoriesCollection(orgId).doc();
+        const now = new Date().toISOString();
+        const category: CategoryDefinition = {
+            categoryId: ref.id,
+            name: input.name,
+            description: input.description ?? "",
+            glAccountCode: input.glAccountCode ?? null,
+            parentId: input.parentId ?? null,
+            keywords: input.keywords ?? [],
+            isFallback: input.isFallback ?? false,
+            active: true,
+            mergedInto: null,
+            sortOrder: input.sortOrder ?? Math.max(0, ...definitions.map((existing) => existing.sortOrder)) + 10,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        const previousFallback = category.isFallback
+            ? definitions.find((existing) => existing.active && existing.isFallback)
+            : undefined;
+        validateTaxonomy([
+            ...definitions.map((existing) => existing === previousFallback ? { ...existing, isFallback: false } : existing),
+            category
+        ]);
+
+        const batch = getFirestore().batch();
+        batch.create(ref, category);
+        if (previousFallback) {
+            batch.update(categoriesCollection(orgId).doc(previousFallback.categoryId), { isFallback: false, updatedAt: now });
+        }
+        await batch.commit();
+        invalidateTaxonomy(orgId);
+
+        console.log(`Category "${category.name}" (${category.categoryId}) created in ${orgId} by ${adminUid}`);
+        return { success: true, category };
+    }
+);
+
+/**
+ * Cloud Function: Update Category (admin only)
+ *
+ * { orgId?, categoryId, ...fields to change }. Renaming a category moves the
+ * organization's existing receipts and category rules to the new name.
+ */
+export const updateCategory = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 540, // A rename may migrate many receipts
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const categoryId = request.data?.categoryId;
+        if (typeof categoryId !== "string" || !categoryId) {
+            throw new HttpsError("invalid-argument", "categoryId is required");
+        }
+        const input = parseCategoryInput(request.data);
+
+        const definitions = await loadCategoriesForEdit(orgId);
+        const current = definitions.find((category) => category.categoryId === categoryId);
+        if (!current || !current.active) {
+            throw new HttpsError("not-found", `Category ${categoryId} not found`);
+        }
+        if (current.isFallback && input.isFallback === false) {
+            throw new HttpsError("failed-precondition", "Make another category the fallback instead");
+        }
+
+        const now = new Date().toISOString();
+        const updated: CategoryDefinition = { ...current, ...input, updatedAt: now };
+        const previousFallback = input.isFallback === true && !current.isFallback
+            ? definitions.find((category) => category.active && category.isFallback)
+            : undefined;
+        validateTaxonomy(definitions.map((category) => {
+            if (category === current) {
+                return updated;
+            }
+            return category === previousFallback ? { ...category, isFallback: false } : category;
+        }));
+
+        const batch = getFirestore().batch();
+        batch.set(categoriesCollection(orgId).doc(categoryId), updated);
+        if (previousFallback) {
+            batch.update(categoriesCollection(orgId).doc(previousFallback.categoryId), { isFallback: false, updatedAt: now });
+        }
+        await batch.commit();
+        invalidateTaxonomy(orgId);
+
+        const migratedReceipts = await migrateReceiptCategory(orgId, current.name, updated.name);
+        await migrateRuleCategory(orgId, current.name, updated.name);
+
+        console.log(`Category ${categoryId} in ${orgId} updated by ${adminUid}`);
+        return { success: true, category: updated, migratedReceipts };
+    }
+);
+
+/**
+ * Cloud Function: Delete Category (admin only)
+ *
+ * { orgId?, categoryId, mergeInto? }. The category is deactivated (kept for
+ * history) and its receipts and rules move to mergeInto, or to the fallback category if
+ * none is given. Its subcategories move up to its parent. The fallback category
+ * can only be removed by merging it into another, which becomes the fallback.
+ */
+export const deleteCategory = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 540, // May migrate many receipts
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const categoryId = request.data?.categoryId;
+        const mergeInto = request.data?.mergeInto;
+        if (typeof categoryId !== "string" || !categoryId) {
+            throw new HttpsError("invalid-argument", "categoryId is required");
+        }
+        if (mergeInto !== undefined && (typeof mergeInto !== "string" || !mergeInto)) {
+            throw new HttpsError("invalid-argument", "mergeInto must be a category ID");
+        }
+        if (mergeInto === categoryId) {
+            throw new HttpsError("invalid-argument", "A category cannot be merged into itself");
+        }
+
+        const definitions = await loadCategoriesForEdit(orgId);
+        const current = definitions.find((category) => category.categoryId === categoryId);
+        if (!current || !current.active) {
+            throw new HttpsError("not-found", `Category ${categoryId} not found`);
+        }
+
+        let target: CategoryDefinition | undefined;
+        if (mergeInto) {
+            target = definitions.find((category) => category.categoryId === mergeInto && category.active);
+            if (!target) {
+                throw new HttpsError("not-found", `Category ${mergeInto} not found`);
+            }
+        } else if (current.isFallback) {
+            throw new HttpsError("failed-precondition", "The fallback category can only be deleted by merging it into another (mergeInto)");
+        } else {
+            target = definitions.find((category) => category.active && category.isFallback);
+            if (!target) {
+                throw new HttpsError("failed-precondition", `Organization ${orgId} has no fallback category`);
+            }
+        }
+        const targetCategory = target;
+
+        const now = new Date().toISOString();
+        const deleted: CategoryDefinition = {
+            ...current,
+            active: false,
+            isFallback: false,
+            mergedInto: mergeInto ?? null,
+            updatedAt: now
+        };
+        const next = definitions.map((category) => {
+            if (category === current) {
+                return deleted;
+            }
+            if (category.active && category.parentId === categoryId) {
+                return { ...category, parentId: current.parentId, updatedAt: now };
+            }
+            return category;
+        }).map((category) =>
+            current.isFallback && category.categoryId === targetCategory.categoryId
+                ? { ...category, isFallback: true, updatedAt: now }
+                : category
+        );
+        validateTaxonomy(next);
+
+        const batch = getFirestore().batch();
+        next.forEach((category, index) => {
+            if (category !== definitions[index]) {
+                batch.set(categoriesCollection(orgId).doc(category.categoryId), category);
+            }
+        });
+        await batch.commit();
+        invalidateTaxonomy(orgId);
+
+        const targetName = targetCategory.name;
+        const migratedReceipts = await migrateReceiptCategory(orgId, current.name, targetName);
+        await migrateRuleCategory(orgId, current.name, targetName);
+
+        console.log(`Category "${current.name}" (${categoryId}) in ${orgId} deleted by ${adminUid}, receipts moved to "${targetName}"`);
+        return { success: true, categoryId, movedTo: targetName, migratedReceipts };
+    }
+);
@@ -0,0 +1,492 @@
+// functions/src/categoryRules.ts
+
+import { createHash } from "crypto";
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { ReceiptData, ReviewFlag } from "./schema";
+import { Taxonomy, loadTaxonomy } from "./taxonomy";
+import { canonicalVendorName, loadVendorAliases, recordVendorCorrection, vendorKey } from "./vendors";
+import { organizationDoc, resolveTargetOrg } from "./organizations";
+import { isAdmin, requireAuth } from "./access";
+
+/**
+ * Category corrections of the same vendor needed before a rule is proposed (and vendor
+ * name corrections of the same spelling before an alias is proposed).
+ * Override with RULE_PROPOSAL_MIN_CORRECTIONS.
+ */
+const DEFAULT_RULE_PROPOSAL_MIN_CORRECTIONS = 3;
+
+const MAX_PATTERN_LENGTH = 200;
+
+const MATCH_TYPES: RuleMatchType[] = ["exact", "contains", "regex"];
+const STATUSES: RuleStatus[] = ["active", "proposed", "dismissed"];
+
+/**
+ * How a rule's pattern is compared with the vendor name.
+ * "exact" and "contains" compare vendor keys (see vendorKey), "contains" on whole words;
+ * "regex" tests the vendor name case-insensitively.
+ */
+export type RuleMatchType = "exact" | "contains" | "regex";
+
+/**
+ * active: applied after extraction; proposed: learned from corrections, waiting to
+ * be accepted; dismissed: a rejected proposal, never proposed again.
+ */
+export type RuleStatus = "active" | "proposed" | "dismissed";
+
+/**
+ * "Vendor matches X -> category Y". Stored at organizations/{orgId}/categoryRules/{ruleId}.
+ */
+export interface CategoryRule {
+    ruleId: string;
+    userId: string | null; // Owner of a personal rule; null for a rule of the whole organization
+    matchType: RuleMatchType;
+    pattern: string;
+    category: string; // Category name in the organization's taxonomy
+    priority: number; // Higher wins; personal rules always win over organization rules
+    status: RuleStatus;
+    source: "manual" | "learned";
+    evidenceCount: number; // Corrections a learned rule was proposed from, 0 for manual rules
+    createdBy: string | null; // null for learned rules
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A category a user changed on a receipt. Stored at organizations/{orgId}/corrections/{id}.
+ */
+export interface CategoryCorrection {
+    userId: string;
+    receiptId: string;
+    vendorName: string; // Vendor name after the edit
+    vendorKey: string;
+    from: string;
+    to: string;
+    createdAt: string;
+}
+
+/**
+ * Vendor aliases and the active category rules that apply to one user's receipts.
+ */
+export interface VendorRuleSet {
+    aliases: Map<string, string>; // Vendor key -> canonical name
+    rules: CategoryRule[]; // In precedence order
+}
+
+export function getRuleProposalMinCorrections(): number {
+    const minimum = parseInt(process.env.RULE_PROPOSAL_MIN_CORRECTIONS || "", 10);
+    return isNaN(minimum) || minimum < 1 ? DEFAULT_RULE_PROPOSAL_MIN_CORRECTIONS : minimum;
+}
+
+/**
+ * Returns a reference to an organization's category rule collection.
+ */
+export function categoryRulesCollection(orgId: string) {
+    return organizationDoc(orgId).collection("categoryRules");
+}
+
+/**
+ * Returns a reference to an organization's category correction log.
+ */
+export function correctionsCollection(orgId: string) {
+    return organizationDoc(orgId).collection("corrections");
+}
+
+const MATCH_TYPE_ORDER: Record<RuleMatchType, number> = { exact: 0, contains: 1, regex: 2 };
+
+/**
+ * Precedence: personal rules, then higher priority, then the more specific match
+ * (exact before contains before regex, longer patterns first).
+ */
+function compareRules(a: CategoryRule, b: CategoryRule): number {
+    return Number(a.userId === null) - Number(b.userId === null)
+        || b.priority - a.priority
+        || MATCH_TYPE_ORDER[a.matchType] - MATCH_TYPE_ORDER[b.matchType]
+        || b.pattern.length - a.pattern.length
+        || a.ruleId.localeCompare(b.ruleId);
+}
+
+/**
+ * Loads the vendor aliases and active category rules (the organization's and the
+ * user's own) that apply to a user's receipts.
+ */
+export async function loadVendorRules(orgId: string, userId: string): Promise<VendorRuleSet> {
+    const [aliases, snapshot] = await Promise.all([
+        loadVendorAliases(orgId),
+        categoryRulesCollection(orgId).where("status", "==", "active").get()
+    ]);
+
+    const rules = snapshot.docs
+        .map((doc) => doc.data() as CategoryRule)
+        .filter((rule) => rule.userId === null || rule.userId === userId)
+        .sort(compareRules);
+
+    return { aliases, rules };
+}
+
+function ruleMatches(rule: CategoryRule, vendorName: string): boolean {
+    switch (rule.matchType) {
+        case "exact":
+            return vendorKey(vendorName) === rule.pattern;
+        case "contains":
+            return ` ${vendorKey(vendorName)} `.includes(` ${rule.pattern} `);
+        case "regex":
+            try {
+                return new RegExp(rule.pattern, "i").test(vendorName);
+            } catch {
+                return false; // Validated on save; never let a bad pattern fail extraction
+            }
+    }
+}
+
+/**
+ * Returns the first rule (in precedence order) that matches a vendor name, or null.
+ */
+export function matchRule(vendorName: string, rules: CategoryRule[]): CategoryRule | null {
+    return rules.find((rule) => ruleMatches(rule, vendorName)) ?? null;
+}
+
+/**
+ * Applies vendor aliases and category rules to an extracted receipt: the vendor name
+ * becomes its canonical name, and a matching rule overrides the model's category
+ * (and that of line items that had the same category). Rules naming a category that
+ * is no longer in the taxonomy are skipped.
+ */
+export function applyVendorRules(receipt: ReceiptData, ruleSet: VendorRuleSet, taxonomy: Taxonomy): ReceiptData {
+    const vendorName = canonicalVendorName(receipt.vendorName, ruleSet.aliases);
+    const rule = matchRule(vendorName, ruleSet.rules)
+        ?? (vendorName !== receipt.vendorName ? matchRule(receipt.vendorName, ruleSet.rules) : null);
+
+    let category: string | null = null;
+    if (rule) {
+        if (taxonomy.categories.some((candidate) => candidate.name === rule.category)) {
+            category = rule.category;
+        } else {
+            console.warn(`Category rule ${rule.ruleId} maps to "${rule.category}", which is not an active category; ignoring it`);
+        }
+    }
+
+    const recategorized = category !== null && category !== receipt.category;
+    if (vendorName === receipt.vendorName && !recategorized) {
+        return receipt;
+    }
+
+    let reviewFlags: ReviewFlag[] = receipt.reviewFlags;
+    let lineItems = receipt.lineItems;
+    if (recategorized) {
+        // The rule settles the category the model could not match
+        reviewFlags = reviewFlags.filter((flag) => !(flag.field === "category" && flag.reason === "category_fallback"));
+        lineItems = lineItems.map((item) => item.category === receipt.category ? { ...item, category: category! } : item);
+    }
+
+    return {
+        ...receipt,
+        vendorName,
+        category: recategorized ? category! : receipt.category,
+        lineItems,
+        reviewFlags,
+        vendorRule: {
+            ruleId: recategorized ? rule!.ruleId : null,
+            extractedVendorName: receipt.vendorName,
+            extractedCategory: receipt.category
+        }
+    };
+}
+
+/**
+ * ID of the rule proposed for a vendor and category, so repeated corrections
+ * update one proposal instead of creating new ones.
+ */
+function proposalIdFor(userId: string | null, key: string, category: string): string {
+    const digest = createHash("sha256").update(`${userId ?? ""}\n${key}\n${category}`).digest("hex");
+    return `learned-${digest.substring(0, 20)}`;
+}
+
+/**
+ * Proposes a rule once a vendor has been corrected to the same category often
+ * enough: a personal rule if one user made all the corrections, an organization
+ * rule otherwise. Proposals that were accepted or dismissed are left alone.
+ */
+async function proposeRuleFromCorrections(orgId: string, userId: string, key: string, category: string): Promise<void> {
+    const minimum = getRuleProposalMinCorrections();
+    const snapshot = await correctionsCollection(orgId)
+        .where("vendorKey", "==", key)
+        .where("to", "==", category)
+        .limit(100)
+        .get();
+    if (snapshot.size < minimum) {
+        return;
+    }
+
+    // Nothing to learn if the rules already give this category
+    const current = await loadVendorRules(orgId, userId);
+    if (matchRule(key, current.rules)?.category === category) {
+        return;
+    }
+
+    const users = new Set(snapshot.docs.map((doc) => (doc.data() as CategoryCorrection).userId));
+    const owner = users.size === 1 ? userId : null;
+    const ref = categoryRulesCollection(orgId).doc(proposalIdFor(owner, key, category));
+
+    await getFirestore().runTransaction(async (transaction) => {
+        const existing = await transaction.get(ref);
+        const rule = existing.data() as CategoryRule | undefined;
+        if (rule && rule.status !== "proposed") {
+            return;
+        }
+
+        const now = new Date().toISOString();
+        transaction.set(ref, {
+            ruleId: ref.id,
+            userId: owner,
+            matchType: "exact",
+            pattern: key,
+            category,
+            priority: 0,
+            status: "proposed",
+            source: "learned",
+            evidenceCount: snapshot.size,
+            createdBy: null,
+            createdAt: rule?.createdAt ?? now,
+            updatedAt: now
+        } as CategoryRule);
+    });
+    console.log(`Proposed rule ${ref.id}: "${key}" -> "${category}" (${snapshot.size} corrections) in ${orgId}`);
+}
+
+/**
+ * Learns from a reviewer's edits: a corrected vendor spelling or category is logged
+ * and may lead to a proposed alias or rule. Never fails the edit; problems are only logged.
+ */
+export async function recordCorrections(
+    orgId: string,
+    userId: string,
+    receiptId: string,
+    before: ReceiptData,
+    after: ReceiptData
+): Promise<void> {
+    try {
+        if (after.vendorName !== before.vendorName) {
+            await recordVendorCorrection(orgId, userId, receiptId, before.vendorName, after.vendorName,
+                getRuleProposalMinCorrections());
+        }
+
+        const key = vendorKey(after.vendorName);
+        if (after.category !== before.category && key) {
+            const correction: CategoryCorrection = {
+                userId,
+                receiptId,
+                vendorName: after.vendorName,
+                vendorKey: key,
+                from: before.category,
+                to: after.category,
+                createdAt: new Date().toISOString()
+            };
+            await correctionsCollection(orgId).add(correction);
+            await proposeRuleFromCorrections(orgId, userId, key, after.category);
+        }
+    } catch (error) {
+        console.warn(`Failed to learn from corrections to receipt ${receiptId}:`, error);
+    }
+}
+
+/**
+ * Points an organization's rules at a renamed or merged category.
+ *
+ * @returns The number of rules updated
+ */
+export async function migrateRuleCategory(orgId: string, from: string, to: string): Promise<number> {
+    if (from === to) {
+        return 0;
+    }
+    const snapshot = await categoryRulesCollection(orgId).where("category", "==", from).get();
+    if (snapshot.empty) {
+        return 0;
+    }
+
+    const now = new Date().toISOString();
+    const batch = getFirestore().batch();
+    snapshot.docs.forEach((doc) => batch.update(doc.ref, { category: to, updatedAt: now }));
+    await batch.commit();
+    return snapshot.size;
+}
+
+/**
+ * Loads a rule the caller may change: their own personal rules, or (admins) any
+ * rule of the organization.
+ *
+ * @throws HttpsError("not-found") if the rule doesn't exist or isn't the caller's
+ */
+async function getEditableRule(request: CallableRequest, orgId: string, ruleId: unknown): Promise<CategoryRule> {
+    const callerUid = requireAuth(request);
+    if (typeof ruleId !== "string" || !ruleId) {
+        throw new HttpsError("invalid-argument", "ruleId is required");
+    }
+    const snapshot = await categoryRulesCollection(orgId).doc(ruleId).get();
+    const rule = snapshot.data() as CategoryRule | undefined;
+    if (!rule || (rule.userId !== callerUid && !await isAdmin(request))) {
+        throw new HttpsError("not-found", `Rule ${ruleId} not found`);
+    }
+    return rule;
+}
+
+/**
+ * Cloud Function: List Category Rules
+ *
+ * Returns the organization's rules and the caller's personal rules (admins see
+ * every user's): { orgId?, status?: "active" | "proposed" | "dismissed" }.
+ */
+export const listCategoryRules = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const status = request.data?.status;
+        if (status !== undefined && !STATUSES.includes(status)) {
+            throw new HttpsError("invalid-argument", `status must be one of: ${STATUSES.join(", ")}`);
+        }
+
+        const query = status ? categoryRulesCollection(orgId).where("status", "==", status) : categoryRulesCollection(orgId);
+        const [snapshot, admin] = await Promise.all([query.get(), isAdmin(request)]);
+        const rules = snapshot.docs
+            .map((doc) => doc.data() as CategoryRule)
+            .filter((rule) => rule.userId === null || rule.userId === callerUid || admin)
+            .sort(compareRules);
+
+        return { orgId, rules };
+    }
+);
+
+/**
+ * Cloud Function: Save Category Rule
+ *
+ * Creates or updates a rule: { orgId?, ruleId?, scope: "personal" | "organization",
+ * matchType: "exact" | "contains" | "regex", pattern, category, priority? }.
+ * Anyone may keep personal rules; organization rules are admin only.
+ */
+export const saveCategoryRule = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const { ruleId, scope, matchType, pattern, category } = request.data ?? {};
+        const priority = request.data?.priority ?? 0;
+
+        if (scope !== "personal" && scope !== "organization") {
+            throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+        }
+        if (scope === "organization" && !await isAdmin(request)) {
+            throw new HttpsError("permission-denied", "Only admins can save organization rules");
+        }
+        if (!MATCH_TYPES.includes(matchType)) {
+            throw new HttpsError("invalid-argument", `matchType must be one of: ${MATCH_TYPES.join(", ")}`);
+        }
+        if (typeof pattern !== "string" || !pattern.trim() || pattern.length > MAX_PATTERN_LENGTH) {
+            throw new HttpsError("invalid-argument", `pattern must be a non-empty string of at most ${MAX_PATTERN_LENGTH} characters`);
+        }
+        if (typeof priority !== "number" || !isFinite(priority)) {
+            throw new HttpsError("invalid-argument", "priority must be a number");
+        }
+
+        let normalizedPattern = pattern.trim();
+        if (matchType === "regex") {
+            try {
+                new RegExp(normalizedPattern, "i");
+            } catch (error) {
+                throw new HttpsError("invalid-argument", `pattern is not a valid regular expression: ${(error as Error).message}`);
+            }
+        } else {
+            normalizedPattern = vendorKey(normalizedPattern);
+            if (!normalizedPattern) {
+                throw new HttpsError("invalid-argument", "pattern must contain letters or digits");
+            }
+        }
+
+        const taxonomy = await loadTaxonomy(orgId);
+        if (!taxonomy.categories.some((candidate) => candidate.name === category)) {
+            throw new HttpsError("invalid-argument", `category must be one of: ${taxonomy.categories.map((candidate) => candidate.name).join(", ")}`);
+        }
+
+        const existing = ruleId !== undefined ? await getEditableRule(request, orgId, ruleId) : undefined;
+        const ref = existing ? categoryRulesCollection(orgId).doc(existing.ruleId) : categoryRulesCollection(orgId).doc();
+        const now = new Date().toISOString();
+        const rule: CategoryRule = {
+            ruleId: ref.id,
+            userId: scope === "organization" ? null : existing?.userId ?? callerUid,
+            matchType,
+            pattern: normalizedPattern,
+            category,
+            priority,
+            status: existing?.status === "dismissed" ? "dismissed" : "active",
+            source: existing?.source ?? "manual",
+            evidenceCount: existing?.evidenceCount ?? 0,
+            createdBy: existing ? existing.createdBy : callerUid,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+        await ref.set(rule);
+
+        console.log(`Category rule ${rule.ruleId} saved in ${orgId} by ${callerUid}`);
+        return { success: true, rule };
+    }
+);
+
+/**
+ * Cloud Function: Delete Category Rule
+ *
+ * { orgId?, ruleId }. Users may delete their personal rules; admins any rule.
+ */
+export const deleteCategoryRule = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const rule = await getEditableRule(request, orgId, request.data?.ruleId);
+
+        await categoryRulesCollection(orgId).doc(rule.ruleId).delete();
+
+        console.log(`Category rule ${rule.ruleId} deleted from ${orgId} by ${callerUid}`);
+        return { success: true, ruleId: rule.ruleId };
+    }
+);
+
+/**
+ * Cloud Function: Resolve Rule Proposal
+ *
+ * Accepts (activates) or dismisses a rule learned from corrections:
+ * { orgId?, ruleId, action: "accept" | "dismiss" }. Users resolve proposals for their
+ * personal rules; organization-wide proposals need an admin.
+ */
+export const resolveRuleProposal = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const action = request.data?.action;
+        if (action !== "accept" && action !== "dismiss") {
+            throw new HttpsError("invalid-argument", "action must be \"accept\" or \"dismiss\"");
+        }
+
+        const rule = await getEditableRule(request, orgId, request.data?.ruleId);
+        if (rule.status !== "proposed") {
+            throw new HttpsError("failed-precondition", `Rule ${rule.ruleId} is not a proposal (status: ${rule.status})`);
+        }
+
+        const status: RuleStatus = action === "accept" ? "active" : "dismissed";
+        await categoryRulesCollection(orgId).doc(rule.ruleId).update({
+            status,
+            updatedAt: new Date().toISOString()
+        });
+
+        console.log(`Rule proposal ${rule.ruleId} in ${orgId} ${action === "accept" ? "accepted" : "dismissed"} by ${callerUid}`);
+        return { success: true, ruleId: rule.ruleId, status };
+    }
+);
@@ -0,0 +1,359 @@
+// functions/src/currency.ts
+
+import { readFileSync } from "fs";
+import * as path from "path";
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { BaseCurrencyAmount, ReceiptData, ReviewFlag } from "./schema";
+import { organizationDoc, resolveTargetOrg } from "./organizations";
+import { requireAdmin } from "./access";
+
+/**
+ * How long exchange rates uploaded to Firestore are cached per function instance.
+ */
+const RATES_CACHE_MS = 10 * 60 * 1000;
+
+/**
+ * Most rows accepted in one uploaded rates CSV.
+ */
+const MAX_UPLOAD_ROWS = 20000;
+
+const CURRENCY = /^[A-Z]{3}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Rates by currency pair ("EUR/USD": 1 EUR in USD), each sorted by date.
+ */
+export type RateTable = Map<string, { date: string; rate: number }[]>;
+
+/**
+ * What converting a receipt needs: its organization's base currency and the rates.
+ */
+export interface CurrencyContext {
+    baseCurrency: string;
+    rates: RateTable;
+}
+
+/**
+ * Base currency of organizations that haven't set one (BASE_CURRENCY, default USD).
+ */
+export function getDefaultBaseCurrency(): string {
+    const configured = process.env.BASE_CURRENCY?.trim().toUpperCase();
+    return configured && CURRENCY.test(configured) ? configured : "USD";
+}
+
+/**
+ * How many days old a rate may be for a transaction date (EXCHANGE_RATE_MAX_AGE_DAYS,
+ * default 7), so weekends and holidays use the last published rate.
+ */
+function getMaxRateAgeDays(): number {
+    const value = Number(process.env.EXCHANGE_RATE_MAX_AGE_DAYS);
+    return Number.isInteger(value) && value >= 0 ? value : 7;
+}
+
+/**
+ * Returns an organization's base currency (organizations/{orgId}.baseCurrency).
+ */
+export async function getBaseCurrency(orgId: string): Promise<string> {
+    const snapshot = await organizationDoc(orgId).get();
+    const baseCurrency = snapshot.get("baseCurrency");
+    return typeof baseCurrency === "string" && CURRENCY.test(baseCurrency) ? baseCurrency : getDefaultBaseCurrency();
+}
+
+function pairKey(from: string, to: string): string {
+    return `${from}/${to}`;
+}
+
+function addRate(table: RateTable, from: string, to: string, date: string, rate: number): void {
+    const key = pairKey(from, to);
+    const rates = table.get(key) ?? [];
+    const existing = rates.findIndex((entry) => entry.date === date);
+    if (existing !== -1) {
+        rates[existing] = { date, rate };
+    } else {
+        rates.push({ date, rate });
+    }
+    table.set(key, rates);
+}
+
+function sortRates(table: RateTable): RateTable {
+    table.forEach((rates) => rates.sort((a, b) => a.date.localeCompare(b.date)));
+    return table;
+}
+
+/**
+ * Parses a rates CSV: a "date,from,to,rate" header, then one row per rate
+ * (1 unit of from = rate units of to on that date). Blank lines and lines
+ * starting with # are skipped.
+ *
+ * @throws Error listing the first invalid rows
+ */
+export function parseRatesCsv(csv: string): { date: string; from: string; to: string; rate: number }[] {
+    const lines = csv.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+    const header = lines.shift()?.toLowerCase().replace(/\s/g, "");
+    if (header !== "date,from,to,rate") {
+        throw new Error("The first line must be the header: date,from,to,rate");
+    }
+
+    const errors: string[] = [];
+    const rows = lines.map((line, index) => {
+        const [date, from, to, rate] = line.split(",").map((cell) => cell.trim());
+        const value = Number(rate);
+        if (!ISO_DATE.test(date) || !CURRENCY.test(from?.toUpperCase()) || !CURRENCY.test(to?.toUpperCase()) ||
+            from.toUpperCase() === to.toUpperCase() || !Number.isFinite(value) || value <= 0) {
+            errors.push(`row ${index + 2}: "${line}"`);
+        }
+        return { date, from: from?.toUpperCase(), to: to?.toUpperCase(), rate: value };
+    });
+    if (errors.length > 0) {
+        throw new Error(`Invalid rates (expected YYYY-MM-DD,ISO code,ISO code,positive number): ${errors.slice(0, 5).join("; ")}`);
+    }
+    return rows;
+}
+
+let localRates: RateTable | null = null;
+
+/**
+ * Rates bundled with the functions (data/exchange-rates.csv, or EXCHANGE_RATES_FILE),
+ * read once per instance. Missing file means no bundled rates.
+ */
+function loadLocalRates(): RateTable {
+    if (localRates) {
+        return localRates;
+    }
+    const file = process.env.EXCHANGE_RATES_FILE || path.join(__dirname, "..", "data", "exchange-rates.csv");
+    const table: RateTable = new Map();
+    try {
+        for (const row of parseRatesCsv(readFileSync(file, "utf8"))) {
+            addRate(table, row.from, row.to, row.date, row.rate);
+        }
+        console.log(`Loaded ${[...table.values()].reduce((sum, rates) => sum + rates.length, 0)} exchange rates from ${file}`);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.error(`Could not load exchange rates from ${file}:`, error);
+        }
+    }
+    localRates = sortRates(table);
+    return localRates;
+}
+
+/**
+ * Uploaded rates, one document per currency pair: exchangeRates/{FROM_TO}
+ * with rates: { "YYYY-MM-DD": rate }.
+ */
+function exchangeRatesCollection() {
+    return getFirestore().collection("exchangeRates");
+}
+
+let ratesCache: { table: RateTable; loadedAt: number } | null = null;
+
+/**
+ * The bundled rates with uploaded rates on top (an uploaded rate replaces a bundled
+ * one for the same pair and date). Cached per instance for RATES_CACHE_MS.
+ */
+export async function loadRateTable(): Promise<RateTable> {
+    if (ratesCache && Date.now() - ratesCache.loadedAt < RATES_CACHE_MS) {
+        return ratesCache.table;
+    }
+
+    const table: RateTable = new Map();
+    loadLocalRates().forEach((rates, key) => table.set(key, rates.map((entry) => ({ ...entry }))));
+
+    const snapshot = await exchangeRatesCollection().get();
+    for (const doc of snapshot.docs) {
+        const { from, to, rates } = doc.data() as { from: string; to: string; rates: Record<string, number> };
+        for (const [date, rate] of Object.entries(rates || {})) {
+            addRate(table, from, to, date, rate);
+        }
+    }
+
+    if (table.size === 0) {
+        console.warn("No exchange rates are bundled or uploaded; receipts in other currencies can't be converted " +
+            "(add rates with uploadExchangeRates)");
+    }
+    ratesCache = { table: sortRates(table), loadedAt: Date.now() };
+    return ratesCache.table;
+}
+
+/**
+ * The latest rate of a pair on or before a date, within the allowed age.
+ */
+function rateOn(table: RateTable, from: string, to: string, date: string): { rate: number; date: string } | null {
+    const rates = table.get(pairKey(from, to));
+    if (!rates) {
+        return null;
+    }
+    const earliest = new Date(Date.parse(`${date}T00:00:00Z`) - getMaxRateAgeDays() * 86400000).toISOString().slice(0, 10);
+    for (let i = rates.length - 1; i >= 0; i--) {
+        if (rates[i].date <= date) {
+            return rates[i].date >= earliest ? rates[i] : null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Finds how many units of `to` one unit of `from` was worth on a date: a direct
+ * rate, the inverse of the opposite pair, or a cross rate through a third currency
+ * (e.g. GBP -> EUR -> USD when rates are all quoted against EUR).
+ *
+ * @returns The rate and the (oldest) date it is based on, or null if none is known
+ */
+export function findRate(table: RateTable, from: string, to: string, date: string): { rate: number; date: string } | null {
+    const direct = (a: string, b: string) => {
+        const rate = rateOn(table, a, b, date);
+        if (rate) {
+            return rate;
+        }
+        const inverse = rateOn(table, b, a, date);
+        return inverse ? { rate: 1 / inverse.rate, date: inverse.date } : null;
+    };
+
+    const rate = direct(from, to);
+    if (rate) {
+        return rate;
+    }
+
+    const currencies = new Set([...table.keys()].flatMap((key) => key.split("/")));
+    for (const via of currencies) {
+        if (via === from || via === to) {
+            continue;
+        }
+        const first = direct(from, via);
+        const second = first && direct(via, to);
+        if (first && second) {
+            return { rate: first.rate * second.rate, date: first.date < second.date ? first.date : second.date };
+        }
+    }
+    return null;
+}
+
+/**
+ * Loads what converting an organization's receipts needs.
+ */
+export async function loadCurrencyContext(orgId: string): Promise<CurrencyContext> {
+    const [baseCurrency, rates] = await Promise.all([getBaseCurrency(orgId), loadRateTable()]);
+    return { baseCurrency, rates };
+}
+
+/**
+ * Converts a receipt's total to the base currency and records it as baseAmount.
+ * A receipt without a currency is taken to be in the base currency. If no rate is
+ * known, baseAmount is null and the receipt is flagged for review. Safe to call
+ * again after the currency, date or total changed.
+ */
+export function convertReceipt(receipt: ReceiptData, context: CurrencyContext): ReceiptData {
+    const reviewFlags: ReviewFlag[] = receipt.reviewFlags.filter((flag) => flag.reason !== "missing_exchange_rate");
+    const { baseCurrency } = context;
+    let baseAmount: BaseCurrencyAmount | null;
+
+    if (!receipt.currency || receipt.currency === baseCurrency) {
+        baseAmount = {
+            currency: baseCurrency,
+            amount: receipt.totalAmount,
+            rate: 1,
+            rateDate: null,
+            source: receipt.currency ? "same_currency" : "assumed_base"
+        };
+    } else {
+        const rate = findRate(context.rates, receipt.currency, baseCurrency, receipt.transactionDate);
+        if (rate) {
+            baseAmount = {
+                currency: baseCurrency,
+                amount: Math.round(receipt.totalAmount * rate.rate * 100) / 100,
+                rate: rate.rate,
+                rateDate: rate.date,
+                source: "rate_table"
+            };
+        } else {
+            baseAmount = null;
+            reviewFlags.push({
+                field: "currency",
+                reason: "missing_exchange_rate",
+                message: `No ${receipt.currency}/${baseCurrency} exchange rate for ${receipt.transactionDate}`
+            });
+        }
+    }
+
+    return {
+        ...receipt,
+        baseAmount,
+        reviewFlags,
+        needsReview: receipt.needsReview || baseAmount === null
+    };
+}
+
+/**
+ * Cloud Function: Set Base Currency (admin only)
+ *
+ * Sets the currency an organization's totals, rollups and budgets are kept in:
+ * { currency, orgId? }. Receipts already processed keep the conversion they got;
+ * set it before receipts come in (or rebuild afterwards).
+ */
+export const setBaseCurrency = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const currency = typeof request.data?.currency === "string" ? request.data.currency.trim().toUpperCase() : "";
+        if (!CURRENCY.test(currency)) {
+            throw new HttpsError("invalid-argument", "currency must be an ISO 4217 code, e.g. USD");
+        }
+
+        await organizationDoc(orgId).set({ baseCurrency: currency }, { merge: true });
+        console.log(`Base currency of ${orgId} set to ${currency} by ${adminUid}`);
+        return { success: true, orgId, baseCurrency: currency };
+    }
+);
+
+/**
+ * Cloud Function: Upload Exchange Rates (admin only)
+ *
+ * Adds rates from a CSV ({ csv }) with the header date,from,to,rate, where one unit
+ * of from is worth rate units of to. Existing rates for the same pair and date are replaced.
+ */
+export const uploadExchangeRates = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const csv = request.data?.csv;
+        if (typeof csv !== "string" || !csv.trim()) {
+            throw new HttpsError("invalid-argument", "csv is required");
+        }
+
+        let rows;
+        try {
+            rows = parseRatesCsv(csv);
+        } catch (error) {
+            throw new HttpsError("invalid-argument", (error as Error).message);
+        }
+        if (rows.length === 0 || rows.length > MAX_UPLOAD_ROWS) {
+            throw new HttpsError("invalid-argument", `The CSV must hold 1 to ${MAX_UPLOAD_ROWS} rates`);
+        }
+
+        const byPair = new Map<string, { from: string; to: string; rates: Record<string, number> }>();
+        for (const row of rows) {
+            const id = `${row.from}_${row.to}`;
+            const pair = byPair.get(id) ?? { from: row.from, to: row.to, rates: {} };
+            pair.rates[row.date] = row.rate;
+            byPair.set(id, pair);
+        }
+
+        const batch = getFirestore().batch();
+        const now = new Date().toISOString();
+        byPair.forEach((pair, id) => batch.set(exchangeRatesCollection().doc(id), {
+            ...pair,
+            updatedBy: adminUid,
+            updatedAt: now
+        }, { merge: true }));
+        await batch.commit();
+        ratesCache = null;
+
+        console.log(`${rows.length} exchange rates for ${byPair.size} currency pairs uploaded by ${adminUid}`);
+        return { success: true, rates: rows.length, pairs: [...byPair.values()].map((pair) => pairKey(pair.from, pair.to)) };
+    }
+);
@@ -0,0 +1,166 @@
+// functions/src/deadLetters.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { AttemptFailure, RetryExhaustedError, isRetryableError } from "./retry";
+
+/**
+ * Which step of the pipeline a dead-lettered job failed in.
+ * - extraction: the receipt could not be extracted (ledger status "error")
+ * - sheets_export: the receipt was exported to stats but its Sheet row was never written
+ */
+export type DeadLetterStage = "extraction" | "sheets_export";
+
+/**
+ * - open: waiting for an admin to re-drive it
+ * - redriving: claimed by a re-drive in progress
+ * - resolved: a re-drive succeeded
+ */
+export type DeadLetterStatus = "open" | "redriving" | "resolved";
+
+/**
+ * How long a "redriving" claim is honored before the job can be re-driven again.
+ */
+export const REDRIVE_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Oldest entries are dropped from a job's error history beyond this many attempts.
+ */
+const MAX_ERROR_HISTORY = 50;
+
+/**
+ * A failed job that ran out of automatic retries.
+ * Stored at deadLetters/{deadLetterId}, one document per receipt and stage.
+ */
+export interface DeadLetterRecord {
+    deadLetterId: string;
+    stage: DeadLetterStage;
+    userId: string;
+    receiptId: string;
+    storagePath: string | null;
+    status: DeadLetterStatus;
+    retryable: boolean; // Whether the last failure was transient (quota, 5xx, network)
+    lastError: string;
+    errors: AttemptFailure[]; // Every failed attempt, across automatic retries and re-drives
+    failureCount: number;
+    redriveCount: number;
+    redriveStartedAt: string | null;
+    lastRedrivenBy: string | null; // UID of the admin who last re-drove it
+    createdAt: string;
+    lastFailedAt: string;
+    resolvedAt: string | null;
+}
+
+export function deadLettersCollection() {
+    return getFirestore().collection("deadLetters");
+}
+
+export function deadLetterIdFor(userId: string, receiptId: string, stage: DeadLetterStage): string {
+    return `${userId}_${receiptId}_${stage}`;
+}
+
+/**
+ * Turns an error into the attempts to append to the error history.
+ * RetryExhaustedError carries one entry per automatic retry.
+ */
+function failuresFromError(error: unknown): AttemptFailure[] {
+    if (error instanceof RetryExhaustedError) {
+        return error.failures;
+    }
+    return [{
+        attempt: 1,
+        message: (error as Error)?.message || String(error),
+        retryable: isRetryableError(error),
+        at: new Date().toISOString()
+    }];
+}
+
+/**
+ * Records a failed job in the dead-letter store, or appends to the error
+ * history of the existing entry for the same receipt and stage (reopening it).
+ */
+export async function recordDeadLetter(
+    stage: DeadLetterStage,
+    userId: string,
+    receiptId: string,
+    storagePath: string | null,
+    error: unknown
+): Promise<void> {
+    const db = getFirestore();
+    const deadLetterId = deadLetterIdFor(userId, receiptId, stage);
+    const ref = deadLettersCollection().doc(deadLetterId);
+    const failures = failuresFromError(error);
+    const lastFailure = failures[failures.length - 1];
+    const now = new Date().toISOString();
+
+    await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const existing = snapshot.data() as DeadLetterRecord | undefined;
+
+        const record: DeadLetterRecord = {
+            deadLetterId,
+            stage,
+            userId,
+            receiptId,
+            storagePath,
+            status: "open",
+            retryable: lastFailure.retryable,
+            lastError: lastFailure.message,
+            errors: [...(existing?.errors || []), ...failures].slice(-MAX_ERROR_HISTORY),
+            failureCount: (existing?.failureCount || 0) + 1,
+            redriveCount: existing?.redriveCount || 0,
+            redriveStartedAt: null,
+            lastRedrivenBy: existing?.lastRedrivenBy || null,
+            createdAt: existing?.createdAt || now,
+            lastFailedAt: now,
+            resolvedAt: null
+        };
+        transaction.set(ref, record);
+    });
+
+    console.warn(`Dead-lettered ${stage} of receipt ${receiptId} for user ${userId}: ${lastFailure.message}`);
+}
+
+/**
+ * Atomically claims an open dead letter for a re-drive, so two admins
+ * can't re-drive the same job at once.
+ *
+ * @returns The claimed record, or null if it is missing, resolved or already being re-driven
+ */
+export async function claimDeadLetter(deadLetterId: string, redrivenBy: string): Promise<DeadLetterRecord | null> {
+    const ref = deadLettersCollection().doc(deadLetterId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const record = snapshot.data() as DeadLetterRecord | undefined;
+        if (!record) {
+            return null;
+        }
+
+        const now = Date.now();
+        const leaseExpired = !record.redriveStartedAt ||
+            now - new Date(record.redriveStartedAt).getTime() > REDRIVE_LEASE_MS;
+        if (record.status === "resolved" || (record.status === "redriving" && !leaseExpired)) {
+            return null;
+        }
+
+        const update = {
+            status: "redriving" as DeadLetterStatus,
+            redriveCount: record.redriveCount + 1,
+            redriveStartedAt: new Date(now).toISOString(),
+            lastRedrivenBy: redrivenBy
+        };
+        transaction.update(ref, update);
+        return { ...record, ...update };
+    });
+}
+
+/**
+ * Marks a dead letter resolved after a successful re-drive.
+ */
+export async function resolveDeadLetter(deadLetterId: string): Promise<void> {
+    await deadLettersCollection().doc(deadLetterId).update({
+        status: "resolved",
+        redriveStartedAt: null,
+        resolvedAt: new Date().toISOString()
+    });
+}
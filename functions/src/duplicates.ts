@@ -0,0 +1,245 @@
+// functions/src/duplicates.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { ReceiptData } from "./schema";
+import {
+    DuplicateKind,
+    ReceiptRecord,
+    ReceiptStatus,
+    receiptsCollection,
+    updateReceiptRecord
+} from "./receipts";
+import { resumeExport } from "./pipeline";
+import { requireAuth, resolveTargetUser } from "./access";
+import { ProcessingOutcome, processReceiptObject, recordProcessingFailure } from "./ingest";
+import { recordDeadLetter } from "./deadLetters";
+
+/**
+ * Maximum difference in total amount for two receipts with the same vendor and
+ * date to count as likely duplicates. Override with DUPLICATE_AMOUNT_TOLERANCE.
+ */
+const DEFAULT_DUPLICATE_AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Statuses of receipts that a new upload is compared against. Rejected, failed
+ * and other held-back duplicates never count as an original.
+ */
+const ORIGINAL_STATUSES: ReceiptStatus[] = ["pending_review", "extracted", "exported"];
+
+export function getDuplicateAmountTolerance(): number {
+    const tolerance = parseFloat(process.env.DUPLICATE_AMOUNT_TOLERANCE || "");
+    return isNaN(tolerance) ? DEFAULT_DUPLICATE_AMOUNT_TOLERANCE : tolerance;
+}
+
+/**
+ * Normalizes a vendor name for comparison ("Home Depot #123" -> "homedepot123").
+ */
+export function normalizeVendorName(vendorName: string): string {
+    return vendorName.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Statuses of receipts still on their way through the pipeline. Two copies of a file
+ * uploaded at once (a double tap) are both in flight when they are compared.
+ */
+const IN_FLIGHT_STATUSES: ReceiptStatus[] = ["received", "extracting"];
+
+/**
+ * Returns a reference to the claims on the user's file contents: users/{userId}/contentHashes/{contentHash}
+ * names the receipt that got to the content first.
+ */
+function contentHashesCollection(userId: string) {
+    return getFirestore().collection("users").doc(userId).collection("contentHashes");
+}
+
+/**
+ * Finds an existing receipt of the user with exactly the same file content. The first
+ * receipt to claim the content is the original, even while it is still being extracted;
+ * a claim whose receipt failed, was rejected or deleted is taken over.
+ * 
+ * @returns The original's ledger record, or null if this is the first upload of the file
+ */
+export async function findExactDuplicate(
+    userId: string,
+    contentHash: string,
+    excludeReceiptId: string
+): Promise<ReceiptRecord | null> {
+    const isOriginal = (record: ReceiptRecord) =>
+        record.receiptId !== excludeReceiptId &&
+        record.parentReceiptId !== excludeReceiptId && // Receipts split from the same file
+        ORIGINAL_STATUSES.includes(record.status);
+
+    // Receipts from before content claims were recorded
+    const snapshot = await receiptsCollection(userId)
+        .where("contentHash", "==", contentHash)
+        .get();
+    const match = snapshot.docs
+        .map((doc) => doc.data() as ReceiptRecord)
+        .find(isOriginal);
+    if (match) {
+        return match;
+    }
+
+    const claimRef = contentHashesCollection(userId).doc(contentHash);
+    return getFirestore().runTransaction(async (transaction) => {
+        const claim = await transaction.get(claimRef);
+        const holderId = claim.data()?.receiptId as string | undefined;
+        if (holderId && holderId !== excludeReceiptId) {
+            const holder = await transaction.get(receiptsCollection(userId).doc(holderId));
+            const record = holder.data() as ReceiptRecord | undefined;
+            if (record && (isOriginal(record) || IN_FLIGHT_STATUSES.includes(record.status))) {
+                return record;
+            }
+        }
+        transaction.set(claimRef, { receiptId: excludeReceiptId, claimedAt: new Date().toISOString() });
+        return null;
+    });
+}
+
+/**
+ * Finds an existing receipt of the user with the same vendor and date and a
+ * total within the tolerance (e.g. a re-taken photo of the same receipt).
+ * 
+ * @returns The original's ledger record, or null if none matches
+ */
+export async function findLikelyDuplicate(
+    userId: string,
+    receiptData: ReceiptData,
+    excludeReceiptId: string,
+    tolerance: number
+): Promise<ReceiptRecord | null> {
+    const snapshot = await receiptsCollection(userId)
+        .where("receiptData.transactionDate", "==", receiptData.transactionDate)
+        .get();
+
+    const vendor = normalizeVendorName(receiptData.vendorName);
+    const match = snapshot.docs
+        .map((doc) => doc.data() as ReceiptRecord)
+        .find((record) =>
+            record.receiptId !== excludeReceiptId &&
+            ORIGINAL_STATUSES.includes(record.status) &&
+            record.receiptData !== null &&
+            normalizeVendorName(record.receiptData.vendorName) === vendor &&
+            Math.abs(record.receiptData.totalAmount - receiptData.totalAmount) <= tolerance
+        );
+    return match || null;
+}
+
+/**
+ * Holds a receipt back from the Sheet and stats as a duplicate of another one.
+ */
+export async function holdAsDuplicate(
+    userId: string,
+    receiptId: string,
+    fileName: string,
+    original: ReceiptRecord,
+    kind: DuplicateKind,
+    receiptData: ReceiptData | null
+): Promise<void> {
+    await updateReceiptRecord(userId, receiptId, {
+        status: "duplicate",
+        duplicateOf: original.receiptId,
+        duplicateKind: kind,
+        receiptData
+    });
+
+    // Update the "latest" status pointer
+    await getFirestore().collection("batches").doc(userId).set({
+        status: "duplicate",
+        receiptId: receiptId,
+        duplicateOf: original.receiptId,
+        lastFileProcessed: fileName,
+        receiptData: receiptData,
+        timestamp: new Date().toISOString()
+    }, { merge: true });
+
+    console.log(`Receipt ${fileName} held back as ${kind} duplicate of ${original.fileName} (${original.receiptId})`);
+}
+
+/**
+ * Cloud Function: Resolve a Duplicate
+ * 
+ * Lets the user decide on a receipt held back as a duplicate:
+ * { receiptId, userId?, action: "keep" | "discard" }.
+ * "keep" treats it as a separate receipt: an exact duplicate (which has no data of its
+ * own) is extracted from its own file, a likely duplicate continues with the data
+ * extracted for it; either then goes to the review queue or the Sheet + stats as usual.
+ * "discard" rejects it.
+ */
+export const resolveDuplicate = onCall(
+    {
+        region: "us-central1",
+        memory: "1GiB", // Image processing and the model call, as in the upload trigger
+        timeoutSeconds: 300,
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const userId = await resolveTargetUser(request, request.data?.userId);
+        const receiptId = request.data?.receiptId;
+        const action = request.data?.action;
+
+        if (typeof receiptId !== "string" || !receiptId) {
+            throw new HttpsError("invalid-argument", "receiptId is required");
+        }
+        if (action !== "keep" && action !== "discard") {
+            throw new HttpsError("invalid-argument", "action must be \"keep\" or \"discard\"");
+        }
+
+        const db = getFirestore();
+        const ref = receiptsCollection(userId).doc(receiptId);
+
+        // Claim the duplicate atomically so a double tap can't log it twice
+        const { status, record } = await db.runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(ref);
+            if (!snapshot.exists) {
+                throw new HttpsError("not-found", `Receipt ${receiptId} not found`);
+            }
+            const current = snapshot.data() as ReceiptRecord;
+            if (current.status !== "duplicate") {
+                throw new HttpsError("failed-precondition", `Receipt ${receiptId} is not a held-back duplicate (status: ${current.status})`);
+            }
+
+            // A kept duplicate with data continues like any other extracted receipt; one
+            // without goes back to "received" to be extracted from its own file
+            let next: ReceiptStatus = "rejected";
+            if (action === "keep") {
+                next = !current.receiptData ? "received"
+                    : current.receiptData.needsReview ? "pending_review" : "extracted";
+            }
+            transaction.update(ref, {
+                status: next,
+                ...(action === "keep" ? { duplicateKept: true, extractionStartedAt: null } : {}),
+                timestamp: new Date().toISOString()
+            });
+            return { status: next, record: current };
+        });
+
+        if (status === "rejected") {
+            console.log(`Duplicate ${receiptId} for user ${userId} discarded by ${callerUid}`);
+            return { success: true, receiptId, status };
+        }
+
+        if (status === "received") {
+            let outcome: ProcessingOutcome;
+            try {
+                outcome = await processReceiptObject(userId, receiptId, record.bucket, record.storagePath);
+            } catch (error) {
+                const extractionFailed = await recordProcessingFailure(userId, receiptId, record.storagePath, error);
+                if (!extractionFailed) {
+                    // Extracted, but the export step failed: no event will redeliver it, so an admin re-drives it
+                    await recordDeadLetter("extraction", userId, receiptId, record.storagePath, error);
+                }
+                throw new HttpsError("internal", `Extracting the kept duplicate failed: ${(error as Error).message}`);
+            }
+            console.log(`Duplicate ${receiptId} for user ${userId} kept by ${callerUid} and extracted: ${outcome}`);
+            return { success: true, receiptId, status: outcome };
+        }
+
+        if (status === "extracted") {
+            await resumeExport(userId, receiptId);
+        }
+        console.log(`Duplicate ${receiptId} for user ${userId} kept by ${callerUid}`);
+        return { success: true, receiptId, status: status === "extracted" ? "exported" : status };
+    }
+);
@@ -0,0 +1,323 @@
+// functions/src/evaluation.ts
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { ReceiptData } from "./schema";
+import { ExtractionProvider, buildExtractionRequest, getExtractionConfig } from "./extraction";
+import { createExtractionProvider } from "./providers";
+import { getImageMaxDimension, prepareFile, sniffMimeType } from "./media";
+import { Taxonomy, buildTaxonomy, DEFAULT_CATEGORY_DEFINITIONS } from "./taxonomy";
+
+/**
+ * Amounts within this distance count as equal (half a cent).
+ */
+const AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Suffix of the label file next to each fixture file (receipt.jpg -> receipt.expected.json).
+ */
+const EXPECTED_SUFFIX = ".expected.json";
+
+/**
+ * The labeled fixture set committed with the repository (relative to functions/). Its
+ * responses are hand-written to match the labels: a self-test of the harness, not a
+ * measure of the model.
+ */
+const DEFAULT_FIXTURES_DIR = "fixtures/eval";
+
+/**
+ * Category recorded in the confusion matrix when an expected receipt was not extracted.
+ */
+const MISSING = "(missing)";
+
+/**
+ * One labeled fixture: a receipt file and the receipts it should extract to.
+ * Labels only need the fields to score; the others are ignored.
+ */
+export interface EvaluationCase {
+    name: string;
+    filePath: string;
+    expected: Partial<ReceiptData>[]; // In the order the receipts appear in the file
+}
+
+export interface FieldScore {
+    total: number;
+    correct: number;
+    accuracy: number; // correct / total, 0 when nothing was scored
+}
+
+export interface FieldMismatch {
+    caseName: string;
+    receipt: number; // 0-based position in the file
+    field: string;
+    expected: unknown;
+    actual: unknown;
+}
+
+/**
+ * Results of running a fixture set through a provider.
+ */
+export interface EvaluationReport {
+    provider: { name: string; version: string; promptVersion: string | null };
+    cases: number;
+    failedCases: { caseName: string; error: string }[]; // The provider threw; their receipts count as missing
+    receipts: { expected: number; extracted: number; missing: number; extra: number };
+    fields: Record<string, FieldScore>;
+    amountError: {
+        receipts: number; // Extracted receipts with a labeled totalAmount
+        exact: number; // Within half a cent
+        meanAbsolute: number;
+        maxAbsolute: number;
+        meanRelative: number; // Mean of |error| / expected total
+    };
+    categoryConfusion: Record<string, Record<string, number>>; // expected -> extracted -> count
+    mismatches: FieldMismatch[];
+    evaluatedAt: string;
+}
+
+function normalizeText(value: string): string {
+    return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Compares an extracted value with a label: amounts within AMOUNT_TOLERANCE, text ignoring
+ * case and whitespace, arrays item by item, and objects on the keys the label has.
+ */
+export function valuesMatch(expected: unknown, actual: unknown): boolean {
+    if (expected === null || expected === undefined) {
+        return actual === null || actual === undefined;
+    }
+    if (typeof expected === "number") {
+        return typeof actual === "number" && Math.abs(expected - actual) <= AMOUNT_TOLERANCE;
+    }
+    if (typeof expected === "string") {
+        return typeof actual === "string" && normalizeText(expected) === normalizeText(actual);
+    }
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual) && actual.length === expected.length &&
+            expected.every((item, index) => valuesMatch(item, actual[index]));
+    }
+    if (typeof expected === "object") {
+        return typeof actual === "object" && actual !== null &&
+            Object.entries(expected).every(([key, value]) => valuesMatch(value, (actual as Record<string, unknown>)[key]));
+    }
+    return expected === actual;
+}
+
+/**
+ * Reads the fixture set in a directory: every file with a matching {name}.expected.json
+ * label, holding one receipt or { "receipts": [...] } for files with several.
+ *
+ * @throws Error if a label is not valid JSON
+ */
+export async function loadEvaluationCases(dir: string): Promise<EvaluationCase[]> {
+    const files = (await fs.readdir(dir)).sort();
+    const cases: EvaluationCase[] = [];
+
+    for (const file of files.filter((file) => file.endsWith(EXPECTED_SUFFIX))) {
+        const name = file.slice(0, -EXPECTED_SUFFIX.length);
+        const source = files.find((candidate) => candidate !== file && path.parse(candidate).name === name);
+        if (!source) {
+            console.warn(`Skipping label ${file}: no file named ${name}.* next to it`);
+            continue;
+        }
+
+        let label: unknown;
+        try {
+            label = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"));
+        } catch (error) {
+            throw new Error(`Label ${file} is not valid JSON: ${(error as Error).message}`);
+        }
+        const receipts = (label as { receipts?: unknown })?.receipts;
+        cases.push({
+            name,
+            filePath: path.join(dir, source),
+            expected: (Array.isArray(receipts) ? receipts : [label]) as Partial<ReceiptData>[]
+        });
+    }
+    return cases;
+}
+
+/**
+ * Extracts a fixture file the way uploads are: sniffed, prepared (rotated, downscaled)
+ * and sent to the provider. Recorded responses are keyed by the prepared file's hash.
+ */
+async function extractCase(provider: ExtractionProvider, testCase: EvaluationCase, taxonomy: Taxonomy): Promise<ReceiptData[]> {
+    const buffer = await fs.readFile(testCase.filePath);
+    const mimeType = sniffMimeType(buffer);
+    if (!mimeType) {
+        throw new Error(`${testCase.filePath} is not a supported image or PDF`);
+    }
+    const prepared = await prepareFile(buffer, mimeType, getImageMaxDimension());
+    return provider.extract(buildExtractionRequest(prepared.buffer, testCase.filePath, taxonomy, prepared.mimeType));
+}
+
+/**
+ * Runs every case through the provider and scores the extracted receipts against the
+ * labels, matched by position in the file. Only labeled fields are scored; a receipt
+ * that was not extracted gets every labeled field wrong.
+ */
+export async function evaluateProvider(
+    provider: ExtractionProvider,
+    cases: EvaluationCase[],
+    taxonomy: Taxonomy
+): Promise<EvaluationReport> {
+    // The extracted fields, and the processor's reconciliation of the totals (e.g. tax-inclusive receipts)
+    const scoredFields = [
+        ...Object.keys(taxonomy.fields.receipt.properties).filter((field) => field !== "confidence"),
+        "reconciliation"
+    ];
+    const fields: Record<string, FieldScore> = {};
+    const categoryConfusion: Record<string, Record<string, number>> = {};
+    const mismatches: FieldMismatch[] = [];
+    const failedCases: EvaluationReport["failedCases"] = [];
+    const receipts = { expected: 0, extracted: 0, missing: 0, extra: 0 };
+    const amountErrors: { absolute: number; relative: number }[] = [];
+
+    for (const testCase of cases) {
+        let extracted: ReceiptData[] = [];
+        try {
+            extracted = await extractCase(provider, testCase, taxonomy);
+        } catch (error) {
+            failedCases.push({ caseName: testCase.name, error: (error as Error).message });
+        }
+
+        receipts.expected += testCase.expected.length;
+        receipts.extracted += extracted.length;
+        receipts.missing += Math.max(testCase.expected.length - extracted.length, 0);
+        receipts.extra += Math.max(extracted.length - testCase.expected.length, 0);
+
+        testCase.expected.forEach((expected, index) => {
+            const actual = extracted[index] as ReceiptData | undefined;
+            for (const field of scoredFields.filter((field) => field in expected)) {
+                const expectedValue = (expected as Record<string, unknown>)[field];
+                const actualValue = actual ? (actual as unknown as Record<string, unknown>)[field] : undefined;
+                const score = fields[field] || (fields[field] = { total: 0, correct: 0, accuracy: 0 });
+                score.total++;
+                if (actual && valuesMatch(expectedValue, actualValue)) {
+                    score.correct++;
+                } else {
+                    mismatches.push({ caseName: testCase.name, receipt: index, field, expected: expectedValue, actual: actualValue ?? null });
+                }
+            }
+
+            if (typeof expected.category === "string") {
+                const row = categoryConfusion[expected.category] || (categoryConfusion[expected.category] = {});
+                const column = actual?.category ?? MISSING;
+                row[column] = (row[column] || 0) + 1;
+            }
+            if (actual && typeof expected.totalAmount === "number") {
+                const absolute = Math.abs(actual.totalAmount - expected.totalAmount);
+                amountErrors.push({ absolute, relative: expected.totalAmount > 0 ? absolute / expected.totalAmount : 0 });
+            }
+        });
+    }
+
+    Object.values(fields).forEach((score) => {
+        score.accuracy = score.total > 0 ? score.correct / score.total : 0;
+    });
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+    return {
+        provider: { name: provider.name, version: provider.version, promptVersion: provider.promptVersion },
+        cases: cases.length,
+        failedCases,
+        receipts,
+        fields,
+        amountError: {
+            receipts: amountErrors.length,
+            exact: amountErrors.filter((error) => error.absolute <= AMOUNT_TOLERANCE).length,
+            meanAbsolute: mean(amountErrors.map((error) => error.absolute)),
+            maxAbsolute: Math.max(0, ...amountErrors.map((error) => error.absolute)),
+            meanRelative: mean(amountErrors.map((error) => error.relative))
+        },
+        categoryConfusion,
+        mismatches,
+        evaluatedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Renders a report as plain text for the terminal.
+ */
+export function formatReport(report: EvaluationReport): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const lines = [
+        `Provider: ${report.provider.name} (${report.provider.version})`,
+        `Cases: ${report.cases}, failed: ${report.failedCases.length}`,
+        `Receipts: ${report.receipts.expected} expected, ${report.receipts.extracted} extracted, ` +
+            `${report.receipts.missing} missing, ${report.receipts.extra} extra`,
+        "",
+        "Field accuracy:"
+    ];
+    for (const [field, score] of Object.entries(report.fields)) {
+        lines.push(`  ${field.padEnd(16)} ${percent(score.accuracy).padStart(6)}  (${score.correct}/${score.total})`);
+    }
+
+    const amount = report.amountError;
+    lines.push(
+        "",
+        `Total amount: ${amount.exact}/${amount.receipts} exact, mean error ${amount.meanAbsolute.toFixed(2)} ` +
+            `(${percent(amount.meanRelative)}), max error ${amount.maxAbsolute.toFixed(2)}`,
+        "",
+        "Category confusion (expected -> extracted):"
+    );
+    for (const [expected, row] of Object.entries(report.categoryConfusion)) {
+        const cells = Object.entries(row).sort(([, a], [, b]) => b - a).map(([actual, count]) => `${actual}: ${count}`);
+        lines.push(`  ${expected} -> ${cells.join(", ")}`);
+    }
+
+    if (report.failedCases.length > 0) {
+        lines.push("", "Failed cases:");
+        report.failedCases.forEach(({ caseName, error }) => lines.push(`  ${caseName}: ${error}`));
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Command line: node lib/evaluation.js [fixturesDir] [--provider stub|vertex]
+ * [--responses <dir>] [--record] [--out <report.json>]
+ *
+ * The fixture set defaults to the committed one (DEFAULT_FIXTURES_DIR). The stub provider
+ * (default) replays the responses stored in <fixturesDir>/responses, so the harness runs
+ * without network access; the committed set's responses are hand-written, so replaying them
+ * only self-tests the harness. With --provider vertex --record, the live responses are recorded
+ * there for later runs. EXTRACTION_PROMPT_VERSION selects the prompt.
+ */
+async function main(args: string[]): Promise<void> {
+    const option = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+    const dir = args[0] && !args[0].startsWith("--") ? args[0] : DEFAULT_FIXTURES_DIR;
+
+    const responsesDir = option("--responses") || path.join(dir, "responses");
+    const config = getExtractionConfig();
+    config.provider = option("--provider") || "stub";
+    config.stub.fixturesDir = responsesDir;
+    config.vertex.recordFixturesDir = args.includes("--record") ? responsesDir : null;
+
+    const provider = createExtractionProvider(config);
+    const cases = await loadEvaluationCases(dir);
+    if (cases.length === 0) {
+        throw new Error(`No labeled fixtures (*${EXPECTED_SUFFIX}) in ${dir}`);
+    }
+
+    const report = await evaluateProvider(provider, cases, buildTaxonomy("evaluation", DEFAULT_CATEGORY_DEFINITIONS));
+    console.log(`\n${formatReport(report)}`);
+
+    const out = option("--out");
+    if (out) {
+        await fs.writeFile(out, JSON.stringify(report, null, 2));
+        console.log(`\nReport written to ${out}`);
+    }
+}
+
+if (require.main === module) {
+    dotenv.config();
+    main(process.argv.slice(2)).catch((error) => {
+        console.error((error as Error).message);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,496 @@
+// functions/src/exports.ts
+
+import { randomUUID } from "crypto";
+import { getFirestore, Query, QueryDocumentSnapshot, QuerySnapshot } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import ExcelJS from "exceljs";
+import { ReceiptRecord, receiptsCollection } from "./receipts";
+import { DEFAULT_ORG_ID, MANAGER_ROLES, getOrgIdForUser, hasOrgRole, resolveTargetOrg } from "./organizations";
+import { getBaseCurrency } from "./currency";
+import { resolveTargetUser } from "./access";
+
+/**
+ * How long an export's download URL stays valid.
+ */
+const EXPORT_URL_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Most receipts in one export. Larger ranges should be split.
+ */
+const MAX_EXPORT_RECEIPTS = 10000;
+
+/**
+ * Storage prefix for generated files. Outside receipts/, so the upload trigger ignores them.
+ */
+const EXPORTS_PREFIX = "exports";
+
+/**
+ * Account the receipts were paid from in formats that post to one account
+ * (QuickBooks IIF, OFX/QBO), unless the request names one.
+ */
+const DEFAULT_PAYMENT_ACCOUNT = "Checking";
+
+export type ExportFormat = "csv" | "xlsx" | "iif" | "xero" | "ofx" | "qbo";
+
+/**
+ * Options that apply to every format.
+ */
+interface ExportOptions {
+    from: string; // YYYY-MM-DD, inclusive
+    to: string; // YYYY-MM-DD, inclusive
+    account: string; // Payment account name (IIF) or account ID (OFX/QBO)
+    currency: string; // The receipts' currency in single-currency formats, otherwise the base currency
+}
+
+interface ExportFormatDefinition {
+    extension: string;
+    contentType: string;
+    singleCurrency: boolean; // The format posts to one account, so all amounts must share a currency
+    build: (records: ReceiptRecord[], options: ExportOptions) => Buffer | Promise<Buffer>;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * A receipt's currency. Receipts without one were assumed to be in the base currency
+ * when converted, so they count as that.
+ */
+function receiptCurrency(record: ReceiptRecord, baseCurrency: string): string {
+    return record.receiptData!.currency || record.receiptData!.baseAmount?.currency || baseCurrency;
+}
+
+/**
+ * Splits a receipt's total over its categories: itemized lines by their own
+ * category, the rest (tax, tip, unitemized amounts) to the receipt's category.
+ */
+function categorySplits(record: ReceiptRecord): { category: string; amount: number }[] {
+    const receiptData = record.receiptData!;
+    const splits = new Map<string, number>();
+    for (const item of receiptData.lineItems) {
+        splits.set(item.category, (splits.get(item.category) || 0) + item.lineTotal);
+    }
+    const itemized = [...splits.values()].reduce((sum, amount) => sum + amount, 0);
+    splits.set(receiptData.category, (splits.get(receiptData.category) || 0) + receiptData.totalAmount - itemized);
+
+    return [...splits.entries()]
+        .map(([category, amount]) => ({ category, amount: roundAmount(amount) }))
+        .filter((split) => split.amount !== 0);
+}
+
+function paymentMethodText(record: ReceiptRecord): string {
+    const paymentMethod = record.receiptData!.paymentMethod;
+    if (!paymentMethod) {
+        return "";
+    }
+    return paymentMethod.last4 ? `${paymentMethod.type} ${paymentMethod.last4}` : paymentMethod.type;
+}
+
+/**
+ * The columns of the CSV and XLSX exports.
+ */
+const TABLE_COLUMNS: { header: string; isDate?: boolean; value: (record: ReceiptRecord) => string | number | null }[] = [
+    { header: "Date", isDate: true, value: (record) => record.receiptData!.transactionDate },
+    { header: "Vendor", value: (record) => record.receiptData!.vendorName },
+    { header: "Category", value: (record) => record.receiptData!.category },
+    { header: "Total", value: (record) => record.receiptData!.totalAmount },
+    { header: "Currency", value: (record) => record.receiptData!.currency },
+    { header: "Base Amount", value: (record) => record.receiptData!.baseAmount?.amount ?? null },
+    { header: "Base Currency", value: (record) => record.receiptData!.baseAmount?.currency ?? null },
+    { header: "Exchange Rate", value: (record) => record.receiptData!.baseAmount?.rate ?? null },
+    { header: "Subtotal", value: (record) => record.receiptData!.subtotal },
+    { header: "Tax", value: (record) => record.receiptData!.reconciliation.taxTotal },
+    { header: "Tip", value: (record) => record.receiptData!.tipAmount },
+    { header: "Payment Method", value: (record) => paymentMethodText(record) || null },
+    { header: "Receipt Number", value: (record) => record.receiptData!.receiptNumber },
+    { header: "File", value: (record) => record.fileName },
+    { header: "Receipt ID", value: (record) => record.receiptId }
+];
+
+/**
+ * Quotes a CSV field. Text starting with =, +, - or @ is prefixed with ' so
+ * spreadsheet apps don't run it as a formula (vendor names come from the model).
+ */
+function csvField(value: string | number | null): string {
+    if (value === null) {
+        return "";
+    }
+    if (typeof value === "number") {
+        return String(value);
+    }
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function csvFile(rows: (string | number | null)[][]): Buffer {
+    // BOM so Excel reads UTF-8 vendor names correctly
+    return Buffer.from("\uFEFF" + rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n", "utf8");
+}
+
+function buildCsv(records: ReceiptRecord[]): Buffer {
+    return csvFile([
+        TABLE_COLUMNS.map((column) => column.header),
+        ...records.map((record) => TABLE_COLUMNS.map((column) => column.value(record)))
+    ]);
+}
+
+/**
+ * A YYYY-MM-DD date as a Date at UTC midnight (exceljs writes dates as UTC).
+ */
+function excelDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
+
+async function buildXlsx(records: ReceiptRecord[], options: ExportOptions): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const receipts = workbook.addWorksheet("Receipts");
+    receipts.columns = TABLE_COLUMNS.map((column) => ({ header: column.header, width: 16 }));
+    for (const record of records) {
+        // Real dates, so the accountant can filter and sort on them
+        receipts.addRow(TABLE_COLUMNS.map((column) => {
+            const value = column.value(record);
+            return column.isDate && typeof value === "string" ? excelDate(value) : value;
+        }));
+    }
+    receipts.getColumn(1).numFmt = "yyyy-mm-dd";
+    receipts.getRow(1).font = { bold: true };
+    receipts.views = [{ state: "frozen", ySplit: 1 }];
+
+    const lineItems = workbook.addWorksheet("Line Items");
+    lineItems.columns = ["Receipt ID", "Date", "Vendor", "Description", "Quantity", "Unit Price", "Line Total", "Category"]
+        .map((header) => ({ header, width: 16 }));
+    for (const record of records) {
+        const receiptData = record.receiptData!;
+        for (const item of receiptData.lineItems) {
+            lineItems.addRow([
+                record.receiptId,
+                excelDate(receiptData.transactionDate),
+                receiptData.vendorName,
+                item.description,
+                item.quantity,
+                item.unitPrice,
+                item.lineTotal,
+                item.category
+            ]);
+        }
+    }
+    lineItems.getColumn(2).numFmt = "yyyy-mm-dd";
+    lineItems.getRow(1).font = { bold: true };
+
+    workbook.title = `Receipts ${options.from} to ${options.to}`;
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * YYYY-MM-DD -> MM/DD/YYYY, as QuickBooks Desktop expects.
+ */
+function usDate(date: string): string {
+    const [year, month, day] = date.split("-");
+    return `${month}/${day}/${year}`;
+}
+
+/**
+ * Strips characters that would break a tab-delimited IIF line.
+ */
+function iifField(value: string | null): string {
+    return (value ?? "").replace(/[\t\r\n"]/g, " ").trim();
+}
+
+/**
+ * QuickBooks Desktop IIF: one check per receipt, paid from the payment account,
+ * split over the expense accounts named after its categories.
+ */
+function buildIif(records: ReceiptRecord[], options: ExportOptions): Buffer {
+    const lines = [
+        "!TRNS\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO",
+        "!SPL\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO",
+        "!ENDTRNS"
+    ];
+    for (const record of records) {
+        const receiptData = record.receiptData!;
+        const date = usDate(receiptData.transactionDate);
+        const vendor = iifField(receiptData.vendorName);
+        const docNum = iifField(receiptData.receiptNumber);
+        lines.push(["TRNS", "CHECK", date, iifField(options.account), vendor, (-receiptData.totalAmount).toFixed(2), docNum, iifField(record.fileName)].join("\t"));
+        for (const split of categorySplits(record)) {
+            lines.push(["SPL", "CHECK", date, iifField(split.category), vendor, split.amount.toFixed(2), docNum, ""].join("\t"));
+        }
+        lines.push("ENDTRNS");
+    }
+    return Buffer.from(lines.join("\r\n") + "\r\n", "utf8");
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Xero's precoded bank statement CSV. Dates are written as "2 Jan 2024", which
+ * Xero reads the same whatever the organization's region.
+ */
+function buildXero(records: ReceiptRecord[]): Buffer {
+    return csvFile([
+        ["*Date", "*Amount", "Payee", "Description", "Reference", "Account Code"],
+        ...records.map((record) => {
+            const receiptData = record.receiptData!;
+            const [year, month, day] = receiptData.transactionDate.split("-").map(Number);
+            return [
+                `${day} ${MONTHS[month - 1]} ${year}`,
+                -receiptData.totalAmount,
+                receiptData.vendorName,
+                receiptData.category,
+                receiptData.receiptNumber,
+                null // Left for the accountant: account codes are specific to each Xero organization
+            ];
+        })
+    ]);
+}
+
+/**
+ * Escapes text for OFX 1.x (SGML).
+ */
+function ofxText(value: string, maxLength: number): string {
+    return value.slice(0, maxLength).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/[\r\n]/g, " ");
+}
+
+/**
+ * OFX 1.02 bank statement with one debit per receipt. QBO (QuickBooks Web Connect)
+ * is the same file with an Intuit bank ID in the sign-on response.
+ */
+function buildOfx(records: ReceiptRecord[], options: ExportOptions, intuitBankId: string | null): Buffer {
+    const now = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+    const currency = options.currency;
+    const transactions = records.map((record) => {
+        const receiptData = record.receiptData!;
+        return [
+            "<STMTTRN>",
+            "<TRNTYPE>DEBIT",
+            `<DTPOSTED>${receiptData.transactionDate.replace(/-/g, "")}`,
+            `<TRNAMT>${(-receiptData.totalAmount).toFixed(2)}`,
+            `<FITID>${record.receiptId}`,
+            `<NAME>${ofxText(receiptData.vendorName, 32)}`,
+            `<MEMO>${ofxText(receiptData.category, 255)}`,
+            "</STMTTRN>"
+        ].join("\n");
+    });
+
+    const body = [
+        "OFXHEADER:100",
+        "DATA:OFXSGML",
+        "VERSION:102",
+        "SECURITY:NONE",
+        "ENCODING:USASCII",
+        "CHARSET:1252",
+        "COMPRESSION:NONE",
+        "OLDFILEUID:NONE",
+        "NEWFILEUID:NONE",
+        "",
+        "<OFX>",
+        "<SIGNONMSGSRSV1><SONRS>",
+        "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+        `<DTSERVER>${now}`,
+        "<LANGUAGE>ENG",
+        ...(intuitBankId ? [`<INTU.BID>${intuitBankId}`] : []),
+        "</SONRS></SIGNONMSGSRSV1>",
+        "<BANKMSGSRSV1><STMTTRNRS>",
+        "<TRNUID>1",
+        "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+        "<STMTRS>",
+        `<CURDEF>${currency}`,
+        `<BANKACCTFROM><BANKID>000000000<ACCTID>${ofxText(options.account, 22)}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+        "<BANKTRANLIST>",
+        `<DTSTART>${options.from.replace(/-/g, "")}`,
+        `<DTEND>${options.to.replace(/-/g, "")}`,
+        ...transactions,
+        "</BANKTRANLIST>",
+        `<LEDGERBAL><BALAMT>0.00<DTASOF>${now}</LEDGERBAL>`,
+        "</STMTRS>",
+        "</STMTTRNRS></BANKMSGSRSV1>",
+        "</OFX>"
+    ];
+    // OFX 1.x is not UTF-8; replace what Windows-1252 can't hold
+    return Buffer.from(body.join("\r\n").replace(/[^\x00-\xFF]/g, "?"), "latin1");
+}
+
+const EXPORT_FORMATS: Record<ExportFormat, ExportFormatDefinition> = {
+    csv: { extension: "csv", contentType: "text/csv; charset=utf-8", singleCurrency: false, build: buildCsv },
+    xlsx: {
+        extension: "xlsx",
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        singleCurrency: false,
+        build: buildXlsx
+    },
+    iif: { extension: "iif", contentType: "text/plain; charset=utf-8", singleCurrency: true, build: buildIif },
+    xero: { extension: "csv", contentType: "text/csv; charset=utf-8", singleCurrency: true, build: buildXero },
+    ofx: {
+        extension: "ofx",
+        contentType: "application/x-ofx",
+        singleCurrency: true,
+        build: (records, options) => buildOfx(records, options, null)
+    },
+    qbo: {
+        extension: "qbo",
+        contentType: "application/vnd.intu.qbo",
+        singleCurrency: true,
+        build: (records, options) => buildOfx(records, options, process.env.QBO_INTU_BID || "3000")
+    }
+};
+
+/**
+ * Page size when scanning for entries without an organization (see loadExportedReceipts).
+ */
+const LEGACY_SCAN_PAGE = 500;
+
+/**
+ * The exported receipts of a query dated within the range, by date.
+ */
+function exportedInRange(query: Query, from: string, to: string): Query {
+    return query
+        .where("status", "==", "exported")
+        .where("receiptData.transactionDate", ">=", from)
+        .where("receiptData.transactionDate", "<=", to)
+        .orderBy("receiptData.transactionDate");
+}
+
+/**
+ * Loads the exported receipts of a user or organization dated within the range,
+ * oldest first. Loads at most MAX_EXPORT_RECEIPTS + 1, so the caller can tell the
+ * range is too large without reading all of it.
+ */
+async function loadExportedReceipts(
+    scope: "personal" | "organization",
+    ownerId: string,
+    from: string,
+    to: string
+): Promise<ReceiptRecord[]> {
+    const limit = MAX_EXPORT_RECEIPTS + 1;
+    const records: ReceiptRecord[] = [];
+
+    if (scope === "personal") {
+        const snapshot = await exportedInRange(receiptsCollection(ownerId), from, to).limit(limit).get();
+        snapshot.docs.forEach((doc) => records.push(doc.data() as ReceiptRecord));
+    } else {
+        const receipts = getFirestore().collectionGroup("receipts");
+        const snapshot = await exportedInRange(receipts.where("orgId", "==", ownerId), from, to).limit(limit).get();
+        snapshot.docs.forEach((doc) => records.push(doc.data() as ReceiptRecord));
+
+        if (ownerId === DEFAULT_ORG_ID) {
+            // Entries from before organizations were recorded belong to the default organization.
+            // A missing field can't be queried, so page through the range and keep those
+            let last: QueryDocumentSnapshot | null = null;
+            while (records.length < limit) {
+                const query = exportedInRange(receipts, from, to).limit(LEGACY_SCAN_PAGE);
+                const page: QuerySnapshot = await (last ? query.startAfter(last) : query).get();
+                page.docs
+                    .map((doc) => doc.data() as ReceiptRecord)
+                    .filter((record) => !record.orgId)
+                    .forEach((record) => records.push(record));
+                if (page.size < LEGACY_SCAN_PAGE) {
+                    break;
+                }
+                last = page.docs[page.docs.length - 1];
+            }
+        }
+    }
+
+    return records.sort((a, b) =>
+        a.receiptData!.transactionDate.localeCompare(b.receiptData!.transactionDate) || a.receiptId.localeCompare(b.receiptId)
+    );
+}
+
+/**
+ * Cloud Function: Export Receipts
+ *
+ * Builds a file of exported receipts for accountants and returns a signed download URL:
+ * { format: "csv" | "xlsx" | "iif" | "xero" | "ofx" | "qbo", from, to (YYYY-MM-DD),
+ *   scope?: "personal" | "organization", userId?, orgId?, currency?, account? }.
+ * Personal exports cover the caller's receipts (admins may pass userId); organization
+ * exports are for admins and the organization's owners and admins. Formats that post to
+ * one account (IIF, Xero, OFX, QBO) need all receipts in one currency; pass currency to
+ * pick one. Receipts without a currency count as the base currency.
+ */
+export const exportReceipts = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 300,
+        memory: "1GiB", // XLSX files are built in memory
+    },
+    async (request) => {
+        const format = request.data?.format as ExportFormat;
+        const definition = EXPORT_FORMATS[format];
+        if (typeof format !== "string" || !definition) {
+            throw new HttpsError("invalid-argument", `format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`);
+        }
+        const { from, to } = request.data || {};
+        if (typeof from !== "string" || !ISO_DATE.test(from) || typeof to !== "string" || !ISO_DATE.test(to) || from > to) {
+            throw new HttpsError("invalid-argument", "from and to must be dates (YYYY-MM-DD) with from <= to");
+        }
+        const currency = request.data?.currency ?? null;
+        if (currency !== null && (typeof currency !== "string" || !/^[A-Z]{3}$/.test(currency))) {
+            throw new HttpsError("invalid-argument", "currency must be an ISO 4217 code, e.g. USD");
+        }
+        const account = request.data?.account ?? DEFAULT_PAYMENT_ACCOUNT;
+        if (typeof account !== "string" || !account.trim()) {
+            throw new HttpsError("invalid-argument", "account must be a non-empty string");
+        }
+
+        const scope = request.data?.scope ?? "personal";
+        let ownerId: string;
+        if (scope === "personal") {
+            ownerId = await resolveTargetUser(request, request.data?.userId);
+        } else if (scope === "organization") {
+            ownerId = await resolveTargetOrg(request, request.data?.orgId);
+            if (!await hasOrgRole(request, ownerId, MANAGER_ROLES)) {
+                throw new HttpsError("permission-denied", "Only the organization's owners and admins can export its receipts");
+            }
+        } else {
+            throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+        }
+
+        const baseCurrency = await getBaseCurrency(scope === "organization" ? ownerId : await getOrgIdForUser(ownerId));
+        // Checked before the currency filter: a load cut off at the limit may miss receipts in that currency
+        let records = await loadExportedReceipts(scope, ownerId, from, to);
+        if (records.length > MAX_EXPORT_RECEIPTS) {
+            throw new HttpsError("out-of-range",
+                `The range holds more than ${MAX_EXPORT_RECEIPTS} receipts, the limit for one export. Export a shorter range.`);
+        }
+        if (currency) {
+            records = records.filter((record) => receiptCurrency(record, baseCurrency) === currency);
+        }
+        const currencies = [...new Set(records.map((record) => receiptCurrency(record, baseCurrency)))];
+        if (definition.singleCurrency && currencies.length > 1) {
+            throw new HttpsError("failed-precondition",
+                `The receipts are in several currencies (${currencies.join(", ")}); export one currency at a time with { currency }`);
+        }
+
+        const uid = request.auth!.uid;
+        const fileName = `receipts-${ownerId}-${from}-to-${to}.${definition.extension}`;
+        const path = `${EXPORTS_PREFIX}/${uid}/${randomUUID()}/${fileName}`;
+        const contents = await definition.build(records, {
+            from,
+            to,
+            account: account.trim(),
+            currency: definition.singleCurrency && currencies.length === 1 ? currencies[0] : currency || baseCurrency
+        });
+
+        const file = getStorage().bucket().file(path);
+        await file.save(contents, {
+            resumable: false,
+            metadata: {
+                contentType: definition.contentType,
+                contentDisposition: `attachment; filename="${fileName}"`,
+                metadata: { format, scope, ownerId, from, to, receiptCount: String(records.length) }
+            }
+        });
+
+        const expiresAt = new Date(Date.now() + EXPORT_URL_TTL_MS);
+        const [url] = await file.getSignedUrl({ action: "read", expires: expiresAt });
+
+        console.log(`Export ${path} (${format}, ${records.length} receipts of ${scope} ${ownerId}) created by ${uid}`);
+        return { url, expiresAt: expiresAt.toISOString(), path, fileName, format, receiptCount: records.length };
+    }
+);
@@ -0,0 +1,326 @@
+// functions/src/extraction.ts
+
+import { createHash } from "crypto";
+import {
+    ReceiptData,
+    ExtractedReceipt,
+    ReceiptSource,
+    ReviewFlag,
+    MAX_RECEIPTS_PER_FILE,
+    TAX_LINE_FIELD
+} from "./schema";
+import { reconcileReceipt } from "./reconciliation";
+import { CURRENT_PROMPT_VERSION } from "./prompts";
+import { Taxonomy, normalizeCategory } from "./taxonomy";
+import {
+    Field,
+    ValidationIssue,
+    childPath,
+    formatIssues
+} from "./validation";
+
+/**
+ * A single file to extract receipt data from.
+ */
+export interface ExtractionRequest {
+    fileBuffer: Buffer;
+    filePath: string;
+    mimeType: string;
+    contentHash: string; // SHA-256 of fileBuffer, hex encoded
+    taxonomy: Taxonomy; // The uploader's organization categories
+}
+
+/**
+ * Something that turns a receipt file into validated ReceiptData, one per
+ * receipt in the file (Vertex AI, recorded fixtures, a local OCR engine, ...).
+ */
+export interface ExtractionProvider {
+    readonly name: string;
+    readonly version: string; // Changes whenever the same file may extract differently (model, prompt)
+    readonly promptVersion: string | null; // Prompt template used (see prompts.ts), null for providers without one
+    extract(request: ExtractionRequest): Promise<ReceiptData[]>;
+}
+
+export interface VertexProviderConfig {
+    project: string | undefined;
+    location: string;
+    model: string;
+    temperature: number;
+    promptVersion: string; // Released prompt template to use (see prompts.ts)
+    recordFixturesDir: string | null; // When set, raw responses are saved for the stub provider
+}
+
+export interface StubProviderConfig {
+    fixturesDir: string;
+}
+
+/**
+ * Provider selection and per-provider settings, read from the environment.
+ */
+export interface ExtractionConfig {
+    provider: string;
+    vertex: VertexProviderConfig;
+    stub: StubProviderConfig;
+}
+
+/**
+ * Reads the extraction configuration from environment variables.
+ */
+export function getExtractionConfig(): ExtractionConfig {
+    const temperature = parseFloat(process.env.VERTEX_TEMPERATURE || "");
+
+    return {
+        provider: (process.env.EXTRACTION_PROVIDER || "vertex").trim().toLowerCase(),
+        vertex: {
+            project: process.env.GOOGLE_CLOUD_PROJECT || process.env.GCLOUD_PROJECT,
+            // Use us-central1 - standard region for Gemini models
+            location: process.env.VERTEX_LOCATION || "us-central1",
+            // Vertex public model identifier - Gemini 2.5 Flash (1.5 Flash was retired)
+            model: process.env.VERTEX_MODEL || "gemini-2.5-flash",
+            temperature: isNaN(temperature) ? 0.2 : temperature,
+            promptVersion: (process.env.EXTRACTION_PROMPT_VERSION || "").trim() || CURRENT_PROMPT_VERSION,
+            recordFixturesDir: process.env.EXTRACTION_RECORD_FIXTURES_DIR || null
+        },
+        stub: {
+            fixturesDir: process.env.EXTRACTION_FIXTURES_DIR || "fixtures/eval/responses"
+        }
+    };
+}
+
+/**
+ * Builds the provider request for a file, including its content hash.
+ * 
+ * @param mimeType - The type detected from the content; falls back to the file extension
+ */
+export function buildExtractionRequest(
+    fileBuffer: Buffer,
+    filePath: string,
+    taxonomy: Taxonomy,
+    mimeType?: string
+): ExtractionRequest {
+    return {
+        fileBuffer,
+        filePath,
+        mimeType: mimeType || getMimeType(filePath),
+        contentHash: hashContent(fileBuffer),
+        taxonomy
+    };
+}
+
+/**
+ * SHA-256 of a file's content, hex encoded. Identifies identical uploads.
+ */
+export function hashContent(fileBuffer: Buffer): string {
+    return createHash("sha256").update(fileBuffer).digest("hex");
+}
+
+/**
+ * Determines the MIME type based on file extension.
+ * Defaults to 'image/jpeg' if unknown. Uploads are sniffed with sniffMimeType (media.ts) instead.
+ */
+export function getMimeType(filePath: string): string {
+    const extension = filePath.toLowerCase().split('.').pop();
+    const mimeTypes: Record<string, string> = {
+        'jpg': 'image/jpeg',
+        'jpeg': 'image/jpeg',
+        'png': 'image/png',
+        'gif': 'image/gif',
+        'webp': 'image/webp',
+        'pdf': 'application/pdf'
+    };
+    return mimeTypes[extension || ''] || 'image/jpeg';
+}
+
+/**
+ * Turns a raw JSON response into ReceiptData, one per receipt in the file, without
+ * any repair attempts: valid receipts are finalized as-is, invalid ones are salvaged
+ * with review flags. Used by providers that cannot be re-prompted (recorded fixtures, OCR).
+ * 
+ * @param filePath - Storage path of the file, recorded as each receipt's source
+ * @param taxonomy - The categories the response is validated and normalized against
+ * @throws Error if the response is not JSON, holds no receipts, or a receipt's vendor/total are invalid
+ */
+export function resolveExtraction(jsonText: string, filePath: string, taxonomy: Taxonomy): ReceiptData[] {
+    const fields = taxonomy.fields;
+
+    let response: unknown;
+    try {
+        response = JSON.parse(jsonText);
+    } catch (parseError) {
+        throw new Error(`Failed to parse JSON from extraction response: ${jsonText.substring(0, 200)}`);
+    }
+
+    const document = response as Record<string, unknown> | null;
+    let entries: unknown[];
+    if (Array.isArray(document?.receipts)) {
+        entries = document!.receipts as unknown[];
+    } else if (typeof document === "object" && document !== null && "vendorName" in document) {
+        // Responses recorded before multi-receipt support hold a single receipt object
+        entries = [document];
+    } else {
+        throw new Error(`Extraction response has no "receipts" array: ${jsonText.substring(0, 200)}`);
+    }
+    if (entries.length === 0) {
+        throw new Error(`No receipts were found in ${filePath}`);
+    }
+    if (entries.length > MAX_RECEIPTS_PER_FILE) {
+        throw new Error(`${filePath} holds ${entries.length} receipts; at most ${MAX_RECEIPTS_PER_FILE} are supported per file`);
+    }
+
+    return entries.map((entry, index) => {
+        const record = typeof entry === "object" && entry !== null ? entry as Record<string, unknown> : {};
+        const page = fields.documentReceipt.properties.pageNumber.validate(record.pageNumber, "pageNumber");
+        const source: ReceiptSource = {
+            filePath,
+            pageNumber: page.ok && page.value !== null ? Math.round(page.value) : null,
+            index,
+            count: entries.length
+        };
+
+        const validation = fields.receipt.validate(entry, "$");
+        if (validation.ok) {
+            return finalizeReceiptData(validation.value, [], source);
+        }
+
+        try {
+            const { receipt, flags } = salvageReceipt(entry, validation.issues, taxonomy);
+            return finalizeReceiptData(receipt, flags, source);
+        } catch (error) {
+            const where = entries.length > 1 ? `Receipt ${index + 1} of ${entries.length}` : "Receipt";
+            throw new Error(`${where}${source.pageNumber ? ` (page ${source.pageNumber})` : ""}: ${(error as Error).message}`);
+        }
+    });
+}
+
+/**
+ * Adds the processor-computed fields (source, reconciliation, review flags, timestamp)
+ * to a validated extraction.
+ */
+export function finalizeReceiptData(
+    receipt: ExtractedReceipt,
+    flags: ReviewFlag[],
+    source: ReceiptSource
+): ReceiptData {
+    const reconciliation = reconcileReceipt(receipt);
+    const reviewFlags = [...flags];
+
+    if (reconciliation.hasDiscrepancy) {
+        console.warn(`Receipt totals do not reconcile (difference ${reconciliation.difference}):`, reconciliation);
+        reviewFlags.push({
+            field: "totalAmount",
+            reason: "total_mismatch",
+            message: `Line items + tax + tip (${reconciliation.computedTotal}) differ from the total by ${reconciliation.difference}`
+        });
+    }
+
+    return {
+        ...receipt,
+        source,
+        reconciliation,
+        reviewFlags,
+        needsReview: reviewFlags.length > 0,
+        timestamp: new Date().toISOString()
+    };
+}
+
+/**
+ * Builds a receipt from a response that still fails validation after the repair attempts.
+ * Invalid optional fields are cleared, invalid categories are mapped via normalizeCategory,
+ * an invalid date is kept as extracted, and each of these gets a review flag.
+ * 
+ * @throws Error if the vendor name or total amount is invalid, since there is nothing to review
+ */
+export function salvageReceipt(
+    response: unknown,
+    issues: ValidationIssue[],
+    taxonomy: Taxonomy
+): { receipt: ExtractedReceipt; flags: ReviewFlag[] } {
+    const fatal = issues.filter((issue) =>
+        issue.path === "$" || issue.path === "vendorName" || issue.path === "totalAmount"
+    );
+    if (fatal.length > 0 || typeof response !== "object" || response === null) {
+        throw new Error(`Extraction failed validation:\n${formatIssues(fatal.length > 0 ? fatal : issues)}`);
+    }
+
+    const raw = response as Record<string, unknown>;
+    const fields = taxonomy.fields.receipt.properties;
+    const flags: ReviewFlag[] = [];
+    const receipt: Record<string, unknown> = {};
+
+    for (const key of Object.keys(fields) as (keyof typeof fields)[]) {
+        const value = raw[key];
+        const result = fields[key].validate(value, key);
+        if (result.ok) {
+            receipt[key] = result.value;
+            continue;
+        }
+
+        const message = result.issues.map((issue) => issue.message).join("; ");
+        switch (key) {
+            case "transactionDate":
+                // Keep the raw value for the reviewer instead of substituting today's date
+                receipt[key] = typeof value === "string" ? value.trim() : "";
+                flags.push({ field: key, reason: "invalid_value", message });
+                break;
+            case "category":
+                receipt[key] = normalizeCategory(raw[key], taxonomy);
+                flags.push({ field: key, reason: "category_fallback", message });
+                break;
+            case "taxes":
+                receipt[key] = salvageArray(raw[key], key, TAX_LINE_FIELD, flags);
+                break;
+            case "lineItems":
+                receipt[key] = salvageArray(raw[key], key, taxonomy.fields.lineItem, flags, (item) => {
+                    if (typeof item !== "object" || item === null) {
+                        return item; // Nothing to repair
+                    }
+                    const entry = item as Record<string, unknown>;
+                    return { ...entry, category: normalizeCategory(entry.category, taxonomy) };
+                });
+                break;
+            default:
+                // Remaining fields are nullable
+                receipt[key] = null;
+                flags.push({ field: key, reason: "invalid_value", message });
+        }
+    }
+
+    return { receipt: receipt as ExtractedReceipt, flags };
+}
+
+/**
+ * Keeps the valid entries of an array field. Invalid entries are retried once
+ * with the optional repair function, and dropped with a review flag if still invalid.
+ */
+function salvageArray<T>(
+    value: unknown,
+    path: string,
+    field: Field<T>,
+    flags: ReviewFlag[],
+    repair?: (item: unknown) => unknown
+): T[] {
+    if (!Array.isArray(value)) {
+        flags.push({ field: path, reason: "invalid_value", message: "Expected an array; no entries were kept" });
+        return [];
+    }
+
+    const result: T[] = [];
+    value.forEach((item, index) => {
+        const itemPath = childPath(path, index);
+        const itemResult = field.validate(item, itemPath);
+        if (itemResult.ok) {
+            result.push(itemResult.value);
+            return;
+        }
+
+        const message = itemResult.issues.map((issue) => issue.message).join("; ");
+        const repaired = repair ? field.validate(repair(item), itemPath) : null;
+        if (repaired?.ok) {
+            result.push(repaired.value);
+            flags.push({ field: itemPath, reason: "category_fallback", message });
+        } else {
+            flags.push({ field: itemPath, reason: "invalid_value", message: `Entry dropped: ${message}` });
+        }
+    });
+    return result;
+}
@@ -1,39 +1,43 @@
 // functions/src/gemini.ts
 
-import { VertexAI } from "@google-cloud/vertexai";
-import { ReceiptData, Category } from "./schema";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { Content, VertexAI } from "@google-cloud/vertexai";
+import { ReceiptData, MAX_RECEIPTS_PER_FILE } from "./schema";
+import { Taxonomy } from "./taxonomy";
+import { ValidationIssue, formatIssues, parseAndValidate } from "./validation";
+import {
+    ExtractionProvider,
+    ExtractionRequest,
+    VertexProviderConfig,
+    resolveExtraction
+} from "./extraction";
+import { MODEL_RETRY_POLICY, RetryExhaustedError, withRetry } from "./retry";
+import { PromptTemplate, getPromptTemplate, renderPrompt } from "./prompts";
 
-// Initialize Vertex AI client using service account (ADC). No API key required.
-const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || process.env.GCLOUD_PROJECT;
-// Use us-central1 - standard region for Gemini models
-const LOCATION = process.env.VERTEX_LOCATION || "us-central1";
-// Vertex public model identifier - using Gemini 2.5 Flash (1.5 Flash was retired)
-const MODEL_NAME = "gemini-2.5-flash";
-
-let cachedModel: ReturnType<VertexAI["getGenerativeModel"]> | null = null;
-
-function getGenerativeModel() {
-    if (!PROJECT_ID) {
+/**
+ * Creates a Vertex AI generative model client from the provider configuration.
+ * Uses the service account (ADC). No API key required.
+ */
+function createGenerativeModel(config: VertexProviderConfig) {
+    if (!config.project) {
         throw new Error("GOOGLE_CLOUD_PROJECT is not set; required for Vertex AI.");
     }
 
     // Log configuration for debugging
     console.log("Vertex AI Config:", {
-        project: PROJECT_ID,
-        location: LOCATION,
-        model: MODEL_NAME
+        project: config.project,
+        location: config.location,
+        model: config.model,
+        temperature: config.temperature
     });
 
-    if (!cachedModel) {
-        const vertex = new VertexAI({
-            project: PROJECT_ID,
-            location: LOCATION,
-        });
-
-        cachedModel = vertex.getGenerativeModel({ model: MODEL_NAME });
-    }
+    const vertex = new VertexAI({
+        project: config.project,
+        location: config.location,
+    });
 
-    return cachedModel;
+    return vertex.getGenerativeModel({ model: config.model });
 }
 
 /**
@@ -44,177 +48,136 @@ function bufferToBase64(buffer: Buffer): string {
 }
 
 /**
- * Determines the MIME type based on file extension or buffer content.
- * Defaults to 'image/jpeg' if unknown.
+ * Maximum number of times the model is re-prompted with validation errors
+ * before the extraction is salvaged (or rejected).
  */
-function getMimeType(filePath: string): string {
-    const extension = filePath.toLowerCase().split('.').pop();
-    const mimeTypes: Record<string, string> = {
-        'jpg': 'image/jpeg',
-        'jpeg': 'image/jpeg',
-        'png': 'image/png',
-        'gif': 'image/gif',
-        'webp': 'image/webp',
-        'pdf': 'application/pdf'
-    };
-    return mimeTypes[extension || ''] || 'image/jpeg';
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Builds the extraction prompt, with the category list of the organization's taxonomy.
+ */
+function buildExtractionPrompt(template: PromptTemplate, taxonomy: Taxonomy): string {
+    return renderPrompt(template.extraction, { maxReceipts: MAX_RECEIPTS_PER_FILE, categories: taxonomy.prompt });
 }
 
 /**
- * Calls Google Gemini API to extract structured receipt data from an image.
- * 
- * @param imageBuffer - The binary content of the receipt image
- * @param filePath - The file path (used to determine MIME type)
- * @returns Promise<ReceiptData> - The extracted receipt data
- * @throws Error if the API call fails or returns invalid data
+ * Builds the follow-up prompt that asks the model to fix specific validation errors.
  */
-export async function extractReceiptData(
-    imageBuffer: Buffer,
-    filePath: string
-): Promise<ReceiptData> {
-    const generativeModel = getGenerativeModel();
-
-    // Convert image to base64
-    const base64Image = bufferToBase64(imageBuffer);
-    const mimeType = getMimeType(filePath);
-
-    // Construct the prompt with clear instructions
-    const prompt = `Analyze this receipt image and extract the following information as JSON:
-{
-  "vendorName": "The name of the store or business",
-  "transactionDate": "The purchase date in YYYY-MM-DD format",
-  "totalAmount": The final total including tax (as a number, no currency symbols),
-  "category": "One of: Maintenance, Cleaning Supplies, Utilities, Supplies, or Other"
+function buildRepairPrompt(template: PromptTemplate, issues: ValidationIssue[]): string {
+    return renderPrompt(template.repair, { issues: formatIssues(issues) });
 }
 
-Categories:
-- "Maintenance": Tools, hardware, repairs, equipment maintenance
-- "Cleaning Supplies": Cleaning products, detergents, paper towels, etc.
-- "Utilities": Electricity, water, gas, internet, phone bills
-- "Supplies": Office supplies, general business supplies
-- "Other": Anything that doesn't fit the above categories
+/**
+ * Saves the raw model response under the file's content hash, so the stub
+ * provider can replay it later without network access.
+ */
+async function recordFixture(dir: string, contentHash: string, textResponse: string): Promise<void> {
+    try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, `${contentHash}.json`), textResponse);
+    } catch (error) {
+        console.warn(`Failed to record extraction fixture for ${contentHash}:`, error);
+    }
+}
 
-Be precise and extract only information that is clearly visible on the receipt.
-Return ONLY valid JSON, no other text.`;
+/**
+ * Creates the Vertex AI (Gemini) extraction provider.
+ * 
+ * The prompts come from the configured template version (prompts.ts); the response schema
+ * and category list are generated from the request's taxonomy. Responses that fail
+ * validation are sent back to the model with the specific errors, up to
+ * MAX_REPAIR_ATTEMPTS times. Fields that are still invalid after that are
+ * flagged for review instead of being silently replaced.
+ * 
+ * Quota (429 / RESOURCE_EXHAUSTED) and 5xx errors from the model are retried
+ * with exponential backoff and jitter (MODEL_RETRY_POLICY).
+ *
+ * @throws Error if the configured prompt version does not exist
+ */
+export function createVertexProvider(config: VertexProviderConfig): ExtractionProvider {
+    let generativeModel: ReturnType<typeof createGenerativeModel> | null = null;
+    const prompt = getPromptTemplate(config.promptVersion);
+
+    return {
+        name: `vertex:${config.model}`,
+        version: `${config.model}/prompt-${prompt.version}`,
+        promptVersion: prompt.version,
+
+        async extract(request: ExtractionRequest): Promise<ReceiptData[]> {
+            if (!generativeModel) {
+                generativeModel = createGenerativeModel(config);
+            }
 
-    try {
-        // Prepare the multimodal request for Vertex AI (service account auth)
-        const result = await generativeModel.generateContent({
-            contents: [
+            const contents: Content[] = [
                 {
                     role: "user",
                     parts: [
                         {
                             inlineData: {
-                                mimeType,
-                                data: base64Image
+                                mimeType: request.mimeType,
+                                data: bufferToBase64(request.fileBuffer)
                             }
                         },
-                        { text: prompt }
+                        { text: buildExtractionPrompt(prompt, request.taxonomy) }
                     ]
                 }
-            ],
-            generationConfig: {
-                temperature: 0.2
-            }
-        });
-
-        const candidate = result.response?.candidates?.[0];
-        const textResponse = candidate?.content?.parts
-            ?.map((part: any) => part.text || "")
-            .join("")
-            .trim();
-
-        if (!textResponse) {
-            throw new Error("No text response from Gemini API");
-        }
-
-        // Parse the JSON response
-        let jsonText = textResponse.trim();
-        
-        // Remove markdown code blocks if present
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (jsonText.startsWith('```')) {
-            jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-
-        // Parse the JSON
-        let extractedData: any;
-        try {
-            extractedData = JSON.parse(jsonText);
-        } catch (parseError) {
-            // If direct parsing fails, try to extract JSON from the text
-            const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                extractedData = JSON.parse(jsonMatch[0]);
-        } else {
-            throw new Error(`Failed to parse JSON from Gemini API response: ${textResponse.substring(0, 200)}`);
-        }
-        }
-
-        // Validate and transform the extracted data
-        const receiptData: ReceiptData = {
-            vendorName: extractedData.vendorName || extractedData.vendor || "Unknown Vendor",
-            transactionDate: extractedData.transactionDate || extractedData.date || new Date().toISOString().split('T')[0],
-            totalAmount: parseFloat(extractedData.totalAmount || extractedData.amount || extractedData.total || "0"),
-            category: validateCategory(extractedData.category),
-            timestamp: new Date().toISOString()
-        };
-
-        // Validate required fields
-        if (!receiptData.vendorName || receiptData.vendorName === "Unknown Vendor") {
-            throw new Error("Could not extract vendor name from receipt");
-        }
-        
-        if (isNaN(receiptData.totalAmount) || receiptData.totalAmount <= 0) {
-            throw new Error(`Invalid total amount extracted: ${extractedData.totalAmount}`);
-        }
-
-        if (!receiptData.transactionDate || !/^\d{4}-\d{2}-\d{2}$/.test(receiptData.transactionDate)) {
-            console.warn(`Invalid date format, using today's date: ${receiptData.transactionDate}`);
-            receiptData.transactionDate = new Date().toISOString().split('T')[0];
-        }
-
-        return receiptData;
+            ];
+
+            try {
+                let textResponse = "";
+
+                for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+                    // Prepare the multimodal request for Vertex AI (service account auth)
+                    const model = generativeModel;
+                    const result = await withRetry("Vertex AI generateContent", MODEL_RETRY_POLICY, () =>
+                        model.generateContent({
+                            contents,
+                            generationConfig: {
+                                temperature: config.temperature,
+                                responseMimeType: "application/json",
+                                responseSchema: request.taxonomy.fields.responseSchema
+                            }
+                        })
+                    );
+
+                    const candidate = result.response?.candidates?.[0];
+                    textResponse = candidate?.content?.parts
+                        ?.map((part: any) => part.text || "")
+                        .join("")
+                        .trim() || "";
+
+                    if (!textResponse) {
+                        throw new Error("No text response from Gemini API");
+                    }
+
+                    const validation = parseAndValidate(request.taxonomy.fields.document, textResponse);
+                    if (validation.ok) {
+                        break;
+                    }
+
+                    console.warn(`Extraction attempt ${attempt + 1} failed validation:\n${formatIssues(validation.issues)}`);
+
+                    // Re-prompt with the specific errors
+                    contents.push(
+                        { role: "model", parts: [{ text: textResponse }] },
+                        { role: "user", parts: [{ text: buildRepairPrompt(prompt, validation.issues) }] }
+                    );
+                }
 
-    } catch (error) {
-        console.error("Gemini API error:", error);
-        throw new Error(`Failed to extract receipt data: ${(error as Error).message}`);
-    }
-}
+                if (config.recordFixturesDir) {
+                    await recordFixture(config.recordFixturesDir, request.contentHash, textResponse);
+                }
 
-/**
- * Validates and normalizes the category value.
- * Falls back to "Other" if the category doesn't match any enum value.
- */
-function validateCategory(category: string | undefined): Category {
-    if (!category) {
-        return Category.OTHER;
-    }
+                // A still-invalid last response keeps what is valid and flags the rest for review
+                return resolveExtraction(textResponse, request.filePath, request.taxonomy);
 
-    // Case-insensitive matching
-    const normalized = category.trim();
-    const categoryValues = Object.values(Category);
-    
-    for (const validCategory of categoryValues) {
-        if (validCategory.toLowerCase() === normalized.toLowerCase()) {
-            return validCategory;
+            } catch (error) {
+                console.error("Gemini API error:", error);
+                if (error instanceof RetryExhaustedError) {
+                    throw error;
+                }
+                throw new Error(`Failed to extract receipt data: ${(error as Error).message}`);
+            }
         }
-    }
-
-    // Try partial matching for common variations
-    const lowerCategory = normalized.toLowerCase();
-    if (lowerCategory.includes('maintenance')) {
-        return Category.MAINTENANCE;
-    } else if (lowerCategory.includes('cleaning')) {
-        return Category.CLEANING_SUPPLIES;
-    } else if (lowerCategory.includes('utilit')) {
-        return Category.UTILITIES;
-    } else if (lowerCategory.includes('suppl')) {
-        return Category.SUPPLIES;
-    }
-
-    console.warn(`Unknown category "${category}", defaulting to "Other"`);
-    return Category.OTHER;
+    };
 }
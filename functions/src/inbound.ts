@@ -0,0 +1,565 @@
+// functions/src/inbound.ts
+
+import { createHash, randomBytes } from "crypto";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { onCall, onRequest, HttpsError } from "firebase-functions/v2/https";
+import { EmailOrigin, ReceiptOrigin } from "./receipts";
+import { sniffMimeType } from "./media";
+import { getMembership, getOrgIdForUser } from "./organizations";
+import { requireAuth } from "./access";
+import { secretsMatch } from "./roles";
+import {
+    MimePart,
+    decodeHeaderValue,
+    htmlToText,
+    parseAddresses,
+    parseMimeMessage,
+    parseMultipartBody,
+    partFileName,
+    partText
+} from "./mime";
+
+/**
+ * Most receipt files taken from one email; the rest are ignored.
+ */
+const MAX_ATTACHMENTS = 10;
+
+/**
+ * Largest attachment passed on (the processor's limit for the model).
+ */
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Shortest email text treated as a receipt when the email has no receipt attachment.
+ */
+const MIN_BODY_TEXT_LENGTH = 40;
+
+/**
+ * Deepest forwarded message (message/rfc822 attachment) whose attachments are taken.
+ */
+const MAX_FORWARD_DEPTH = 3;
+
+/**
+ * Storage folder of emailed files: receipts/{userId}/email/{messageKey}/{n}-{fileName}.
+ * Clients can only write directly under receipts/{userId}/, so the origin metadata of
+ * files in this folder was set by this function.
+ */
+const EMAIL_FOLDER = "email";
+
+/**
+ * A user's forwarding address, stored at users/{userId}/settings/inboundEmail and
+ * looked up by token at inboundAddresses/{token}.
+ */
+export interface ForwardingAddress {
+    userId: string;
+    token: string; // Random, lowercase hex; the part after "+" in the address
+    address: string; // e.g. receipts+3f2a...@in.example.com
+    createdAt: string;
+}
+
+/**
+ * An attachment of an inbound email.
+ */
+interface InboundAttachment {
+    fileName: string;
+    content: Buffer;
+    inline: boolean; // Shown in the body (logos, signatures), not attached
+}
+
+/**
+ * An inbound email, from a raw MIME message or a provider's parsed multipart/form-data webhook.
+ */
+interface InboundEmail {
+    from: string | null;
+    recipients: string[]; // Envelope, To, Cc and delivery headers, lowercase
+    subject: string;
+    messageId: string | null;
+    date: string | null;
+    text: string | null; // Plain text body, or the HTML body reduced to text
+    attachments: InboundAttachment[];
+    senderAuthenticated: boolean; // The receiving server (or SendGrid) reported DMARC, or DKIM by the From domain, as passing
+}
+
+function inboundAddressesCollection() {
+    return getFirestore().collection("inboundAddresses");
+}
+
+function forwardingAddressDoc(userId: string) {
+    return getFirestore().collection("users").doc(userId).collection("settings").doc("inboundEmail");
+}
+
+/**
+ * Domain that receives forwarded receipts (INBOUND_EMAIL_DOMAIN), e.g. "in.example.com".
+ */
+function getInboundDomain(): string | null {
+    return (process.env.INBOUND_EMAIL_DOMAIN || "").trim().toLowerCase() || null;
+}
+
+function forwardingAddressFor(token: string, domain: string): string {
+    const localPart = (process.env.INBOUND_EMAIL_LOCAL_PART || "receipts").trim().toLowerCase();
+    return `${localPart}+${token}@${domain}`;
+}
+
+/**
+ * Whether emails may also be matched to the user whose verified account email sent them
+ * (INBOUND_EMAIL_MATCH_SENDER, off by default). Only authenticated senders are matched.
+ */
+function matchSenderEnabled(): boolean {
+    return (process.env.INBOUND_EMAIL_MATCH_SENDER || "").trim().toLowerCase() === "true";
+}
+
+/**
+ * authserv-id of the receiving server (INBOUND_EMAIL_AUTHSERV_ID), e.g. "mx.google.com".
+ * Authentication-Results headers are only trusted when the topmost one carries it: any
+ * further down (or any at all, if the server adds none) may have been written by the sender.
+ */
+function getTrustedAuthservId(): string | null {
+    return (process.env.INBOUND_EMAIL_AUTHSERV_ID || "").trim().toLowerCase() || null;
+}
+
+/**
+ * Whether a domain that authenticated a message vouches for the From domain: the same
+ * domain or a parent of it (relaxed alignment, e.g. d=example.com for mail.example.com).
+ */
+function alignsWithFrom(domain: string, fromDomain: string): boolean {
+    const authenticated = domain.trim().toLowerCase().replace(/^@/, "");
+    return authenticated !== "" && (fromDomain === authenticated || fromDomain.endsWith(`.${authenticated}`));
+}
+
+/**
+ * Reads the receiving server's Authentication-Results header (RFC 8601): the From address is
+ * authentic if DMARC passed for the From domain, or a DKIM signature by the From domain passed.
+ * Headers from any other server, SPF (which checks the envelope sender) and DKIM signatures
+ * of other domains prove nothing about the From address.
+ */
+function authenticationResultsPass(value: string | undefined, fromDomain: string): boolean {
+    const authservId = getTrustedAuthservId();
+    if (!value || !authservId) {
+        return false;
+    }
+    const [server, ...results] = value.replace(/\([^)]*\)/g, "").split(";").map((segment) => segment.trim());
+    if (server.split(/\s+/)[0].toLowerCase() !== authservId) {
+        return false;
+    }
+
+    return results.some((result) => {
+        const method = /^(dkim|dmarc)\s*=\s*(\w+)/i.exec(result);
+        if (!method || method[2].toLowerCase() !== "pass") {
+            return false;
+        }
+        const property = (name: string) => new RegExp(`(?:^|\\s)${name}\\s*=\\s*"?([^\\s";]+)`, "i").exec(result)?.[1];
+        if (method[1].toLowerCase() === "dmarc") {
+            // DMARC is evaluated against the From domain; header.from names it when reported
+            const headerFrom = property("header\\.from");
+            return !headerFrom || headerFrom.toLowerCase() === fromDomain;
+        }
+        const signer = property("header\\.d") || property("header\\.i")?.split("@").pop();
+        return !!signer && alignsWithFrom(signer, fromDomain);
+    });
+}
+
+/**
+ * Reads SendGrid's "dkim" field, e.g. "{@example.com : pass, @esp.net : fail}": whether a
+ * signature by the From domain passed.
+ */
+function sendGridDkimPass(value: string | undefined, fromDomain: string): boolean {
+    return [...(value || "").matchAll(/@([^\s:,{}]+)\s*:\s*(\w+)/g)]
+        .some(([, domain, result]) => result.toLowerCase() === "pass" && alignsWithFrom(domain, fromDomain));
+}
+
+function domainOf(address: string | null): string {
+    return (address || "").split("@").pop()!.toLowerCase();
+}
+
+/**
+ * Collects the body and attachments of a MIME message, including the attachments of
+ * forwarded messages.
+ */
+function readMimeMessage(message: MimePart, envelopeRecipients: string[]): InboundEmail {
+    const from = parseAddresses(message.headers.from)[0] ?? null;
+    const email: InboundEmail = {
+        from,
+        recipients: [],
+        subject: decodeHeaderValue(message.headers.subject || ""),
+        messageId: message.headers["message-id"] || null,
+        date: message.headers.date || null,
+        text: null,
+        attachments: [],
+        // The topmost Authentication-Results header, the one the receiving server added
+        senderAuthenticated: !!from && authenticationResultsPass(message.headers["authentication-results"], domainOf(from))
+    };
+    email.recipients = [...new Set([
+        ...envelopeRecipients,
+        ...["to", "cc", "delivered-to", "x-original-to"].flatMap((header) => parseAddresses(message.headers[header]))
+    ])];
+
+    let html: string | null = null;
+    const visit = (part: MimePart, forwardDepth: number) => {
+        if (part.parts.length > 0) {
+            part.parts.forEach((child) => visit(child, forwardDepth));
+            return;
+        }
+        if (part.contentType === "message/rfc822" && forwardDepth < MAX_FORWARD_DEPTH) {
+            visit(parseMimeMessage(part.body, forwardDepth + 1), forwardDepth + 1);
+            return;
+        }
+        const fileName = partFileName(part);
+        if (fileName || part.disposition === "attachment" || !part.contentType.startsWith("text/")) {
+            email.attachments.push({
+                fileName: fileName || `attachment-${email.attachments.length + 1}`,
+                content: part.body,
+                inline: part.disposition !== "attachment" && (part.disposition === "inline" || !!part.headers["content-id"])
+            });
+        } else if (part.contentType === "text/plain" && email.text === null) {
+            email.text = partText(part);
+        } else if (part.contentType === "text/html" && html === null) {
+            html = partText(part);
+        }
+    };
+    visit(message, 0);
+
+    if (email.text === null && html !== null) {
+        email.text = htmlToText(html);
+    }
+    return email;
+}
+
+/**
+ * Reads a multipart/form-data webhook: a raw message in an "email" (SendGrid) or "body-mime"
+ * (Mailgun) field, or the provider's parsed fields and attached files.
+ */
+function readFormData(parts: MimePart[]): InboundEmail {
+    const fields: Record<string, string> = {};
+    const rawFields: Record<string, Buffer> = {};
+    const files: InboundAttachment[] = [];
+    for (const part of parts) {
+        const fileName = partFileName(part);
+        const name = part.dispositionParams.name || "";
+        if (fileName) {
+            files.push({ fileName, content: part.body, inline: false });
+        } else if (name) {
+            fields[name] = partText(part);
+            rawFields[name] = part.body;
+        }
+    }
+
+    const envelopeRecipients = parseAddresses(fields.recipient);
+    try {
+        const envelope = JSON.parse(fields.envelope || "{}");
+        if (Array.isArray(envelope.to)) {
+            envelopeRecipients.push(...envelope.to.flatMap((to: unknown) => parseAddresses(String(to))));
+        }
+    } catch {
+        console.warn("Ignoring an inbound email envelope that is not JSON");
+    }
+
+    const raw = rawFields.email || rawFields["body-mime"];
+    if (raw) {
+        return readMimeMessage(parseMimeMessage(raw), envelopeRecipients);
+    }
+
+    const headers = fields.headers ? parseMimeMessage(Buffer.from(`${fields.headers}\r\n\r\n`, "utf8")).headers : {};
+    const from = parseAddresses(fields.from || fields.sender)[0] ?? null;
+    return {
+        from,
+        recipients: [...new Set([...envelopeRecipients, ...parseAddresses(fields.to || fields.To), ...parseAddresses(fields.cc || fields.Cc)])],
+        subject: decodeHeaderValue(fields.subject || ""),
+        messageId: headers["message-id"] || fields["Message-Id"] || null,
+        date: headers.date || fields.Date || null,
+        text: fields.text || fields["body-plain"] || (fields.html || fields["body-html"] ? htmlToText(fields.html || fields["body-html"]) : null),
+        attachments: files,
+        senderAuthenticated: !!from && (authenticationResultsPass(headers["authentication-results"], domainOf(from)) ||
+            sendGridDkimPass(fields.dkim, domainOf(from)))
+    };
+}
+
+/**
+ * Finds whose receipts an email holds: the owner of a forwarding address it was sent to,
+ * else (if enabled) the user whose verified account email sent it.
+ */
+async function resolveEmailUser(email: InboundEmail): Promise<{ userId: string; address: string } | null> {
+    const domain = getInboundDomain();
+    if (domain) {
+        for (const recipient of email.recipients) {
+            const match = /^[^+@]+\+([0-9a-f]{16,64})@(.+)$/.exec(recipient);
+            if (!match || match[2] !== domain) {
+                continue;
+            }
+            const snapshot = await inboundAddressesCollection().doc(match[1]).get();
+            if (snapshot.exists) {
+                return { userId: (snapshot.data() as ForwardingAddress).userId, address: recipient };
+            }
+        }
+    }
+
+    if (matchSenderEnabled() && email.from && email.senderAuthenticated) {
+        try {
+            const user = await getAuth().getUserByEmail(email.from);
+            if (user.emailVerified && !user.disabled) {
+                return { userId: user.uid, address: email.recipients[0] || "" };
+            }
+        } catch (error) {
+            if ((error as { code?: string }).code !== "auth/user-not-found") {
+                throw error;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * The files of an email that go through the pipeline: attached images and PDFs (inline
+ * images only if nothing is attached), else the email's text when it is long enough.
+ */
+function receiptFiles(email: InboundEmail): { fileName: string; content: Buffer; contentType: string; part: EmailOrigin["part"] }[] {
+    const usable = email.attachments
+        .map((attachment) => ({ ...attachment, contentType: sniffMimeType(attachment.content) }))
+        .filter((attachment) => attachment.contentType && attachment.content.length <= MAX_ATTACHMENT_BYTES);
+    const attached = usable.filter((attachment) => !attachment.inline);
+    const files = (attached.length > 0 ? attached : usable).slice(0, MAX_ATTACHMENTS);
+    if (files.length > 0) {
+        return files.map((file) => ({ fileName: file.fileName, content: file.content, contentType: file.contentType!, part: "attachment" }));
+    }
+
+    const text = (email.text || "").trim();
+    if (text.length < MIN_BODY_TEXT_LENGTH) {
+        return [];
+    }
+    // The sender and subject often name the vendor, so they go to the model with the text
+    const document = [
+        `From: ${email.from || "unknown"}`,
+        `Subject: ${email.subject}`,
+        `Date: ${email.date || "unknown"}`,
+        "",
+        text
+    ].join("\n");
+    return [{ fileName: "email.txt", content: Buffer.from(document, "utf8"), contentType: "text/plain", part: "body" }];
+}
+
+/**
+ * Custom metadata of an emailed file, read back by originFromMetadata.
+ */
+function originMetadata(origin: EmailOrigin): Record<string, string> {
+    return {
+        receiptChannel: "email",
+        emailFrom: origin.from || "",
+        emailTo: origin.to,
+        emailSubject: origin.subject.substring(0, 500),
+        emailMessageId: origin.messageId || "",
+        emailReceivedAt: origin.receivedAt,
+        emailPart: origin.part,
+        emailAttachmentName: origin.attachmentName || ""
+    };
+}
+
+/**
+ * How an uploaded object arrived, from its path and custom metadata. Only files in the
+ * email folder (which clients cannot write to) are trusted to carry an email origin.
+ */
+export function originFromMetadata(filePath: string, metadata: Record<string, string> | undefined): ReceiptOrigin {
+    const [, , folder] = filePath.split("/");
+    if (folder !== EMAIL_FOLDER || metadata?.receiptChannel !== "email") {
+        return { channel: "app", email: null };
+    }
+    return {
+        channel: "email",
+        email: {
+            from: metadata.emailFrom || null,
+            to: metadata.emailTo || "",
+            subject: metadata.emailSubject || "",
+            messageId: metadata.emailMessageId || null,
+            receivedAt: metadata.emailReceivedAt || new Date().toISOString(),
+            part: metadata.emailPart === "body" ? "body" : "attachment",
+            attachmentName: metadata.emailAttachmentName || null
+        }
+    };
+}
+
+/**
+ * Cloud Function: Inbound Email Webhook
+ *
+ * Receives emails from an inbound email provider as a raw MIME message (message/rfc822) or
+ * multipart/form-data (SendGrid Inbound Parse, Mailgun routes), with INBOUND_EMAIL_SECRET in
+ * the "key" query parameter or the X-Inbound-Secret header. The email is matched to a user by
+ * the forwarding address it was sent to, or by its authenticated sender. Its receipt
+ * attachments (or its text, if it has none) are stored under receipts/{userId}/email/, where
+ * the upload trigger processes them like app uploads, with the email recorded as their origin.
+ *
+ * Unmatched emails are answered 200 so the provider does not retry them; storage failures
+ * are answered 500 so it does. A redelivered email finds its files stored and adds nothing.
+ */
+export const inboundEmail = onRequest(
+    {
+        region: "us-central1",
+        memory: "512MiB",
+        timeoutSeconds: 120,
+    },
+    async (req, res) => {
+        const expected = process.env.INBOUND_EMAIL_SECRET;
+        if (!expected) {
+            res.status(503).json({ error: "Inbound email is disabled (INBOUND_EMAIL_SECRET is not set)" });
+            return;
+        }
+        if (req.method !== "POST") {
+            res.status(405).json({ error: "Use POST" });
+            return;
+        }
+        const given = typeof req.query.key === "string" ? req.query.key : req.get("x-inbound-secret");
+        if (typeof given !== "string" || !secretsMatch(given, expected)) {
+            console.warn("Inbound email with a wrong secret");
+            res.status(401).json({ error: "Invalid secret" });
+            return;
+        }
+
+        const contentType = req.get("content-type") || "";
+        let email: InboundEmail;
+        if (/^multipart\/form-data/i.test(contentType)) {
+            email = readFormData(parseMultipartBody(req.rawBody, contentType));
+        } else if (/^(message\/rfc822|text\/plain|application\/octet-stream)/i.test(contentType)) {
+            email = readMimeMessage(parseMimeMessage(req.rawBody), []);
+        } else {
+            res.status(415).json({ error: "Send a raw MIME message (message/rfc822) or multipart/form-data" });
+            return;
+        }
+
+        const target = await resolveEmailUser(email);
+        if (!target) {
+            console.warn(`Inbound email from ${email.from} to ${email.recipients.join(", ")} matched no user`);
+            res.status(200).json({ accepted: 0, reason: "unknown_recipient" });
+            return;
+        }
+        const membership = await getMembership(await getOrgIdForUser(target.userId), target.userId);
+        if (membership?.role === "viewer") {
+            console.warn(`Inbound email for viewer ${target.userId} ignored`);
+            res.status(200).json({ accepted: 0, reason: "viewer" });
+            return;
+        }
+
+        const files = receiptFiles(email);
+        if (files.length === 0) {
+            console.log(`Inbound email ${email.messageId} for ${target.userId} holds no receipt`);
+            res.status(200).json({ accepted: 0, reason: "no_receipt" });
+            return;
+        }
+
+        // Keyed on the Message-ID (or content), so a redelivered email maps to the same files
+        const messageKey = createHash("sha256")
+            .update(email.messageId || req.rawBody)
+            .digest("hex")
+            .substring(0, 24);
+        const receivedAt = new Date().toISOString();
+        const bucket = getStorage().bucket();
+        const stored: string[] = [];
+
+        for (const [index, file] of files.entries()) {
+            const safeName = file.fileName.replace(/[^\w.-]+/g, "_").slice(-100) || "receipt";
+            const storagePath = `receipts/${target.userId}/${EMAIL_FOLDER}/${messageKey}/${index + 1}-${safeName}`;
+            const object = bucket.file(storagePath);
+            const [exists] = await object.exists();
+            if (exists) {
+                continue;
+            }
+
+            const origin: EmailOrigin = {
+                from: email.from,
+                to: target.address,
+                subject: email.subject,
+                messageId: email.messageId,
+                receivedAt,
+                part: file.part,
+                attachmentName: file.part === "attachment" ? file.fileName : null
+            };
+            await object.save(file.content, {
+                contentType: file.contentType,
+                resumable: false,
+                metadata: { metadata: originMetadata(origin) }
+            });
+            stored.push(storagePath);
+        }
+
+        console.log(`Inbound email ${email.messageId} from ${email.from}: ${stored.length} files stored for user ${target.userId}`);
+        res.status(200).json({ accepted: stored.length, files: stored });
+    }
+);
+
+/**
+ * Creates a forwarding address for a user, replacing the previous one.
+ */
+async function issueForwardingAddress(userId: string, domain: string, previous: ForwardingAddress | null): Promise<ForwardingAddress> {
+    const token = randomBytes(12).toString("hex");
+    const forwarding: ForwardingAddress = {
+        userId,
+        token,
+        address: forwardingAddressFor(token, domain),
+        createdAt: new Date().toISOString()
+    };
+
+    const batch = getFirestore().batch();
+    batch.create(inboundAddressesCollection().doc(token), forwarding);
+    batch.set(forwardingAddressDoc(userId), forwarding);
+    if (previous) {
+        batch.delete(inboundAddressesCollection().doc(previous.token));
+    }
+    await batch.commit();
+    return forwarding;
+}
+
+/**
+ * Checks inbound email is configured and the caller may add receipts (not an organization viewer).
+ */
+async function requireForwardingAllowed(userId: string): Promise<string> {
+    const domain = getInboundDomain();
+    if (!domain) {
+        throw new HttpsError("failed-precondition", "Inbound email is not configured (INBOUND_EMAIL_DOMAIN is not set)");
+    }
+    const membership = await getMembership(await getOrgIdForUser(userId), userId);
+    if (membership?.role === "viewer") {
+        throw new HttpsError("permission-denied", "Viewers cannot add receipts");
+    }
+    return domain;
+}
+
+/**
+ * Cloud Function: Get the Caller's Forwarding Address
+ *
+ * Returns the address the caller (and their vendors) send receipts to, creating it on first use.
+ */
+export const getForwardingAddress = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const userId = requireAuth(request);
+        const domain = await requireForwardingAllowed(userId);
+
+        const snapshot = await forwardingAddressDoc(userId).get();
+        const forwarding = snapshot.exists
+            ? snapshot.data() as ForwardingAddress
+            : await issueForwardingAddress(userId, domain, null);
+        return { address: forwarding.address, createdAt: forwarding.createdAt };
+    }
+);
+
+/**
+ * Cloud Function: Rotate the Caller's Forwarding Address
+ *
+ * Replaces the caller's forwarding address with a new one; email to the old one is no
+ * longer matched to them.
+ */
+export const rotateForwardingAddress = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const userId = requireAuth(request);
+        const domain = await requireForwardingAllowed(userId);
+
+        const snapshot = await forwardingAddressDoc(userId).get();
+        const forwarding = await issueForwardingAddress(userId, domain, (snapshot.data() as ForwardingAddress | undefined) ?? null);
+
+        console.log(`Forwarding address of user ${userId} rotated`);
+        return { address: forwarding.address, createdAt: forwarding.createdAt };
+    }
+);
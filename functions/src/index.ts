@@ -6,22 +6,16 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 import { onObjectFinalized } from "firebase-functions/v2/storage";
-import { onCall } from "firebase-functions/v2/https";
-import { getStorage } from "firebase-admin/storage";
 import { initializeApp } from "firebase-admin/app";
-import { getFirestore } from "firebase-admin/firestore";
-import { getAuth } from "firebase-admin/auth";
 
 // Initialize the Firebase Admin SDK once for all functions
 initializeApp();
-const storage = getStorage();
-const db = getFirestore();
-const auth = getAuth();
 
 // --- Import the main processor logic ---
-import { processReceiptBatch } from "./processor"; 
-import { ReceiptData } from "./schema";
-import { appendReceiptToSheet } from "./sheets"; 
+import { createReceiptRecord } from "./receipts";
+import { getOrgIdForUser } from "./organizations";
+import { processReceiptObject, recordProcessingFailure } from "./ingest";
+import { originFromMetadata } from "./inbound";
 
 /**
  * Cloud Function Trigger: Activates when a new file is uploaded to Firebase Storage.
@@ -33,6 +27,8 @@ export const analyzeReceiptUpload = onObjectFinalized(
         region: "us-central1", // Use a region near your Firestore/Gemini location
         maxInstances: 5, // Limit concurrent runs for cost control
         memory: "1GiB", // Increase memory for image processing and AI API calls
+        timeoutSeconds: 300, // Leave room for model/Sheets retries with backoff
+        retry: true, // Redeliver when the export step fails; processing is idempotent per object generation
     },
     async (event) => {
     
@@ -56,210 +52,104 @@ export const analyzeReceiptUpload = onObjectFinalized(
 
     console.log(`Starting analysis for file: ${filePath}`);
 
-    try {
-        // 2. Download the File Buffer from Storage
-        const bucket = storage.bucket(bucketName);
-        const [fileBuffer] = await bucket.file(filePath).download();
-        
-        // 3. Extract necessary metadata (userId, filename)
-        // Assume path format is: receipts/{userId}/{filename}
-        const pathParts = filePath.split('/');
-        const userId = pathParts[1];
-        const fileName = pathParts.pop();
-
-        if (!userId) {
-            console.error(`Could not determine userId from path: ${filePath}`);
-            // TODO: Log status to Firestore as 'error'
-            return;
-        }
+    // Extract necessary metadata (userId)
+    // Assume path format is: receipts/{userId}/{filename}
+    const pathParts = filePath.split('/');
+    const userId = pathParts[1];
 
-        // 4. Call the core processor function (defined in processor.ts)
-        const receiptData: ReceiptData = await processReceiptBatch(fileBuffer, filePath);
+    if (!userId || pathParts.length < 3) {
+        console.error(`Could not determine userId from path: ${filePath}`);
+        return;
+    }
 
-        // 5. Append data to Google Sheets (Steps 8-9)
-        const sheetId = process.env.GOOGLE_SHEET_ID;
-        let sheetsWriteSuccess = false;
-        let googleSheetLink = null;
-        
-        // Debug logging for environment variables
-        console.log("Environment check:", {
-            hasSheetId: !!sheetId,
-            sheetIdLength: sheetId?.length || 0,
-            hasServiceAccountKey: !!process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY,
-            hasGeminiKey: !!process.env.GEMINI_API_KEY
-        });
-        
-        if (sheetId) {
-            try {
-                await appendReceiptToSheet(receiptData, sheetId);
-                console.log(`Receipt data successfully written to Google Sheet: ${sheetId}`);
-                sheetsWriteSuccess = true;
-                googleSheetLink = `https://docs.google.com/spreadsheets/d/${sheetId}/edit`;
-            } catch (sheetsError) {
-                // Log Sheets error but don't fail the entire operation
-                // The receipt was processed successfully, Sheets write is secondary
-                console.error(`Failed to write to Google Sheet: ${(sheetsError as Error).message}`);
-                console.error("Full error:", sheetsError);
-            }
-        } else {
-            console.error("❌ GOOGLE_SHEET_ID not set in environment variables!");
-            console.error("This means environment variables are not configured for the deployed function.");
-            console.error("For Firebase Functions 2nd Gen, you need to set environment variables via:");
-            console.error("1. Google Cloud Console → Cloud Functions → Environment Variables");
-            console.error("2. OR Firebase Functions Secrets");
-        }
+    // Every processed file gets its own ledger entry (users/{userId}/receipts/{receiptId})
+    let receiptId: string | null = null;
 
-        // 6. Update Firestore Status (Step 10)
-        await db.collection('batches').doc(userId).set({
-            status: 'complete',
-            lastFileProcessed: fileName,
-            receiptData: receiptData, // Store the extracted data for reference
-            sheetsWriteSuccess: sheetsWriteSuccess,
-            googleSheetLink: googleSheetLink,
-            timestamp: new Date().toISOString()
-        }, { merge: true });
-
-        // 7. Update user statistics in /users collection
-        const userRef = db.collection('users').doc(userId);
-        const userDoc = await userRef.get();
-        const currentStats = userDoc.exists ? (userDoc.data() || { totalReceipts: 0, totalAmount: 0 }) : { totalReceipts: 0, totalAmount: 0 };
-        
-        await userRef.set({
-            totalReceipts: (currentStats.totalReceipts || 0) + 1,
-            totalAmount: (currentStats.totalAmount || 0) + (receiptData.totalAmount || 0),
-            lastUpdated: new Date().toISOString(),
-            lastReceiptProcessed: fileName,
-            lastReceiptTimestamp: new Date().toISOString()
-        }, { merge: true });
+    try {
+        // Keyed on the object generation, so a redelivered event finds the same entry
+        const generation = file.generation ? String(file.generation) : event.id;
+        const orgId = await getOrgIdForUser(userId);
+        // Emailed files (see inbound.ts) carry the email in their custom metadata
+        const origin = originFromMetadata(filePath, file.metadata);
+        receiptId = await createReceiptRecord(userId, orgId, filePath, bucketName, generation, origin);
 
-        console.log(`Analysis complete for ${fileName}. Data:`, receiptData);
+        // Steps 2-10 (see ingest.ts)
+        await processReceiptObject(userId, receiptId, bucketName, filePath);
 
     } catch (error) {
         console.error(`FATAL ERROR processing file ${filePath}:`, error);
         
-        // Update Firestore status to error (Step 10)
-        const pathParts = filePath.split('/');
-        const userId = pathParts[1] || 'unknown';
-        await db.collection('batches').doc(userId).set({
-            status: 'error',
-            errorFile: filePath,
-            errorMessage: (error as Error).message,
-            timestamp: new Date().toISOString()
-        }, { merge: true });
+        // Record the failure in the ledger, dead-letter store and "latest" status pointer
+        const extractionFailed = await recordProcessingFailure(userId, receiptId, filePath, error);
+
+        if (!extractionFailed) {
+            // The receipt was extracted but the export step failed: let the platform
+            // redeliver the event, which resumes the export instead of re-extracting
+            throw error;
+        }
     }
 });
 
-/**
- * Cloud Function: Set Admin Custom Claim
- * 
- * This function allows an existing admin (or super-admin) to grant admin privileges
- * to a user by setting a custom claim on their auth token.
- * 
- * Usage (via Firebase Console or HTTP call):
- * - Call this function with the target user's UID
- * - Only callable by authenticated users (you can add additional checks)
- * 
- * Security: In production, you should add additional checks to ensure only
- * authorized users can call this function (e.g., check if caller is already admin).
- */
-export const setAdminClaim = onCall(
-    {
-        region: "us-central1",
-    },
-    async (request) => {
-        // Get the target user UID from the request
-        const targetUserId = request.data.uid;
-        
-        if (!targetUserId) {
-            throw new Error("User UID is required");
-        }
+// Admin role and audit log callables (see roles.ts)
+export { bootstrapAdmin, setAdminClaim, removeAdminClaim, listAuditLog } from "./roles";
 
-        // Optional: Verify the caller is already an admin
-        // For initial setup, you might want to skip this check
-        const callerUid = request.auth?.uid;
-        if (callerUid) {
-            try {
-                const caller = await auth.getUser(callerUid);
-                if (!caller.customClaims?.admin) {
-                    // Optional: Allow if no admins exist yet (bootstrap scenario)
-                    const allUsers = await auth.listUsers();
-                    const hasAdmin = allUsers.users.some(u => u.customClaims?.admin);
-                    if (hasAdmin) {
-                        throw new Error("Only existing admins can grant admin privileges");
-                    }
-                }
-            } catch (error) {
-                // Re-throw authorization errors instead of silently suppressing them
-                if (error instanceof Error && error.message.includes("Only existing admins")) {
-                    throw error;
-                }
-                console.error("Error checking caller admin status:", error);
-                // For initial setup, allow the call only for non-authorization errors
-            }
-        }
+// Receipt management callables (see ledger.ts)
+export { listReceipts, getReceipt, updateReceipt, deleteReceipt, reprocessReceipt } from "./ledger";
 
-        try {
-            // Set the custom claim
-            await auth.setCustomUserClaims(targetUserId, { admin: true });
-            
-            console.log(`Admin claim set for user: ${targetUserId}`);
-            
-            return {
-                success: true,
-                message: `Admin privileges granted to user ${targetUserId}`,
-            };
-        } catch (error) {
-            console.error(`Error setting admin claim for ${targetUserId}:`, error);
-            throw new Error(`Failed to set admin claim: ${(error as Error).message}`);
-        }
-    }
-);
+// Review queue callables (see review.ts)
+export { listReviewQueue, approveReceipt, editAndApproveReceipt, rejectReceipt } from "./review";
 
-/**
- * Cloud Function: Remove Admin Custom Claim
- * 
- * Removes admin privileges from a user.
- */
-export const removeAdminClaim = onCall(
-    {
-        region: "us-central1",
-    },
-    async (request) => {
-        const targetUserId = request.data.uid;
-        
-        if (!targetUserId) {
-            throw new Error("User UID is required");
-        }
+// Duplicate confirmation callable (see duplicates.ts)
+export { resolveDuplicate } from "./duplicates";
 
-        // Verify caller is authenticated and is admin
-        const callerUid = request.auth?.uid;
-        if (!callerUid) {
-            throw new Error("Unauthorized: Authentication required");
-        }
-        
-        try {
-            const caller = await auth.getUser(callerUid);
-            if (!caller.customClaims?.admin) {
-                throw new Error("Only admins can remove admin privileges");
-            }
-        } catch (error) {
-            throw new Error("Unauthorized: Admin privileges required");
-        }
+// Sheet destination callables (see sheetDestinations.ts)
+export { getSheetDestination, setSheetDestination, clearSheetDestination } from "./sheetDestinations";
 
-        try {
-            await auth.setCustomUserClaims(targetUserId, { admin: false });
-            console.log(`Admin claim removed for user: ${targetUserId}`);
-            
-            return {
-                success: true,
-                message: `Admin privileges removed from user ${targetUserId}`,
-            };
-        } catch (error) {
-            console.error(`Error removing admin claim for ${targetUserId}:`, error);
-            throw new Error(`Failed to remove admin claim: ${(error as Error).message}`);
-        }
-    }
-);
+// Sheet reconciliation callable (see sheetSync.ts)
+export { reconcileSheet } from "./sheetSync";
+
+// Dead-letter admin callables (see redrive.ts)
+export { listDeadLetters, redriveDeadLetters } from "./redrive";
+
+// Category taxonomy callables (see categories.ts)
+export { listCategories, createCategory, updateCategory, deleteCategory } from "./categories";
+
+// Vendor alias and category rule callables (see vendors.ts and categoryRules.ts)
+export { listVendors, saveVendor, deleteVendor, resolveAliasProposal } from "./vendors";
+export { listCategoryRules, saveCategoryRule, deleteCategoryRule, resolveRuleProposal } from "./categoryRules";
+
+// Accounting export callable (see exports.ts)
+export { exportReceipts } from "./exports";
+
+// Spending rollup callables (see rollups.ts)
+export { getSpendingRollups, rebuildRollups } from "./rollups";
+
+// Budget callables (see budgets.ts)
+export { listBudgets, saveBudget, deleteBudget, getBudgetStatus } from "./budgets";
+
+// Organization membership callables (see organizations.ts)
+export { createOrganization, listMembers, inviteMember, listMyInvites, acceptInvite, setMemberRole, removeMember } from "./organizations";
+
+// Currency callables (see currency.ts)
+export { setBaseCurrency, uploadExchangeRates } from "./currency";
+
+// Inbound email webhook and forwarding address callables (see inbound.ts)
+export { inboundEmail, getForwardingAddress, rotateForwardingAddress } from "./inbound";
+
+// Backfill callables (see backfill.ts)
+export { startBackfill, resumeBackfill, getBackfill, applyBackfill, discardBackfill } from "./backfill";
+
+// Webhook subscription and delivery callables, and the scheduled delivery retries (see webhooks.ts)
+export {
+    createWebhookSubscription,
+    listWebhookSubscriptions,
+    updateWebhookSubscription,
+    deleteWebhookSubscription,
+    listWebhookDeliveries,
+    sendTestWebhook,
+    replayWebhookDelivery,
+    retryWebhookDeliveries
+} from "./webhooks";
 
 // Reminder: Add your .env configuration for GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY
-// and GOOGLE_SHEET_ID before deploying.
+// and GOOGLE_SHEET_ID (the default Sheet for users without their own) before deploying.
@@ -0,0 +1,264 @@
+// functions/src/ingest.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { processReceiptBatch } from "./processor";
+import { ReceiptData } from "./schema";
+import {
+    claimProcessing,
+    createSplitReceiptRecords,
+    ReceiptRecord,
+    getReceiptRecord,
+    markExtractionFailed,
+    updateReceiptRecord
+} from "./receipts";
+import { resumeExport, routeExtractedReceipt } from "./pipeline";
+import { hashContent } from "./extraction";
+import {
+    findExactDuplicate,
+    findLikelyDuplicate,
+    getDuplicateAmountTolerance,
+    holdAsDuplicate
+} from "./duplicates";
+import { recordDeadLetter } from "./deadLetters";
+import { emitReceiptEvent } from "./webhooks";
+import { SupportedMimeType, getImageMaxDimension, prepareFile, sniffMimeType, thumbnailPathFor } from "./media";
+import { loadTaxonomy } from "./taxonomy";
+import { getOrgIdForUser } from "./organizations";
+import { loadVendorRules } from "./categoryRules";
+import { loadCurrencyContext } from "./currency";
+
+/**
+ * Where a processing run left the receipt.
+ */
+export type ProcessingOutcome = "skipped" | "exported" | "pending_review" | "duplicate" | "rejected";
+
+/**
+ * The type of a receipt's stored file: sniffed from its content, except email text, which
+ * has no magic bytes and is only accepted where the email ingestion stored it.
+ */
+export function detectMimeType(record: ReceiptRecord, fileBuffer: Buffer): SupportedMimeType | null {
+    return sniffMimeType(fileBuffer) || (record.origin?.email?.part === "body" ? "text/plain" : null);
+}
+
+/**
+ * Rejects an upload that is not an image or PDF, without calling the model.
+ */
+async function rejectUpload(userId: string, receiptId: string, filePath: string, errorMessage: string): Promise<void> {
+    await updateReceiptRecord(userId, receiptId, { status: "rejected", errorMessage });
+
+    // Update the "latest" status pointer
+    await getFirestore().collection("batches").doc(userId).set({
+        status: "rejected",
+        receiptId: receiptId,
+        errorFile: filePath,
+        errorMessage,
+        timestamp: new Date().toISOString()
+    }, { merge: true });
+
+    console.warn(`Rejected ${filePath}: ${errorMessage}`);
+}
+
+/**
+ * Saves the thumbnail of an uploaded image next to it, under thumbnails/ (which
+ * the trigger ignores). A failure here is logged and never fails the receipt.
+ */
+async function storeThumbnail(
+    userId: string,
+    receiptId: string,
+    bucketName: string,
+    filePath: string,
+    thumbnail: Buffer
+): Promise<void> {
+    const thumbnailPath = thumbnailPathFor(filePath);
+    try {
+        await getStorage().bucket(bucketName).file(thumbnailPath).save(thumbnail, {
+            contentType: "image/jpeg",
+            resumable: false
+        });
+        await updateReceiptRecord(userId, receiptId, { thumbnailPath });
+    } catch (error) {
+        console.warn(`Failed to store thumbnail ${thumbnailPath}:`, error);
+    }
+}
+
+/**
+ * Sends a freshly extracted receipt on: held back as a likely duplicate
+ * (same vendor + date + total), the review queue, or the Sheet and user statistics.
+ * A duplicate the user chose to keep skips the duplicate check.
+ */
+async function routeNewReceipt(
+    userId: string,
+    receiptId: string,
+    fileName: string,
+    receiptData: ReceiptData,
+    checkDuplicates = true
+): Promise<ProcessingOutcome> {
+    const likelyOriginal = checkDuplicates
+        ? await findLikelyDuplicate(userId, receiptData, receiptId, getDuplicateAmountTolerance())
+        : null;
+    if (likelyOriginal) {
+        await holdAsDuplicate(userId, receiptId, fileName, likelyOriginal, "likely", receiptData);
+        return "duplicate";
+    }
+
+    const status = await routeExtractedReceipt(userId, receiptId, fileName, receiptData);
+    if (status === "exported") {
+        console.log(`Analysis complete for ${fileName}. Data:`, receiptData);
+    }
+    return status;
+}
+
+/**
+ * Routes an additional receipt split from a multi-receipt file, picking up
+ * where a previous delivery left off. Only called while the upload's own entry
+ * is claimed, so the split entries need no lease of their own.
+ */
+async function routeSplitReceipt(userId: string, receiptId: string, fileName: string): Promise<ProcessingOutcome> {
+    const record = await getReceiptRecord(userId, receiptId);
+    if (!record || !record.receiptData) {
+        throw new Error(`Split receipt ${receiptId} has no extracted data`);
+    }
+
+    if (record.status === "received" || record.status === "extracting") {
+        return routeNewReceipt(userId, receiptId, fileName, record.receiptData);
+    }
+    if (record.status === "extracted") {
+        await resumeExport(userId, receiptId);
+        return "exported";
+    }
+    return "skipped";
+}
+
+/**
+ * Runs a ledger entry through the pipeline: claim, download, duplicate checks,
+ * extraction, then the review queue or the Sheet and user statistics.
+ * Used by the storage trigger and by dead-letter re-drives.
+ *
+ * A file with several receipts (multi-page PDF, receipts side by side) keeps the
+ * first on the upload's entry; each further receipt gets its own entry (and Sheet row).
+ *
+ * @throws Error if any step fails; pass it to recordProcessingFailure
+ */
+export async function processReceiptObject(
+    userId: string,
+    receiptId: string,
+    bucketName: string,
+    filePath: string
+): Promise<ProcessingOutcome> {
+    const fileName = filePath.split("/").pop() || filePath;
+
+    const action = await claimProcessing(userId, receiptId);
+    if (action === "skip") {
+        console.log(`Receipt ${receiptId} already handled or being extracted; ignoring redelivered event`);
+        return "skipped";
+    }
+    if (action === "resume_export") {
+        // A previous run extracted the receipt but did not finish the Sheet/stats step
+        console.log(`Resuming export of receipt ${receiptId}`);
+        await resumeExport(userId, receiptId);
+        return "exported";
+    }
+
+    // 2. Download the File Buffer from Storage
+    const bucket = getStorage().bucket(bucketName);
+    const [fileBuffer] = await bucket.file(filePath).download();
+
+    // 3. Check what the file really is (magic bytes, not the extension): only images and PDFs,
+    //    and the text of emails without a receipt attachment
+    const record = await getReceiptRecord(userId, receiptId);
+    const mimeType = record ? detectMimeType(record, fileBuffer) : sniffMimeType(fileBuffer);
+    if (!mimeType) {
+        await rejectUpload(userId, receiptId, filePath,
+            "Unsupported file type: upload a JPEG, PNG, GIF, WebP or HEIC image, or a PDF");
+        return "rejected";
+    }
+    const contentHash = hashContent(fileBuffer);
+    await updateReceiptRecord(userId, receiptId, { contentHash, mimeType });
+
+    // 4. Convert HEIC, fix the EXIF orientation, downscale oversized images and store a thumbnail
+    const prepared = await prepareFile(fileBuffer, mimeType, getImageMaxDimension());
+    if (prepared.changes.length > 0) {
+        console.log(`Prepared ${fileName} for extraction: ${prepared.changes.join(", ")} (${fileBuffer.length} -> ${prepared.buffer.length} bytes)`);
+    }
+    if (prepared.thumbnail) {
+        await storeThumbnail(userId, receiptId, bucketName, filePath, prepared.thumbnail);
+    }
+
+    // 5. Hold back exact duplicates (same file content) before spending a model call, unless the
+    //    user already kept this one as a separate receipt. The duplicate has no data of its own
+    //    until it is kept and extracted
+    const checkDuplicates = !record?.duplicateKept;
+    const exactOriginal = checkDuplicates ? await findExactDuplicate(userId, contentHash, receiptId) : null;
+    if (exactOriginal) {
+        await holdAsDuplicate(userId, receiptId, fileName, exactOriginal, "exact", null);
+        return "duplicate";
+    }
+
+    // 6. Call the core processor function (defined in processor.ts) with the categories, vendor
+    //    aliases, category rules and base currency of the uploader's organization: one result
+    //    per receipt in the file
+    const orgId = record?.orgId || await getOrgIdForUser(userId);
+    const [taxonomy, vendorRules, currency] = await Promise.all([
+        loadTaxonomy(orgId),
+        loadVendorRules(orgId, userId),
+        loadCurrencyContext(orgId)
+    ]);
+    const [receiptData, ...splitReceipts] = await processReceiptBatch(
+        prepared.buffer, filePath, taxonomy, vendorRules, currency, prepared.mimeType
+    );
+
+    // 7. Additional receipts get their own ledger entries. They are routed before the
+    //    upload's entry, so a redelivered event (which only finds the upload's entry unfinished)
+    //    also finishes them
+    if (splitReceipts.length > 0) {
+        const parent = await getReceiptRecord(userId, receiptId);
+        const splitIds = await createSplitReceiptRecords(parent!, splitReceipts);
+        console.log(`${fileName} holds ${splitReceipts.length + 1} receipts; split into ${splitIds.join(", ")}`);
+
+        for (const splitId of splitIds) {
+            await routeSplitReceipt(userId, splitId, fileName);
+        }
+    }
+
+    // 8. Likely duplicates, review queue, or Google Sheets + ledger + user statistics (Steps 8-10)
+    return routeNewReceipt(userId, receiptId, fileName, receiptData, checkDuplicates);
+}
+
+/**
+ * Records a processing failure in the ledger, the dead-letter store and the
+ * "latest" status pointer (Step 10).
+ *
+ * @returns Promise<boolean> - False if the receipt was already extracted and only the
+ *          export step failed; the caller should let that be retried instead
+ */
+export async function recordProcessingFailure(
+    userId: string,
+    receiptId: string | null,
+    filePath: string,
+    error: unknown
+): Promise<boolean> {
+    const errorMessage = (error as Error)?.message || String(error);
+
+    const extractionFailed = receiptId
+        ? await markExtractionFailed(userId, receiptId, errorMessage)
+        : true;
+
+    if (!extractionFailed) {
+        return false;
+    }
+
+    if (receiptId) {
+        await recordDeadLetter("extraction", userId, receiptId, filePath, error);
+        await emitReceiptEvent("receipt.failed", userId, receiptId);
+    }
+
+    await getFirestore().collection('batches').doc(userId).set({
+        status: 'error',
+        receiptId: receiptId,
+        errorFile: filePath,
+        errorMessage,
+        timestamp: new Date().toISOString()
+    }, { merge: true });
+    return true;
+}
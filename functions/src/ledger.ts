@@ -0,0 +1,469 @@
+// functions/src/ledger.ts
+
+import { getFirestore, DocumentSnapshot, Query } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { ReceiptData } from "./schema";
+import { ReceiptRecord, ReceiptStatus, getReceiptRecord, receiptsCollection } from "./receipts";
+import { ProcessingOutcome, processReceiptObject, recordProcessingFailure } from "./ingest";
+import { applyReceiptEdits } from "./review";
+import { ReceiptValidationError } from "./validation";
+import { loadTaxonomy } from "./taxonomy";
+import { convertReceipt, loadCurrencyContext } from "./currency";
+import { recordCorrections } from "./categoryRules";
+import { rollupWrites } from "./rollups";
+import { evaluateBudgets } from "./budgets";
+import { removeReceiptRows, syncReceiptRows } from "./sheetSync";
+import { recordDeadLetter } from "./deadLetters";
+import {
+    MANAGER_ROLES,
+    REVIEWER_ROLES,
+    getMembership,
+    getOrgIdForUser,
+    requireOrgRole,
+    resolveReceiptUser,
+    resolveTargetOrg
+} from "./organizations";
+import { isAdmin, requireAuth, resolveTargetUser } from "./access";
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Most ledger entries one listReceipts call reads while filtering. A page may come back
+ * short (with a cursor) when few entries match; call again with the cursor for more.
+ */
+const MAX_SCANNED = 1000;
+const SCAN_CHUNK = 200;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const STATUSES: ReceiptStatus[] = [
+    "received", "extracting", "extracted", "exported", "pending_review", "duplicate", "rejected", "error"
+];
+
+/**
+ * Filters of listReceipts. Data filters (dates, category, vendor, amounts) only match
+ * receipts with extracted data.
+ */
+interface ReceiptFilters {
+    status: ReceiptStatus | null;
+    from: string | null; // Transaction date, YYYY-MM-DD, inclusive
+    to: string | null;
+    category: string | null; // Exact category name
+    vendor: string | null; // Case-insensitive part of the vendor name
+    minAmount: number | null; // Total as printed, inclusive
+    maxAmount: number | null;
+}
+
+function parseFilters(data: Record<string, unknown>): ReceiptFilters {
+    const text = (key: string): string | null => {
+        const value = data[key];
+        if (value === undefined || value === null || value === "") {
+            return null;
+        }
+        if (typeof value !== "string") {
+            throw new HttpsError("invalid-argument", `${key} must be a string`);
+        }
+        return value.trim();
+    };
+    const amount = (key: string): number | null => {
+        const value = data[key];
+        if (value === undefined || value === null) {
+            return null;
+        }
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new HttpsError("invalid-argument", `${key} must be a number`);
+        }
+        return value;
+    };
+
+    const filters: ReceiptFilters = {
+        status: text("status") as ReceiptStatus | null,
+        from: text("from"),
+        to: text("to"),
+        category: text("category"),
+        vendor: text("vendor")?.toLowerCase() || null,
+        minAmount: amount("minAmount"),
+        maxAmount: amount("maxAmount")
+    };
+    if (filters.status !== null && !STATUSES.includes(filters.status)) {
+        throw new HttpsError("invalid-argument", `status must be one of: ${STATUSES.join(", ")}`);
+    }
+    if ((filters.from !== null && !ISO_DATE.test(filters.from)) || (filters.to !== null && !ISO_DATE.test(filters.to))) {
+        throw new HttpsError("invalid-argument", "from and to must be dates (YYYY-MM-DD)");
+    }
+    return filters;
+}
+
+function matchesFilters(record: ReceiptRecord, filters: ReceiptFilters): boolean {
+    const { from, to, category, vendor, minAmount, maxAmount } = filters;
+    if (from === null && to === null && category === null && vendor === null && minAmount === null && maxAmount === null) {
+        return true;
+    }
+    const receiptData = record.receiptData;
+    if (!receiptData) {
+        return false;
+    }
+    return (from === null || receiptData.transactionDate >= from) &&
+        (to === null || receiptData.transactionDate <= to) &&
+        (category === null || receiptData.category === category) &&
+        (vendor === null || (receiptData.vendorName || "").toLowerCase().includes(vendor)) &&
+        (minAmount === null || receiptData.totalAmount >= minAmount) &&
+        (maxAmount === null || receiptData.totalAmount <= maxAmount);
+}
+
+/**
+ * Reads the receiptId argument of the receipt callables.
+ */
+function parseReceiptId(request: CallableRequest): string {
+    const receiptId = request.data?.receiptId;
+    if (typeof receiptId !== "string" || !receiptId || receiptId.includes("/")) {
+        throw new HttpsError("invalid-argument", "receiptId is required");
+    }
+    return receiptId;
+}
+
+/**
+ * Loads a receipt for a callable.
+ *
+ * @throws HttpsError("not-found") if it does not exist
+ */
+async function loadReceipt(userId: string, receiptId: string): Promise<ReceiptRecord> {
+    const record = await getReceiptRecord(userId, receiptId);
+    if (!record) {
+        throw new HttpsError("not-found", `Receipt ${receiptId} not found`);
+    }
+    return record;
+}
+
+/**
+ * Fails if the caller is changing their own receipt while only a viewer in its organization.
+ */
+async function requireNotViewer(request: CallableRequest, record: ReceiptRecord): Promise<void> {
+    if (await isAdmin(request) || record.userId !== request.auth?.uid) {
+        return; // Others passed resolveReceiptUser with a manager or reviewer role
+    }
+    const membership = await getMembership(record.orgId || await getOrgIdForUser(record.userId), record.userId);
+    if (membership?.role === "viewer") {
+        throw new HttpsError("permission-denied", "Viewers cannot change receipts");
+    }
+}
+
+/**
+ * Deletes a receipt's file and thumbnail from Storage, unless other receipts were split
+ * from the same file. Missing objects are ignored; failures are only logged.
+ */
+async function deleteStoredFiles(record: ReceiptRecord): Promise<boolean> {
+    const sharing = await receiptsCollection(record.userId).where("storagePath", "==", record.storagePath).limit(1).get();
+    if (!sharing.empty) {
+        console.log(`Keeping ${record.storagePath}: other receipts were split from it`);
+        return false;
+    }
+    try {
+        const bucket = getStorage().bucket(record.bucket);
+        await bucket.file(record.storagePath).delete({ ignoreNotFound: true });
+        if (record.thumbnailPath) {
+            await bucket.file(record.thumbnailPath).delete({ ignoreNotFound: true });
+        }
+        return true;
+    } catch (error) {
+        console.error(`Failed to delete ${record.storagePath}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Cloud Function: List Receipts
+ *
+ * Returns a page of receipts, newest upload first: { scope?: "personal" | "organization",
+ * userId?, orgId?, status?, from?, to? (transaction dates, YYYY-MM-DD), category?, vendor?,
+ * minAmount?, maxAmount?, pageSize?, cursor? }. Callers list their own receipts; admins may
+ * pass userId, and an organization's owners, admins and approvers may list its receipts.
+ * Pass the returned nextCursor to get the next page (null when there are no more).
+ */
+export const listReceipts = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const data = (request.data || {}) as Record<string, unknown>;
+        const scope = data.scope ?? "personal";
+        if (scope !== "personal" && scope !== "organization") {
+            throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+        }
+        const filters = parseFilters(data);
+        const pageSize = Math.min(Math.max(Number(data.pageSize) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+        let query: Query;
+        let inScope: (snapshot: DocumentSnapshot) => boolean;
+        if (scope === "organization") {
+            const orgId = await resolveTargetOrg(request, data.orgId);
+            await requireOrgRole(request, orgId, REVIEWER_ROLES);
+            query = getFirestore().collectionGroup("receipts").where("orgId", "==", orgId);
+            inScope = (snapshot) => snapshot.get("orgId") === orgId;
+        } else {
+            const userId = await resolveTargetUser(request, data.userId);
+            query = receiptsCollection(userId);
+            inScope = (snapshot) => snapshot.ref.parent.path === receiptsCollection(userId).path;
+        }
+        if (filters.status) {
+            query = query.where("status", "==", filters.status);
+        }
+        query = query.orderBy("createdAt", "desc");
+
+        // The cursor is the path of the last entry read, so the next page starts after it
+        let last: DocumentSnapshot | null = null;
+        if (data.cursor !== undefined && data.cursor !== null) {
+            if (typeof data.cursor !== "string" || !data.cursor) {
+                throw new HttpsError("invalid-argument", "cursor must be a nextCursor from a previous call");
+            }
+            try {
+                last = await getFirestore().doc(data.cursor).get();
+            } catch {
+                last = null; // Not a document path
+            }
+            if (!last?.exists || !inScope(last)) {
+                throw new HttpsError("invalid-argument", "cursor must be a nextCursor from a previous call");
+            }
+        }
+
+        const receipts: ReceiptRecord[] = [];
+        let scanned = 0;
+        let exhausted = false;
+        while (receipts.length < pageSize && scanned < MAX_SCANNED) {
+            const chunk = await (last ? query.startAfter(last) : query).limit(SCAN_CHUNK).get();
+            for (const doc of chunk.docs) {
+                last = doc;
+                scanned++;
+                const record = doc.data() as ReceiptRecord;
+                if (matchesFilters(record, filters)) {
+                    receipts.push(record);
+                    if (receipts.length === pageSize) {
+                        break;
+                    }
+                }
+            }
+            if (chunk.size < SCAN_CHUNK && receipts.length < pageSize) {
+                exhausted = true;
+                break;
+            }
+        }
+
+        return {
+            receipts,
+            scanned,
+            nextCursor: exhausted || !last ? null : last.ref.path
+        };
+    }
+);
+
+/**
+ * Cloud Function: Get Receipt
+ *
+ * Returns one receipt: { receiptId, userId? }. Callers read their own receipts; admins and
+ * the owners, admins and approvers of the receipt's organization may pass userId.
+ */
+export const getReceipt = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const receiptId = parseReceiptId(request);
+        const userId = await resolveReceiptUser(request, receiptId, REVIEWER_ROLES);
+        return { receipt: await loadReceipt(userId, receiptId) };
+    }
+);
+
+/**
+ * Cloud Function: Update Receipt
+ *
+ * Corrects an exported receipt: { receiptId, userId?, edits: { category: "Supplies", ... } }.
+ * Edits are validated against the receipt schema (with the organization's categories) like
+ * reviewer edits; invalid edits fail with "invalid-argument" and the list of issues. The
+ * totals are reconciled and converted again, and the statistics, rollups, Sheet row and
+ * budgets follow. Receipts pending review are edited with editAndApproveReceipt.
+ */
+export const updateReceipt = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const receiptId = parseReceiptId(request);
+        if (request.data?.edits === undefined) {
+            throw new HttpsError("invalid-argument", "edits is required");
+        }
+        const userId = await resolveReceiptUser(request, receiptId, REVIEWER_ROLES);
+        const current = await loadReceipt(userId, receiptId);
+        await requireNotViewer(request, current);
+        if (current.status !== "exported" || !current.receiptData) {
+            throw new HttpsError("failed-precondition", `Only exported receipts can be updated (status: ${current.status})`);
+        }
+
+        const orgId = current.orgId || await getOrgIdForUser(userId);
+        let receiptData: ReceiptData;
+        try {
+            const [taxonomy, currency] = await Promise.all([loadTaxonomy(orgId), loadCurrencyContext(orgId)]);
+            receiptData = convertReceipt(applyReceiptEdits(current.receiptData, request.data.edits, taxonomy.fields), currency);
+        } catch (error) {
+            if (error instanceof ReceiptValidationError) {
+                throw new HttpsError("invalid-argument", error.message, { issues: error.issues });
+            }
+            throw error;
+        }
+
+        // The edit was checked by a person, so it no longer needs review
+        receiptData = { ...receiptData, needsReview: false };
+        const ref = receiptsCollection(userId).doc(receiptId);
+        const { before, updated } = await getFirestore().runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(ref);
+            const before = snapshot.data() as ReceiptRecord | undefined;
+            if (!before || before.status !== "exported") {
+                throw new HttpsError("failed-precondition", `Receipt ${receiptId} is no longer exported`);
+            }
+            const updated: ReceiptRecord = { ...before, receiptData, timestamp: new Date().toISOString() };
+            if (before.statsApplied) {
+                rollupWrites([{ before, after: updated }])
+                    .forEach((write) => transaction.set(write.ref, write.data, { merge: true }));
+            }
+            transaction.update(ref, { receiptData, timestamp: updated.timestamp });
+            return { before, updated };
+        });
+
+        // Secondary effects are logged, not failed: reconcileSheet repairs the Sheet later
+        await recordCorrections(orgId, userId, receiptId, before.receiptData!, receiptData);
+        await syncReceiptRows([updated]);
+        try {
+            await evaluateBudgets(updated);
+        } catch (error) {
+            console.error(`Failed to evaluate budgets for receipt ${receiptId}:`, error);
+        }
+
+        console.log(`Receipt ${receiptId} for user ${userId} updated by ${callerUid}`);
+        return { success: true, receipt: updated };
+    }
+);
+
+/**
+ * Cloud Function: Delete Receipt
+ *
+ * Deletes a receipt: { receiptId, userId? }. Its ledger entry goes, its amounts come off the
+ * statistics and rollups, its Sheet row is removed, and the uploaded file and thumbnail are
+ * deleted from Storage (kept while other receipts split from the same file remain).
+ * Callers delete their own receipts; admins and the organization's owners and admins may
+ * pass userId.
+ */
+export const deleteReceipt = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const receiptId = parseReceiptId(request);
+        const userId = await resolveReceiptUser(request, receiptId, MANAGER_ROLES);
+        await requireNotViewer(request, await loadReceipt(userId, receiptId));
+
+        const ref = receiptsCollection(userId).doc(receiptId);
+        const record = await getFirestore().runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(ref);
+            const record = snapshot.data() as ReceiptRecord | undefined;
+            if (!record) {
+                throw new HttpsError("not-found", `Receipt ${receiptId} not found`);
+            }
+            if (record.status === "extracting") {
+                throw new HttpsError("failed-precondition", `Receipt ${receiptId} is being processed; try again shortly`);
+            }
+            if (record.statsApplied) {
+                rollupWrites([{ before: record, after: null }])
+                    .forEach((write) => transaction.set(write.ref, write.data, { merge: true }));
+            }
+            transaction.delete(ref);
+            return record;
+        });
+
+        const sheet = record.sheetRow ? await removeReceiptRows([record]) : null;
+        const fileDeleted = await deleteStoredFiles(record);
+
+        console.log(`Receipt ${receiptId} for user ${userId} deleted by ${callerUid}`);
+        return { success: true, receiptId, sheetRowRemoved: (sheet?.removed ?? 0) > 0, fileDeleted };
+    }
+);
+
+/**
+ * Cloud Function: Reprocess Receipt
+ *
+ * Extracts a receipt again from its stored original: { receiptId, userId? }. Its amounts come
+ * off the statistics and its Sheet row is removed, then it runs through the pipeline like a
+ * new upload (duplicate checks, extraction, review queue or export). Receipts split from a
+ * multi-receipt file are reprocessed through the upload's receipt; the other receipts of
+ * the file keep their data. Callers reprocess their own receipts; admins and the
+ * organization's owners and admins may pass userId.
+ */
+export const reprocessReceipt = onCall(
+    {
+        region: "us-central1",
+        memory: "1GiB", // Image processing and the model call, as in the upload trigger
+        timeoutSeconds: 300,
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const receiptId = parseReceiptId(request);
+        const userId = await resolveReceiptUser(request, receiptId, MANAGER_ROLES);
+        const current = await loadReceipt(userId, receiptId);
+        await requireNotViewer(request, current);
+        if (current.parentReceiptId) {
+            throw new HttpsError("failed-precondition",
+                `Receipt ${receiptId} was split from a multi-receipt file; reprocess ${current.parentReceiptId} instead`);
+        }
+
+        const ref = receiptsCollection(userId).doc(receiptId);
+        const record = await getFirestore().runTransaction(async (transaction) => {
+            const snapshot = await transaction.get(ref);
+            const record = snapshot.data() as ReceiptRecord | undefined;
+            if (!record) {
+                throw new HttpsError("not-found", `Receipt ${receiptId} not found`);
+            }
+            if (record.status === "received" || record.status === "extracting" || record.status === "extracted") {
+                throw new HttpsError("failed-precondition", `Receipt ${receiptId} is being processed; try again shortly`);
+            }
+            if (record.statsApplied) {
+                rollupWrites([{ before: record, after: null }])
+                    .forEach((write) => transaction.set(write.ref, write.data, { merge: true }));
+            }
+            transaction.update(ref, {
+                status: "received",
+                extractionStartedAt: null,
+                statsApplied: false,
+                sheetsWriteSuccess: false,
+                sheetsError: null,
+                review: null,
+                duplicateOf: null,
+                duplicateKind: null,
+                errorMessage: null,
+                timestamp: new Date().toISOString()
+            });
+            return record;
+        });
+
+        // Taken off the Sheet (and its sheetRow cleared) until it is exported again
+        if (record.sheetRow) {
+            await syncReceiptRows([{ ...record, status: "received" }]);
+        }
+
+        let outcome: ProcessingOutcome;
+        try {
+            outcome = await processReceiptObject(userId, receiptId, record.bucket, record.storagePath);
+        } catch (error) {
+            const extractionFailed = await recordProcessingFailure(userId, receiptId, record.storagePath, error);
+            if (!extractionFailed) {
+                // Extracted, but the export step failed: no event will redeliver it, so an admin re-drives it
+                await recordDeadLetter("extraction", userId, receiptId, record.storagePath, error);
+            }
+            throw new HttpsError("internal", `Reprocessing failed: ${(error as Error).message}`);
+        }
+
+        console.log(`Receipt ${receiptId} for user ${userId} reprocessed by ${callerUid}: ${outcome}`);
+        return { success: true, receiptId, outcome, receipt: await getReceiptRecord(userId, receiptId) };
+    }
+);
@@ -0,0 +1,157 @@
+// functions/src/media.ts
+
+import sharp from "sharp";
+import convertHeic from "heic-convert";
+
+/**
+ * Longest side (in pixels) images are downscaled to before extraction.
+ * Override with IMAGE_MAX_DIMENSION. Receipts stay legible well below this.
+ */
+const DEFAULT_IMAGE_MAX_DIMENSION = 3072;
+
+/**
+ * Longest side of the stored thumbnail.
+ */
+const THUMBNAIL_MAX_DIMENSION = 320;
+
+/**
+ * Storage prefix for generated thumbnails: thumbnails/{userId}/{fileName}.jpg.
+ * Outside receipts/, so the upload trigger ignores them.
+ */
+export const THUMBNAIL_PREFIX = "thumbnails/";
+
+/**
+ * Upload types the pipeline accepts, by the MIME type detected from the content.
+ */
+export type SupportedMimeType =
+    | "image/jpeg"
+    | "image/png"
+    | "image/gif"
+    | "image/webp"
+    | "image/heic"
+    | "image/heif"
+    | "application/pdf"
+    | "text/plain"; // Receipts in the text of an email (see inbound.ts); never sniffed from uploads
+
+/**
+ * A file ready to send to the extraction provider.
+ */
+export interface PreparedFile {
+    buffer: Buffer;
+    mimeType: SupportedMimeType;
+    thumbnail: Buffer | null; // JPEG thumbnail, null for PDFs and text
+    changes: string[]; // What was done, e.g. ["converted from image/heic", "rotated"], for logs
+}
+
+export function getImageMaxDimension(): number {
+    const dimension = parseInt(process.env.IMAGE_MAX_DIMENSION || "", 10);
+    return isNaN(dimension) || dimension <= 0 ? DEFAULT_IMAGE_MAX_DIMENSION : dimension;
+}
+
+// ISO BMFF brands of HEIC/HEIF images (iPhone photos use "heic")
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis"]);
+const HEIF_BRANDS = new Set(["mif1", "msf1"]);
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+    return buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Detects the file type from its first bytes (magic numbers) instead of trusting
+ * the file extension or the uploaded content type.
+ *
+ * @returns The detected MIME type, or null if the file is not a supported image or PDF
+ */
+export function sniffMimeType(buffer: Buffer): SupportedMimeType | null {
+    if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+        return "image/jpeg";
+    }
+    if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return "image/png";
+    }
+    const header = buffer.toString("latin1", 0, Math.min(buffer.length, 16));
+    if (header.startsWith("GIF87a") || header.startsWith("GIF89a")) {
+        return "image/gif";
+    }
+    if (header.startsWith("RIFF") && header.substring(8, 12) === "WEBP") {
+        return "image/webp";
+    }
+    if (header.startsWith("%PDF-")) {
+        return "application/pdf";
+    }
+    if (header.substring(4, 8) === "ftyp") {
+        const brand = header.substring(8, 12);
+        if (HEIC_BRANDS.has(brand)) {
+            return "image/heic";
+        }
+        if (HEIF_BRANDS.has(brand)) {
+            return "image/heif";
+        }
+    }
+    return null;
+}
+
+/**
+ * Prepares an uploaded file for extraction. PDFs and text are passed through; images are
+ * converted from HEIC/HEIF to JPEG, rotated upright according to their EXIF
+ * orientation and downscaled to maxDimension, and a thumbnail is generated.
+ * Images that need none of this are sent unchanged.
+ *
+ * @throws Error if the image cannot be decoded
+ */
+export async function prepareFile(
+    buffer: Buffer,
+    mimeType: SupportedMimeType,
+    maxDimension: number
+): Promise<PreparedFile> {
+    if (mimeType === "application/pdf" || mimeType === "text/plain") {
+        return { buffer, mimeType, thumbnail: null, changes: [] };
+    }
+
+    const changes: string[] = [];
+    let image = buffer;
+    let outputType = mimeType;
+
+    if (mimeType === "image/heic" || mimeType === "image/heif") {
+        // The prebuilt sharp binaries can't decode HEVC, so convert it in JS first
+        image = Buffer.from(await convertHeic({ buffer: image, format: "JPEG", quality: 0.92 }));
+        outputType = "image/jpeg";
+        changes.push(`converted from ${mimeType}`);
+    }
+
+    const metadata = await sharp(image).metadata();
+    const rotated = metadata.orientation !== undefined && metadata.orientation !== 1;
+    const longestSide = Math.max(metadata.width || 0, metadata.height || 0);
+    const oversized = longestSide > maxDimension;
+
+    if (rotated || oversized) {
+        image = await sharp(image)
+            .rotate() // Applies the EXIF orientation and strips it
+            .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+            .jpeg({ quality: 85 })
+            .toBuffer();
+        outputType = "image/jpeg";
+        if (rotated) {
+            changes.push(`rotated (EXIF orientation ${metadata.orientation})`);
+        }
+        if (oversized) {
+            changes.push(`downscaled from ${metadata.width}x${metadata.height}`);
+        }
+    }
+
+    const thumbnail = await sharp(image)
+        .rotate()
+        .resize({ width: THUMBNAIL_MAX_DIMENSION, height: THUMBNAIL_MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 70 })
+        .toBuffer();
+
+    return { buffer: image, mimeType: outputType, thumbnail, changes };
+}
+
+/**
+ * Storage path of the thumbnail for an uploaded file
+ * (receipts/{userId}/{fileName} -> thumbnails/{userId}/{fileName}.jpg).
+ */
+export function thumbnailPathFor(storagePath: string): string {
+    return `${THUMBNAIL_PREFIX}${storagePath.replace(/^receipts\//, "")}.jpg`;
+}
@@ -0,0 +1,251 @@
+// functions/src/mime.ts
+
+/**
+ * One MIME entity: an email message, a part of a multipart body, or a multipart/form-data field.
+ */
+export interface MimePart {
+    headers: Record<string, string>; // Lowercase names; the first value of repeated headers
+    contentType: string; // Lowercase type/subtype, "text/plain" if not given
+    params: Record<string, string>; // Content-Type parameters (charset, boundary, name)
+    disposition: string | null; // Lowercase: "attachment", "inline", "form-data"
+    dispositionParams: Record<string, string>; // Content-Disposition parameters (filename, name)
+    body: Buffer; // With the transfer encoding (base64, quoted-printable) removed
+    parts: MimePart[]; // Sub-parts of multipart entities
+}
+
+/**
+ * Deepest nesting followed (multipart/mixed > multipart/alternative > ... , forwarded messages).
+ */
+const MAX_DEPTH = 10;
+
+/**
+ * Splits an entity into its header block and body. Bodies are handled as latin1 strings,
+ * which map bytes one to one, so binary content survives.
+ */
+function splitEntity(raw: string): { headerText: string; body: string } {
+    const noHeaders = /^\r?\n/.exec(raw);
+    if (noHeaders) {
+        return { headerText: "", body: raw.slice(noHeaders[0].length) };
+    }
+    const match = /\r?\n\r?\n/.exec(raw);
+    if (!match) {
+        return { headerText: raw, body: "" };
+    }
+    return { headerText: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+function parseHeaders(headerText: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    // Folded lines continue the previous header
+    const unfolded = headerText.replace(/\r?\n[ \t]+/g, " ");
+    for (const line of unfolded.split(/\r?\n/)) {
+        const colon = line.indexOf(":");
+        if (colon <= 0) {
+            continue;
+        }
+        const name = line.slice(0, colon).trim().toLowerCase();
+        if (!(name in headers)) {
+            headers[name] = line.slice(colon + 1).trim();
+        }
+    }
+    return headers;
+}
+
+/**
+ * Splits a structured header such as `attachment; filename="a b.pdf"` into its value and
+ * parameters. RFC 2231 parameters (filename*=utf-8''a%20b.pdf) are decoded.
+ */
+export function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+    const params: Record<string, string> = {};
+    const semicolon = value.indexOf(";");
+    const main = (semicolon >= 0 ? value.slice(0, semicolon) : value).trim().toLowerCase();
+    const pattern = /;\s*([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value)) !== null) {
+        const name = match[1].toLowerCase();
+        let paramValue = match[2].trim();
+        if (paramValue.startsWith("\"")) {
+            paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, "$1");
+        }
+        if (name.endsWith("*")) {
+            const extended = /^([^']*)'[^']*'(.*)$/.exec(paramValue);
+            const bytes = Buffer.from((extended ? extended[2] : paramValue)
+                .replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))), "latin1");
+            params[name.slice(0, -1)] = decodeCharset(bytes, extended?.[1] || "utf-8");
+        } else if (!(name in params)) {
+            params[name] = decodeHeaderValue(paramValue);
+        }
+    }
+    return { value: main, params };
+}
+
+/**
+ * Decodes text in a charset Node knows (utf-8 if it doesn't).
+ */
+function decodeCharset(buffer: Buffer, charset: string): string {
+    try {
+        return new TextDecoder(charset.trim().toLowerCase() || "utf-8").decode(buffer);
+    } catch {
+        return buffer.toString("utf8");
+    }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+    const bytes: number[] = [];
+    const input = text.replace(/=\r?\n/g, ""); // Soft line breaks
+    for (let i = 0; i < input.length; i++) {
+        const hex = input.slice(i + 1, i + 3);
+        if (input[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+            bytes.push(parseInt(hex, 16));
+            i += 2;
+        } else {
+            bytes.push(input.charCodeAt(i) & 0xff);
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * Decodes RFC 2047 encoded words (=?utf-8?B?...?= and =?utf-8?Q?...?=) in a header value.
+ */
+export function decodeHeaderValue(value: string): string {
+    return value
+        .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1") // Whitespace between encoded words is dropped
+        .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+            const bytes = encoding.toUpperCase() === "B"
+                ? Buffer.from(text, "base64")
+                : decodeQuotedPrintable(text.replace(/_/g, " "));
+            return decodeCharset(bytes, charset.split("*")[0]);
+        });
+}
+
+function decodeBody(body: string, transferEncoding: string | undefined): Buffer {
+    switch ((transferEncoding || "").trim().toLowerCase()) {
+        case "base64":
+            return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+        case "quoted-printable":
+            return decodeQuotedPrintable(body);
+        default:
+            return Buffer.from(body, "latin1");
+    }
+}
+
+/**
+ * Splits a multipart body on its boundary, ignoring the preamble and epilogue.
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const nextDelimiter = (from: number) => {
+        const found = body.indexOf(`\n${delimiter}`, from);
+        return found < 0 ? -1 : found + 1;
+    };
+
+    // Delimiters start a line
+    const starts: number[] = [];
+    for (let index = body.startsWith(delimiter) ? 0 : nextDelimiter(0); index >= 0; index = nextDelimiter(index + delimiter.length)) {
+        starts.push(index);
+    }
+
+    const parts: string[] = [];
+    for (let i = 0; i < starts.length; i++) {
+        const afterDelimiter = starts[i] + delimiter.length;
+        const lineEnd = body.indexOf("\n", afterDelimiter);
+        if (body.startsWith("--", afterDelimiter) || lineEnd < 0) {
+            break; // Closing delimiter
+        }
+        let end = i + 1 < starts.length ? starts[i + 1] - 1 : body.length;
+        if (body[end - 1] === "\r") {
+            end--;
+        }
+        parts.push(body.slice(lineEnd + 1, end));
+    }
+    return parts;
+}
+
+function parseEntity(headers: Record<string, string>, body: string, depth: number): MimePart {
+    const contentType = parseHeaderParams(headers["content-type"] || "text/plain");
+    const disposition = headers["content-disposition"] ? parseHeaderParams(headers["content-disposition"]) : null;
+    const part: MimePart = {
+        headers,
+        contentType: contentType.value || "text/plain",
+        params: contentType.params,
+        disposition: disposition?.value ?? null,
+        dispositionParams: disposition?.params ?? {},
+        body: Buffer.alloc(0),
+        parts: []
+    };
+
+    if (part.contentType.startsWith("multipart/") && contentType.params.boundary && depth < MAX_DEPTH) {
+        part.parts = splitMultipart(body, contentType.params.boundary).map((raw) => {
+            const entity = splitEntity(raw);
+            return parseEntity(parseHeaders(entity.headerText), entity.body, depth + 1);
+        });
+    } else {
+        part.body = decodeBody(body, headers["content-transfer-encoding"]);
+    }
+    return part;
+}
+
+/**
+ * Parses a raw MIME email message (RFC 5322 headers and a MIME body).
+ */
+export function parseMimeMessage(raw: Buffer, depth = 0): MimePart {
+    const { headerText, body } = splitEntity(raw.toString("latin1"));
+    return parseEntity(parseHeaders(headerText), body, depth);
+}
+
+/**
+ * Parses a multipart HTTP body (multipart/form-data webhooks) into its fields and files.
+ *
+ * @param contentType - The request's Content-Type header, with the boundary
+ */
+export function parseMultipartBody(body: Buffer, contentType: string): MimePart[] {
+    return parseEntity({ "content-type": contentType }, body.toString("latin1"), 0).parts;
+}
+
+/**
+ * A text part's content, decoded from its charset.
+ */
+export function partText(part: MimePart): string {
+    return decodeCharset(part.body, part.params.charset || "utf-8");
+}
+
+/**
+ * The file name of an attachment or form-data file, if it has one.
+ */
+export function partFileName(part: MimePart): string | null {
+    return part.dispositionParams.filename || part.params.name || null;
+}
+
+/**
+ * The lowercase email addresses in an address header ("Jane <jane@example.com>, b@example.com").
+ */
+export function parseAddresses(value: string | undefined): string[] {
+    if (!value) {
+        return [];
+    }
+    const withoutNames = decodeHeaderValue(value).replace(/"(?:[^"\\]|\\.)*"/g, "");
+    return (withoutNames.match(/[^\s<>(),;:"]+@[^\s<>(),;:"]+/g) || []).map((address) => address.toLowerCase());
+}
+
+/**
+ * Reduces an HTML email body to its text, keeping line and cell breaks.
+ */
+export function htmlToText(html: string): string {
+    const entities: Record<string, string> = { nbsp: " ", amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+    return html
+        .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+        .replace(/<br\s*\/?>|<\/(p|div|tr|li|h[1-6]|table)>/gi, "\n")
+        .replace(/<\/t[dh]>/gi, "\t")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+            if (entity.startsWith("#")) {
+                const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+                return isNaN(code) || code > 0x10FFFF ? match : String.fromCodePoint(code);
+            }
+            return entities[entity.toLowerCase()] ?? match;
+        })
+        .replace(/[ \t]+\n/g, "\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
@@ -0,0 +1,542 @@
+// functions/src/organizations.ts
+
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { onCall, CallableRequest, HttpsError } from "firebase-functions/v2/https";
+import { isAdmin, requireAuth, resolveTargetUser } from "./access";
+import { getReceiptRecord } from "./receipts";
+import { updateCustomClaims } from "./roles";
+
+/**
+ * Organization of users who have not been assigned to one.
+ */
+export const DEFAULT_ORG_ID = "default";
+
+/**
+ * Returns a reference to an organization's document (organizations/{orgId}).
+ */
+export function organizationDoc(orgId: string) {
+    return getFirestore().collection("organizations").doc(orgId);
+}
+
+/**
+ * Returns the organization a user belongs to (users/{userId}.orgId), or DEFAULT_ORG_ID
+ * if none is set. The pointer only counts if the organization has a membership document
+ * for the user, so a user document edited outside the membership callables can't join one.
+ */
+export async function getOrgIdForUser(userId: string): Promise<string> {
+    const snapshot = await getFirestore().collection("users").doc(userId).get();
+    const orgId = snapshot.get("orgId");
+    if (typeof orgId !== "string" || !orgId || orgId.includes("/") || orgId === DEFAULT_ORG_ID) {
+        return DEFAULT_ORG_ID;
+    }
+    const membership = await membersCollection(orgId).doc(userId).get();
+    if (!membership.exists) {
+        console.warn(`User ${userId} points at organization ${orgId} without a membership; using ${DEFAULT_ORG_ID}`);
+        return DEFAULT_ORG_ID;
+    }
+    return orgId;
+}
+
+/**
+ * Resolves which organization a callable acts on. Callers act on their own
+ * organization; admins may pass another orgId.
+ *
+ * @throws HttpsError("permission-denied") if a non-admin asks for another organization
+ */
+export async function resolveTargetOrg(request: CallableRequest, requestedOrgId: unknown): Promise<string> {
+    const callerUid = requireAuth(request);
+    if (requestedOrgId === undefined || requestedOrgId === null) {
+        return getOrgIdForUser(callerUid);
+    }
+    if (typeof requestedOrgId !== "string" || !requestedOrgId || requestedOrgId.includes("/")) {
+        throw new HttpsError("invalid-argument", "orgId must be a non-empty string");
+    }
+    if (!await isAdmin(request) && requestedOrgId !== await getOrgIdForUser(callerUid)) {
+        throw new HttpsError("permission-denied", "Only admins can access other organizations");
+    }
+    return requestedOrgId;
+}
+
+/**
+ * A member's role in an organization, from most to least privileged:
+ * - owner: everything an admin can do, plus managing owners
+ * - admin: manages members, invites and the organization's settings
+ * - approver: reviews and approves the organization's receipts
+ * - submitter: uploads receipts and manages their own
+ * - viewer: reads their own receipts and the organization's data, uploads nothing
+ */
+export type OrgRole = "owner" | "admin" | "approver" | "submitter" | "viewer";
+
+export const ORG_ROLES: OrgRole[] = ["owner", "admin", "approver", "submitter", "viewer"];
+
+/**
+ * Roles that manage members and invites.
+ */
+export const MANAGER_ROLES: OrgRole[] = ["owner", "admin"];
+
+/**
+ * Roles that see and decide the organization's review queue.
+ */
+export const REVIEWER_ROLES: OrgRole[] = ["owner", "admin", "approver"];
+
+/**
+ * How long an invite can be accepted.
+ */
+const INVITE_TTL_DAYS = 14;
+
+const MAX_ORG_NAME_LENGTH = 100;
+
+/**
+ * An organization. Stored at organizations/{orgId}, next to its settings,
+ * categories, budgets and rollups. Receipts uploaded by its members carry its orgId.
+ */
+export interface Organization {
+    orgId: string;
+    name: string;
+    createdBy: string;
+    createdAt: string;
+}
+
+/**
+ * A user's membership of an organization, stored at organizations/{orgId}/members/{userId}.
+ * A user belongs to one organization at a time (users/{userId}.orgId); the orgId and role
+ * are mirrored into the orgId and orgRole custom claims for the security rules.
+ */
+export interface OrgMember {
+    userId: string;
+    orgId: string;
+    role: OrgRole;
+    email: string | null;
+    invitedBy: string | null; // null for the organization's creator
+    joinedAt: string;
+    updatedAt: string;
+}
+
+/**
+ * An invitation to join an organization, stored at organizations/{orgId}/invites/{inviteId}.
+ * Accepted by the signed-in user whose verified email matches.
+ */
+export interface OrgInvite {
+    inviteId: string;
+    orgId: string;
+    email: string; // Lowercase
+    role: OrgRole;
+    status: "pending" | "accepted" | "revoked";
+    invitedBy: string;
+    createdAt: string;
+    expiresAt: string;
+    acceptedBy: string | null;
+    acceptedAt: string | null;
+}
+
+export function membersCollection(orgId: string) {
+    return organizationDoc(orgId).collection("members");
+}
+
+export function invitesCollection(orgId: string) {
+    return organizationDoc(orgId).collection("invites");
+}
+
+/**
+ * Returns a user's membership of an organization, or null if they are not a member.
+ */
+export async function getMembership(orgId: string, userId: string): Promise<OrgMember | null> {
+    const snapshot = await membersCollection(orgId).doc(userId).get();
+    return snapshot.exists ? snapshot.data() as OrgMember : null;
+}
+
+/**
+ * True if the caller is an admin (custom claim) or has one of the roles in the organization.
+ */
+export async function hasOrgRole(request: CallableRequest, orgId: string, roles: OrgRole[]): Promise<boolean> {
+    const callerUid = requireAuth(request);
+    if (await isAdmin(request)) {
+        return true;
+    }
+    const membership = await getMembership(orgId, callerUid);
+    return membership !== null && roles.includes(membership.role);
+}
+
+/**
+ * Returns the caller's UID if they are an admin or have one of the roles in the organization.
+ * Checked against the membership document, so role changes apply before the claims refresh.
+ *
+ * @throws HttpsError("permission-denied") otherwise
+ */
+export async function requireOrgRole(request: CallableRequest, orgId: string, roles: OrgRole[]): Promise<string> {
+    if (!await hasOrgRole(request, orgId, roles)) {
+        throw new HttpsError("permission-denied", `Requires one of these roles in the organization: ${roles.join(", ")}`);
+    }
+    return request.auth!.uid;
+}
+
+/**
+ * Resolves whose receipt a callable acts on: { receiptId, userId? }. Callers act on their
+ * own receipts; admins, and members with one of the roles in the receipt's organization,
+ * may pass the uploader's userId.
+ *
+ * @throws HttpsError("permission-denied") if the caller may not act on the receipt
+ */
+export async function resolveReceiptUser(request: CallableRequest, receiptId: string, roles: OrgRole[]): Promise<string> {
+    const callerUid = requireAuth(request);
+    const requestedUserId = request.data?.userId;
+    if (requestedUserId === undefined || requestedUserId === null || requestedUserId === callerUid || await isAdmin(request)) {
+        return await resolveTargetUser(request, requestedUserId);
+    }
+    if (typeof requestedUserId !== "string" || !requestedUserId || requestedUserId.includes("/")) {
+        throw new HttpsError("invalid-argument", "userId must be a non-empty string");
+    }
+
+    const record = await getReceiptRecord(requestedUserId, receiptId);
+    const orgId = record?.orgId || await getOrgIdForUser(requestedUserId);
+    if (!await hasOrgRole(request, orgId, roles)) {
+        throw new HttpsError("permission-denied", `Requires one of these roles in the receipt's organization: ${roles.join(", ")}`);
+    }
+    return requestedUserId;
+}
+
+/**
+ * Mirrors a user's organization and role into their custom claims, keeping their other
+ * claims (e.g. admin), and records the change in the audit log. Pass null to clear them.
+ * Clients see the change after refreshing their ID token.
+ */
+async function setMembershipClaims(
+    userId: string,
+    orgId: string,
+    role: OrgRole | null,
+    actorUid: string
+): Promise<void> {
+    await updateCustomClaims(
+        userId,
+        ({ orgId: _orgId, orgRole: _orgRole, ...claims }) => role ? { ...claims, orgId, orgRole: role } : claims,
+        { action: role ? "org_role_set" : "org_role_removed", actorUid, orgId }
+    );
+}
+
+function parseRole(value: unknown): OrgRole {
+    if (typeof value !== "string" || !ORG_ROLES.includes(value as OrgRole)) {
+        throw new HttpsError("invalid-argument", `role must be one of: ${ORG_ROLES.join(", ")}`);
+    }
+    return value as OrgRole;
+}
+
+function parseUserId(value: unknown): string {
+    if (typeof value !== "string" || !value || value.includes("/")) {
+        throw new HttpsError("invalid-argument", "userId is required");
+    }
+    return value;
+}
+
+/**
+ * The caller's verified email, lowercased.
+ *
+ * @throws HttpsError("failed-precondition") if the caller has no verified email
+ */
+function verifiedEmail(request: CallableRequest): string {
+    const token = request.auth?.token;
+    if (typeof token?.email !== "string" || token.email_verified !== true) {
+        throw new HttpsError("failed-precondition", "A verified email address is required to accept invites");
+    }
+    return token.email.toLowerCase();
+}
+
+/**
+ * Fails if the user already belongs to an organization other than orgId
+ * (users outside any organization are in DEFAULT_ORG_ID).
+ */
+async function requireNoOtherOrg(userId: string, orgId: string | null): Promise<void> {
+    const current = await getOrgIdForUser(userId);
+    if (current !== DEFAULT_ORG_ID && current !== orgId) {
+        throw new HttpsError("failed-precondition", `User ${userId} already belongs to organization ${current}; they must leave it first`);
+    }
+}
+
+/**
+ * Fails if a change would leave the organization without an owner.
+ */
+async function requireAnotherOwner(orgId: string, userId: string): Promise<void> {
+    const owners = await membersCollection(orgId).where("role", "==", "owner").get();
+    if (!owners.docs.some((doc) => doc.id !== userId)) {
+        throw new HttpsError("failed-precondition", "An organization must keep at least one owner");
+    }
+}
+
+/**
+ * Cloud Function: Create Organization
+ *
+ * Creates an organization with the caller as its owner: { name }. Callers who already
+ * belong to an organization must leave it first.
+ */
+export const createOrganization = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const name = typeof request.data?.name === "string" ? request.data.name.trim() : "";
+        if (!name || name.length > MAX_ORG_NAME_LENGTH) {
+            throw new HttpsError("invalid-argument", `name must be 1-${MAX_ORG_NAME_LENGTH} characters`);
+        }
+        await requireNoOtherOrg(callerUid, null);
+
+        const db = getFirestore();
+        const ref = db.collection("organizations").doc();
+        const now = new Date().toISOString();
+        const organization: Organization = { orgId: ref.id, name, createdBy: callerUid, createdAt: now };
+        const member: OrgMember = {
+            userId: callerUid,
+            orgId: ref.id,
+            role: "owner",
+            email: typeof request.auth?.token.email === "string" ? request.auth.token.email : null,
+            invitedBy: null,
+            joinedAt: now,
+            updatedAt: now
+        };
+
+        const batch = db.batch();
+        batch.set(ref, organization);
+        batch.set(membersCollection(ref.id).doc(callerUid), member);
+        batch.set(db.collection("users").doc(callerUid), { orgId: ref.id }, { merge: true });
+        await batch.commit();
+        await setMembershipClaims(callerUid, member.orgId, member.role, callerUid);
+
+        console.log(`Organization ${ref.id} (${name}) created by ${callerUid}`);
+        return { success: true, organization };
+    }
+);
+
+/**
+ * Cloud Function: List Members
+ *
+ * Returns an organization's members: { orgId? } (default the caller's). Owners and admins
+ * also get its pending invites.
+ */
+export const listMembers = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const [organization, members, canManage] = await Promise.all([
+            organizationDoc(orgId).get(),
+            membersCollection(orgId).get(),
+            hasOrgRole(request, orgId, MANAGER_ROLES)
+        ]);
+
+        const invites = canManage
+            ? (await invitesCollection(orgId).where("status", "==", "pending").get()).docs.map((doc) => doc.data() as OrgInvite)
+            : [];
+
+        return {
+            organization: organization.exists ? organization.data() as Organization : null,
+            members: members.docs
+                .map((doc) => doc.data() as OrgMember)
+                .sort((a, b) => ORG_ROLES.indexOf(a.role) - ORG_ROLES.indexOf(b.role) || a.joinedAt.localeCompare(b.joinedAt)),
+            invites
+        };
+    }
+);
+
+/**
+ * Cloud Function: Invite Member
+ *
+ * Invites an email address to the organization: { orgId?, email, role }. Owners and admins
+ * invite; only owners invite owners. The invite is valid for 14 days and listed to the
+ * invitee by listMyInvites; an earlier pending invite for the same email is replaced.
+ */
+export const inviteMember = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const callerUid = await requireOrgRole(request, orgId, MANAGER_ROLES);
+        const role = parseRole(request.data?.role);
+        if (role === "owner") {
+            await requireOrgRole(request, orgId, ["owner"]);
+        }
+        const email = typeof request.data?.email === "string" ? request.data.email.trim().toLowerCase() : "";
+        if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+            throw new HttpsError("invalid-argument", "email must be an email address");
+        }
+        if (orgId === DEFAULT_ORG_ID) {
+            throw new HttpsError("failed-precondition", "Create an organization before inviting members");
+        }
+
+        const db = getFirestore();
+        const pending = await invitesCollection(orgId).where("email", "==", email).where("status", "==", "pending").get();
+        const ref = invitesCollection(orgId).doc();
+        const now = new Date();
+        const invite: OrgInvite = {
+            inviteId: ref.id,
+            orgId,
+            email,
+            role,
+            status: "pending",
+            invitedBy: callerUid,
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+            acceptedBy: null,
+            acceptedAt: null
+        };
+
+        const batch = db.batch();
+        pending.docs.forEach((doc) => batch.update(doc.ref, { status: "revoked" }));
+        batch.set(ref, invite);
+        await batch.commit();
+
+        console.log(`${email} invited to organization ${orgId} as ${role} by ${callerUid}`);
+        return { success: true, invite };
+    }
+);
+
+/**
+ * Cloud Function: List My Invites
+ *
+ * Returns the pending, unexpired invites for the caller's verified email.
+ */
+export const listMyInvites = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const email = verifiedEmail(request);
+        const now = new Date().toISOString();
+        const snapshot = await getFirestore().collectionGroup("invites").where("email", "==", email).get();
+        return {
+            invites: snapshot.docs
+                .map((doc) => doc.data() as OrgInvite)
+                .filter((invite) => invite.status === "pending" && invite.expiresAt > now)
+        };
+    }
+);
+
+/**
+ * Cloud Function: Accept Invite
+ *
+ * Joins an organization: { orgId, inviteId }. The caller's verified email must match the
+ * invite. Callers who belong to another organization must leave it first; accepting an
+ * invite to their own organization changes their role.
+ */
+export const acceptInvite = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const email = verifiedEmail(request);
+        const { orgId, inviteId } = request.data || {};
+        if (typeof orgId !== "string" || !orgId || orgId.includes("/") || typeof inviteId !== "string" || !inviteId || inviteId.includes("/")) {
+            throw new HttpsError("invalid-argument", "orgId and inviteId are required");
+        }
+        await requireNoOtherOrg(callerUid, orgId);
+
+        const db = getFirestore();
+        const inviteRef = invitesCollection(orgId).doc(inviteId);
+        const memberRef = membersCollection(orgId).doc(callerUid);
+        const member = await db.runTransaction(async (transaction) => {
+            const [inviteSnapshot, memberSnapshot] = await Promise.all([transaction.get(inviteRef), transaction.get(memberRef)]);
+            const invite = inviteSnapshot.data() as OrgInvite | undefined;
+            if (!invite || invite.email !== email) {
+                throw new HttpsError("not-found", `Invite ${inviteId} not found`);
+            }
+            const now = new Date().toISOString();
+            if (invite.status !== "pending" || invite.expiresAt <= now) {
+                throw new HttpsError("failed-precondition", `Invite ${inviteId} is ${invite.status === "pending" ? "expired" : invite.status}`);
+            }
+
+            const existing = memberSnapshot.data() as OrgMember | undefined;
+            const joined: OrgMember = {
+                userId: callerUid,
+                orgId,
+                role: invite.role,
+                email,
+                invitedBy: existing ? existing.invitedBy : invite.invitedBy,
+                joinedAt: existing ? existing.joinedAt : now,
+                updatedAt: now
+            };
+            transaction.update(inviteRef, { status: "accepted", acceptedBy: callerUid, acceptedAt: now });
+            transaction.set(memberRef, joined);
+            transaction.set(db.collection("users").doc(callerUid), { orgId }, { merge: true });
+            return joined;
+        });
+        await setMembershipClaims(callerUid, member.orgId, member.role, callerUid);
+
+        console.log(`User ${callerUid} joined organization ${orgId} as ${member.role}`);
+        return { success: true, member };
+    }
+);
+
+/**
+ * Cloud Function: Set Member Role
+ *
+ * Changes a member's role: { orgId?, userId, role }. Owners and admins change roles;
+ * only owners grant or take away the owner role, and the last owner keeps it.
+ */
+export const setMemberRole = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const callerUid = await requireOrgRole(request, orgId, MANAGER_ROLES);
+        const userId = parseUserId(request.data?.userId);
+        const role = parseRole(request.data?.role);
+
+        const membership = await getMembership(orgId, userId);
+        if (!membership) {
+            throw new HttpsError("not-found", `User ${userId} is not a member of organization ${orgId}`);
+        }
+        if (membership.role === "owner" || role === "owner") {
+            await requireOrgRole(request, orgId, ["owner"]);
+        }
+        if (membership.role === "owner" && role !== "owner") {
+            await requireAnotherOwner(orgId, userId);
+        }
+
+        await membersCollection(orgId).doc(userId).update({ role, updatedAt: new Date().toISOString() });
+        await setMembershipClaims(userId, orgId, role, callerUid);
+
+        console.log(`User ${userId} in organization ${orgId} changed from ${membership.role} to ${role} by ${callerUid}`);
+        return { success: true, userId, role };
+    }
+);
+
+/**
+ * Cloud Function: Remove Member
+ *
+ * Removes a member from the organization: { orgId?, userId? } (default the caller, to leave).
+ * Owners and admins remove members; only owners remove owners, and the last owner stays.
+ * Receipts the member uploaded stay with the organization; their later uploads do not.
+ */
+export const removeMember = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const userId = request.data?.userId === undefined ? callerUid : parseUserId(request.data.userId);
+
+        const membership = await getMembership(orgId, userId);
+        if (!membership) {
+            throw new HttpsError("not-found", `User ${userId} is not a member of organization ${orgId}`);
+        }
+        if (userId !== callerUid) {
+            await requireOrgRole(request, orgId, membership.role === "owner" ? ["owner"] : MANAGER_ROLES);
+        }
+        if (membership.role === "owner") {
+            await requireAnotherOwner(orgId, userId);
+        }
+
+        const db = getFirestore();
+        const batch = db.batch();
+        batch.delete(membersCollection(orgId).doc(userId));
+        batch.set(db.collection("users").doc(userId), { orgId: FieldValue.delete() }, { merge: true });
+        await batch.commit();
+        await setMembershipClaims(userId, orgId, null, callerUid);
+
+        console.log(`User ${userId} removed from organization ${orgId} by ${callerUid}`);
+        return { success: true, userId };
+    }
+);
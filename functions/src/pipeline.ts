@@ -0,0 +1,240 @@
+// functions/src/pipeline.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { ReceiptData } from "./schema";
+import { upsertReceiptRows } from "./sheets";
+import { ResolvedSheetDestination, resolveSheetDestination } from "./sheetDestinations";
+import { getOrgIdForUser } from "./organizations";
+import {
+    ReceiptRecord,
+    SheetRowReference,
+    getReceiptRecord,
+    receiptsCollection,
+    updateReceiptRecord
+} from "./receipts";
+import { recordDeadLetter } from "./deadLetters";
+import { rollupWrites } from "./rollups";
+import { evaluateBudgets } from "./budgets";
+import { emitReceiptEvent } from "./webhooks";
+
+/**
+ * Resolves the Sheet a receipt goes to: its uploader's, their organization's or the default.
+ */
+async function destinationFor(record: ReceiptRecord): Promise<ResolvedSheetDestination | null> {
+    const orgId = record.orgId || await getOrgIdForUser(record.userId);
+    return resolveSheetDestination(record.userId, orgId);
+}
+
+/**
+ * Exports an extracted receipt: appends it to the user's Google Sheet, adds it to the
+ * user's statistics and spending rollups, marks the ledger entry exported, updates the "latest"
+ * status pointer and checks the budgets the receipt counts against.
+ * 
+ * Safe to call again after a crash: the Sheet row is written by receipt ID (a repeated
+ * write updates the same row), and the statistics are applied in a transaction
+ * guarded by statsApplied.
+ * A Sheet write that keeps failing after retries is dead-lettered; the receipt is
+ * still exported to the user's statistics.
+ */
+export async function exportReceipt(userId: string, receiptId: string): Promise<void> {
+    const db = getFirestore();
+
+    const record = await getReceiptRecord(userId, receiptId);
+    if (!record || !record.receiptData) {
+        throw new Error(`Receipt ${receiptId} has no extracted data to export`);
+    }
+    if (record.status === "exported") {
+        console.log(`Receipt ${receiptId} was already exported`);
+        return;
+    }
+    if (record.status !== "extracted") {
+        throw new Error(`Receipt ${receiptId} is not ready for export (status: ${record.status})`);
+    }
+
+    const receiptData = record.receiptData;
+    const fileName = record.fileName;
+
+    // Append data to Google Sheets (Steps 8-9), unless a previous attempt already did
+    let sheetsWriteSuccess = record.sheetsWriteSuccess;
+    let sheetRow: SheetRowReference | null = record.sheetRow;
+    const destination = sheetsWriteSuccess ? null : await destinationFor(record);
+    
+    // Debug logging for environment variables
+    console.log("Environment check:", {
+        sheetDestination: destination?.scope ?? null,
+        hasServiceAccountKey: !!process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY,
+        hasGeminiKey: !!process.env.GEMINI_API_KEY
+    });
+    
+    if (sheetsWriteSuccess) {
+        console.log(`Receipt ${receiptId} already written to the Sheet, skipping append`);
+    } else if (destination) {
+        try {
+            sheetRow = await writeToSheet(record, destination);
+            sheetsWriteSuccess = true;
+        } catch (error) {
+            // Don't fail the entire operation: the receipt was processed successfully and
+            // the Sheet write is secondary. It is dead-lettered for an admin to re-drive.
+            console.error("Full error:", error);
+            await recordDeadLetter("sheets_export", userId, receiptId, record.storagePath, error);
+        }
+    } else {
+        console.error(`❌ No Google Sheet registered for user ${userId} or their organization, and GOOGLE_SHEET_ID is not set!`);
+        console.error("Register one with the setSheetDestination function, or set the default via:");
+        console.error("1. Google Cloud Console → Cloud Functions → Environment Variables");
+        console.error("2. OR Firebase Functions Secrets");
+        await updateReceiptRecord(userId, receiptId, { sheetsError: "No Google Sheet is configured" });
+    }
+
+    // Update user statistics and mark the receipt exported atomically
+    const receiptRef = receiptsCollection(userId).doc(receiptId);
+    const userRef = db.collection('users').doc(userId);
+    await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(receiptRef);
+        const current = snapshot.data() as ReceiptRecord | undefined;
+        const now = new Date().toISOString();
+
+        if (current && !current.statsApplied) {
+            // Totals and monthly rollups (see rollups.ts)
+            rollupWrites([{ before: null, after: { ...current, status: "exported" } }])
+                .forEach((write) => transaction.set(write.ref, write.data, { merge: true }));
+            transaction.set(userRef, {
+                lastReceiptProcessed: fileName,
+                lastReceiptTimestamp: now
+            }, { merge: true });
+        }
+
+        transaction.update(receiptRef, {
+            status: 'exported',
+            statsApplied: true,
+            timestamp: now
+        });
+    });
+
+    // Update the "latest" status pointer (Step 10)
+    await db.collection('batches').doc(userId).set({
+        status: 'complete',
+        receiptId: receiptId,
+        lastFileProcessed: fileName,
+        receiptData: receiptData, // Store the extracted data for reference
+        sheetsWriteSuccess: sheetsWriteSuccess,
+        googleSheetLink: sheetRow?.link || null,
+        timestamp: new Date().toISOString()
+    }, { merge: true });
+
+    // Budget alerts are secondary too: a failure is logged, not retried
+    try {
+        await evaluateBudgets({ ...record, status: "exported" });
+    } catch (error) {
+        console.error(`Failed to evaluate budgets for receipt ${receiptId}:`, error);
+    }
+}
+
+/**
+ * Writes a receipt's row to its Google Sheet and records the outcome on its ledger
+ * entry right away.
+ * 
+ * @throws The write error (after retries), once recorded as sheetsError
+ */
+async function writeToSheet(record: ReceiptRecord, destination: ResolvedSheetDestination): Promise<SheetRowReference> {
+    try {
+        const rows = await upsertReceiptRows([record], destination);
+        const sheetRow = rows.get(record.receiptId)!;
+        console.log(`Receipt data successfully written to Google Sheet: ${destination.spreadsheetId} (${destination.scope})`);
+        await updateReceiptRecord(record.userId, record.receiptId, {
+            sheetsWriteSuccess: true,
+            sheetRow,
+            sheetsError: null
+        });
+        return sheetRow;
+    } catch (error) {
+        const sheetsError = (error as Error).message;
+        console.error(`Failed to write to Google Sheet: ${sheetsError}`);
+        await updateReceiptRecord(record.userId, record.receiptId, { sheetsWriteSuccess: false, sheetsError });
+        throw error;
+    }
+}
+
+/**
+ * Exports a receipt already marked "extracted" (left there by a run whose export failed, or
+ * a kept duplicate) and emits the event routeExtractedReceipt would have: receipt.approved
+ * for a receipt approved from the review queue, receipt.extracted otherwise.
+ */
+export async function resumeExport(userId: string, receiptId: string): Promise<void> {
+    await exportReceipt(userId, receiptId);
+    const record = await getReceiptRecord(userId, receiptId);
+    const type = record?.review?.decision === "approved" ? "receipt.approved" : "receipt.extracted";
+    await emitReceiptEvent(type, userId, receiptId);
+}
+
+/**
+ * Re-drives a dead-lettered Sheet write for an exported receipt.
+ * Statistics are not touched; they were applied when the receipt was exported.
+ * 
+ * @throws Error if the receipt is not exported or the append fails again
+ */
+export async function retrySheetExport(userId: string, receiptId: string): Promise<SheetRowReference> {
+    const record = await getReceiptRecord(userId, receiptId);
+    if (!record || !record.receiptData || record.status !== "exported") {
+        throw new Error(`Receipt ${receiptId} is not exported (status: ${record?.status ?? "missing"})`);
+    }
+    if (record.sheetsWriteSuccess && record.sheetRow) {
+        console.log(`Receipt ${receiptId} already written to the Sheet, skipping append`);
+        return record.sheetRow;
+    }
+
+    const destination = await destinationFor(record);
+    if (!destination) {
+        throw new Error("No Google Sheet is configured");
+    }
+    return writeToSheet(record, destination);
+}
+
+/**
+ * Parks an extracted receipt in the review queue instead of logging it.
+ */
+export async function holdForReview(
+    userId: string,
+    receiptId: string,
+    fileName: string,
+    receiptData: ReceiptData
+): Promise<void> {
+    await updateReceiptRecord(userId, receiptId, {
+        status: "pending_review",
+        receiptData
+    });
+
+    // Update the "latest" status pointer
+    await getFirestore().collection("batches").doc(userId).set({
+        status: "pending_review",
+        receiptId: receiptId,
+        lastFileProcessed: fileName,
+        receiptData: receiptData,
+        timestamp: new Date().toISOString()
+    }, { merge: true });
+}
+
+/**
+ * Sends an extracted receipt where it belongs: the review queue if it needs
+ * a human to look at it, otherwise "extracted" and straight on to the Sheet and user stats.
+ * 
+ * @returns The resulting ledger status
+ */
+export async function routeExtractedReceipt(
+    userId: string,
+    receiptId: string,
+    fileName: string,
+    receiptData: ReceiptData
+): Promise<"pending_review" | "exported"> {
+    if (receiptData.needsReview) {
+        await holdForReview(userId, receiptId, fileName, receiptData);
+        console.log(`Receipt ${fileName} needs review:`, receiptData.reviewFlags);
+        await emitReceiptEvent("receipt.needs_review", userId, receiptId);
+        return "pending_review";
+    }
+
+    await updateReceiptRecord(userId, receiptId, { status: "extracted", receiptData });
+    await exportReceipt(userId, receiptId);
+    await emitReceiptEvent("receipt.extracted", userId, receiptId);
+    return "exported";
+}
@@ -1,27 +1,47 @@
 // functions/src/processor.ts
 
 import { ReceiptData } from "./schema";
-import { extractReceiptData } from "./gemini";
+import { buildExtractionRequest } from "./extraction";
+import { getExtractionProvider } from "./providers";
+import { applyReviewPolicy, getReviewConfidenceThreshold } from "./review";
+import { RetryExhaustedError } from "./retry";
+import { Taxonomy } from "./taxonomy";
+import { VendorRuleSet, applyVendorRules } from "./categoryRules";
+import { CurrencyContext, convertReceipt } from "./currency";
 
 /**
  * Main processor function that orchestrates the receipt analysis workflow.
  * This function will be called by the Cloud Storage trigger.
  * 
+ * A single file may hold several receipts (a scanned stack in one PDF, or receipts
+ * photographed side by side); each is returned as its own ReceiptData, tied back to
+ * the file and page through receiptData.source.
+ * 
  * Steps:
- * 1. Call Gemini API with the image and schema (Step 6)
- * 2. Parse and validate the JSON response (Step 7)
- * 3. Add timestamp (handled by extractReceiptData)
- * 4. Return the structured ReceiptData
+ * 1. Call the configured extraction provider (EXTRACTION_PROVIDER) with the file (Step 6)
+ * 2. Parse and validate the JSON response, split into one result per receipt (Step 7)
+ * 3. Add source, timestamp, the provider version and review flags
+ * 4. Canonicalize vendor names and apply category rules
+ * 5. Convert the total to the organization's base currency
+ * 6. Return the structured ReceiptData of every receipt
  * 
- * @param fileBuffer - The binary content of the uploaded receipt image
+ * @param fileBuffer - The binary content of the uploaded receipt image or PDF
  * @param filePath - The storage path of the file (e.g., receipts/user123/receipt.jpg)
- * @returns Promise<ReceiptData> - The extracted and validated receipt data
+ * @param taxonomy - The uploader's organization categories (prompt, schema enum, normalization)
+ * @param vendorRules - Vendor aliases and category rules that apply to the uploader
+ * @param currency - The organization's base currency and the exchange rates
+ * @param mimeType - The file type detected from its content (see media.ts); defaults to the extension's
+ * @returns Promise<ReceiptData[]> - The extracted and validated data, one per receipt, in page order
  * @throws Error if processing fails at any step
  */
 export async function processReceiptBatch(
     fileBuffer: Buffer,
-    filePath: string
-): Promise<ReceiptData> {
+    filePath: string,
+    taxonomy: Taxonomy,
+    vendorRules: VendorRuleSet,
+    currency: CurrencyContext,
+    mimeType?: string
+): Promise<ReceiptData[]> {
     console.log(`Processing receipt: ${filePath} (${fileBuffer.length} bytes)`);
 
     // Validate file buffer
@@ -36,35 +56,61 @@ export async function processReceiptBatch(
     }
 
     try {
-        // Step 6 & 7: Call Gemini API and get validated structured data
-        // The extractReceiptData function handles:
-        // - Gemini API call with image
-        // - JSON parsing and extraction
-        // - Data validation
-        // - Category normalization
+        // Step 6 & 7: Call the extraction provider and get validated structured data
+        // The Vertex provider handles:
+        // - Gemini API call with the file and the taxonomy's response schema
+        // - One result per receipt in the file, with its page number
+        // - Schema validation, with a bounded repair loop on validation errors
+        // - "Needs review" flags for fields that could not be repaired
+        // - Category normalization against the taxonomy
+        // - Line item / tax / tip reconciliation against the total
         // - Timestamp addition
-        const receiptData = await extractReceiptData(fileBuffer, filePath);
+        const provider = getExtractionProvider();
+        const extracted = await provider.extract(buildExtractionRequest(fileBuffer, filePath, taxonomy, mimeType));
+        const extractedWith = { provider: provider.name, version: provider.version, promptVersion: provider.promptVersion };
 
-        // Additional validation
-        if (!receiptData.vendorName || receiptData.vendorName.trim().length === 0) {
-            throw new Error("Vendor name is required but was not extracted");
-        }
+        // Canonical vendor names, and category rules override the model's category
+        const ruled = extracted.map((receipt) => applyVendorRules({ ...receipt, extractedWith }, vendorRules, taxonomy));
 
-        if (receiptData.totalAmount <= 0) {
-            throw new Error(`Invalid total amount: ${receiptData.totalAmount}`);
-        }
+        // Totals in the base currency, for statistics, rollups and budgets
+        const converted = ruled.map((receipt) => convertReceipt(receipt, currency));
+
+        // Decide whether a human needs to look at each receipt (low confidence, fallbacks, mismatches, "Other")
+        const threshold = getReviewConfidenceThreshold();
+        const receipts = converted.map((receipt) => applyReviewPolicy(receipt, threshold, taxonomy.fallback));
 
-        console.log(`Successfully extracted receipt data:`, {
-            vendor: receiptData.vendorName,
-            date: receiptData.transactionDate,
-            amount: receiptData.totalAmount,
-            category: receiptData.category
-        });
+        for (const receiptData of receipts) {
+            // Additional validation
+            if (!receiptData.vendorName || receiptData.vendorName.trim().length === 0) {
+                throw new Error("Vendor name is required but was not extracted");
+            }
 
-        return receiptData;
+            if (receiptData.totalAmount <= 0) {
+                throw new Error(`Invalid total amount: ${receiptData.totalAmount}`);
+            }
+
+            console.log(`Successfully extracted receipt ${receiptData.source.index + 1} of ${receiptData.source.count}:`, {
+                page: receiptData.source.pageNumber,
+                vendor: receiptData.vendorName,
+                date: receiptData.transactionDate,
+                amount: receiptData.totalAmount,
+                currency: receiptData.currency,
+                baseAmount: receiptData.baseAmount?.amount ?? null,
+                category: receiptData.category,
+                vendorRule: receiptData.vendorRule?.ruleId ?? null,
+                lineItems: receiptData.lineItems.length,
+                totalsReconciled: !receiptData.reconciliation.hasDiscrepancy,
+                needsReview: receiptData.needsReview
+            });
+        }
+
+        return receipts;
 
     } catch (error) {
         console.error(`Error processing receipt ${filePath}:`, error);
+        if (error instanceof RetryExhaustedError) {
+            throw error;
+        }
         throw new Error(
             `Failed to process receipt: ${(error as Error).message}`
         );
@@ -0,0 +1,94 @@
+// functions/src/prompts.ts
+
+/**
+ * A version of the prompts sent to the model. Templates are never edited once released:
+ * a prompt change is a new version, so receipts record exactly which prompt extracted
+ * them (receiptData.extractedWith) and versions can be compared with the evaluation
+ * harness (evaluation.ts) before switching.
+ */
+export interface PromptTemplate {
+    version: string;
+    extraction: string; // Placeholders: {{maxReceipts}}, {{categories}} (the taxonomy's category list)
+    repair: string; // Placeholders: {{issues}} (the validation errors of the previous response)
+}
+
+/**
+ * Released prompt templates, oldest first.
+ */
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        // The single-receipt prompt used before multi-receipt files, with the taxonomy's category list
+        version: "1",
+        extraction: `Analyze this receipt image and extract its data as JSON matching the response schema.
+
+{{categories}}
+The currency is the ISO 4217 code inferred from symbols or the country, or null if unknown.
+All amounts are plain numbers without currency symbols or thousands separators.
+Use an empty array for "taxes" or "lineItems" when none are shown, and null for anything else that is not printed.
+Be precise and extract only information that is clearly visible on the receipt.
+Report your confidence from 0 to 1 in the vendor, date, total and category. Use a low value for anything you had to guess.`,
+        repair: `Your previous JSON response failed validation:
+{{issues}}
+
+Look at the receipt again and return the complete corrected JSON. Use null for optional fields you cannot read.`
+    },
+    {
+        version: "2",
+        extraction: `Analyze this file and extract the data of every receipt in it as JSON matching the response schema.
+
+The file may contain several receipts: a multi-page PDF with one or more receipts per page, or
+several receipts photographed side by side. Return one entry in "receipts" for each separate
+receipt, in page and reading order, with the page it is on ("pageNumber", 1 for a single image).
+Do not split one long receipt that continues over several pages. Return at most {{maxReceipts}} receipts.
+
+{{categories}}
+The currency is the ISO 4217 code inferred from symbols or the country, or null if unknown.
+All amounts are plain numbers without currency symbols or thousands separators.
+Use an empty array for "taxes" or "lineItems" when none are shown, and null for anything else that is not printed.
+Be precise and extract only information that is clearly visible on the receipt.
+Report your confidence from 0 to 1 in the vendor, date, total and category. Use a low value for anything you had to guess.`,
+        repair: `Your previous JSON response failed validation:
+{{issues}}
+
+Look at the file again and return the complete corrected JSON for every receipt. Use null for optional fields you cannot read.`
+    }
+];
+
+/**
+ * The prompt version used unless EXTRACTION_PROMPT_VERSION pins another one.
+ */
+export const CURRENT_PROMPT_VERSION = PROMPT_TEMPLATES[PROMPT_TEMPLATES.length - 1].version;
+
+/**
+ * Versions that can be selected, oldest first.
+ */
+export function listPromptVersions(): string[] {
+    return PROMPT_TEMPLATES.map((template) => template.version);
+}
+
+/**
+ * Returns a released prompt template.
+ *
+ * @throws Error if no template has this version
+ */
+export function getPromptTemplate(version: string): PromptTemplate {
+    const template = PROMPT_TEMPLATES.find((candidate) => candidate.version === version);
+    if (!template) {
+        throw new Error(`Unknown prompt version "${version}". Expected one of: ${listPromptVersions().join(", ")}`);
+    }
+    return template;
+}
+
+/**
+ * Fills in a template's {{placeholders}}.
+ *
+ * @throws Error if the template uses a placeholder without a value
+ */
+export function renderPrompt(template: string, values: Record<string, string | number>): string {
+    return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+        if (!(name in values)) {
+            throw new Error(`Prompt placeholder {{${name}}} has no value`);
+        }
+        return String(values[name]);
+    });
+}
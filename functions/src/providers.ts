@@ -0,0 +1,45 @@
+// functions/src/providers.ts
+
+import { ExtractionConfig, ExtractionProvider, getExtractionConfig } from "./extraction";
+import { createVertexProvider } from "./gemini";
+import { createStubProvider } from "./stubProvider";
+
+/**
+ * Registered providers by name. A local OCR provider only needs a factory here
+ * that returns an ExtractionProvider built on top of finalizeReceiptData.
+ */
+const PROVIDER_FACTORIES: Record<string, (config: ExtractionConfig) => ExtractionProvider> = {
+    vertex: (config) => createVertexProvider(config.vertex),
+    stub: (config) => createStubProvider(config.stub)
+};
+
+let cachedProvider: ExtractionProvider | null = null;
+
+/**
+ * Creates the provider a configuration selects, e.g. for the evaluation harness.
+ * 
+ * @throws Error if the configuration names an unknown provider
+ */
+export function createExtractionProvider(config: ExtractionConfig): ExtractionProvider {
+    const factory = PROVIDER_FACTORIES[config.provider];
+    if (!factory) {
+        throw new Error(
+            `Unknown EXTRACTION_PROVIDER "${config.provider}". ` +
+            `Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(", ")}`
+        );
+    }
+    return factory(config);
+}
+
+/**
+ * Returns the configured extraction provider (cached per function instance).
+ * 
+ * @throws Error if EXTRACTION_PROVIDER names an unknown provider
+ */
+export function getExtractionProvider(): ExtractionProvider {
+    if (!cachedProvider) {
+        cachedProvider = createExtractionProvider(getExtractionConfig());
+        console.log(`Using extraction provider: ${cachedProvider.name}`);
+    }
+    return cachedProvider;
+}
@@ -0,0 +1,350 @@
+// functions/src/receipts.ts
+
+import { createHash } from "crypto";
+import { getFirestore } from "firebase-admin/firestore";
+import { ReceiptData } from "./schema";
+
+/**
+ * Processing state of a single receipt in the ledger.
+ * 
+ * Main path: received -> extracting -> extracted -> exported
+ * - received: ledger entry created for the storage object (generation), or for an
+ *   additional receipt split from a multi-receipt file (data already extracted)
+ * - extracting: claimed by a function instance that is calling the extraction provider
+ * - extracted: data stored and approved for export, Sheet/stats not done yet
+ * - exported: logged to the Sheet and user statistics
+ * 
+ * Side states:
+ * - pending_review: held back until a human approves (-> extracted) or rejects it
+ * - duplicate: held back as a (likely) copy of another receipt until the user confirms it
+ * - rejected: discarded from the review queue or as a duplicate, or not an image/PDF
+ * - error: extraction failed (dead-lettered; an admin re-drive puts it back to received)
+ */
+export type ReceiptStatus =
+    | "received"
+    | "extracting"
+    | "extracted"
+    | "exported"
+    | "pending_review"
+    | "duplicate"
+    | "rejected"
+    | "error";
+
+/**
+ * How long an "extracting" claim is honored before another delivery of the same
+ * event may take over (e.g. after the first instance crashed or timed out).
+ */
+export const EXTRACTION_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * What the trigger should do with a (possibly redelivered) storage event.
+ * - extract: this instance owns the extraction
+ * - resume_export: extraction already finished, the Sheet/stats step did not
+ * - skip: already handled, or another instance is extracting right now
+ */
+export type ProcessingAction = "extract" | "resume_export" | "skip";
+
+/**
+ * How a duplicate was detected: identical file content, or the same
+ * vendor + date + total as an existing receipt.
+ */
+export type DuplicateKind = "exact" | "likely";
+
+/**
+ * The human decision on a receipt from the review queue.
+ */
+export interface ReviewDecision {
+    decision: "approved" | "rejected";
+    decidedBy: string; // UID of the reviewer
+    decidedAt: string;
+    edited: boolean;
+    note: string | null;
+}
+
+/**
+ * Reference to the Google Sheet row a receipt was written to.
+ */
+export interface SheetRowReference {
+    spreadsheetId: string;
+    sheetName: string;
+    updatedRange: string | null; // e.g. "Sheet1!A12:E12"
+    link: string;
+}
+
+/**
+ * The email a receipt file arrived in (see inbound.ts).
+ */
+export interface EmailOrigin {
+    from: string | null; // Sender address
+    to: string; // The recipient address the email was matched to a user by
+    subject: string;
+    messageId: string | null; // Message-ID header
+    receivedAt: string;
+    part: "attachment" | "body"; // body: the email had no receipt attachment; its text is the receipt
+    attachmentName: string | null;
+}
+
+/**
+ * How a receipt's file arrived: uploaded to Storage by the app, or sent by email.
+ */
+export interface ReceiptOrigin {
+    channel: "app" | "email";
+    email: EmailOrigin | null; // For the "email" channel
+}
+
+/**
+ * A single processed file in the per-user receipt ledger.
+ * Stored at users/{userId}/receipts/{receiptId} and used as the system of record
+ * for history, admin views and exports (batches/{userId} is only a "latest" pointer).
+ */
+export interface ReceiptRecord {
+    receiptId: string;
+    userId: string;
+    orgId: string; // Organization of the uploader when the file was received (its category taxonomy applies)
+    fileName: string;
+    storagePath: string;
+    bucket: string;
+    contentHash: string | null; // SHA-256 of the uploaded file
+    mimeType: string | null; // Detected from the file content, not the extension
+    thumbnailPath: string | null; // Storage path of the generated JPEG thumbnail (images only)
+    generation: string | null; // Storage object generation the entry was created for
+    origin?: ReceiptOrigin; // Absent on entries created before origins were recorded
+    status: ReceiptStatus;
+    extractionStartedAt: string | null; // Start of the current "extracting" lease
+    receiptData: ReceiptData | null;
+    parentReceiptId: string | null; // Entry of the uploaded file this receipt was split from (multi-receipt files)
+    sheetsWriteSuccess: boolean;
+    sheetRow: SheetRowReference | null;
+    sheetsError: string | null;
+    statsApplied: boolean; // True once counted in users/{userId} statistics
+    review: ReviewDecision | null;
+    duplicateOf: string | null; // receiptId of the original
+    duplicateKind: DuplicateKind | null;
+    duplicateKept?: boolean; // The user kept this held-back duplicate as a separate receipt; skips the duplicate checks
+    errorMessage: string | null;
+    createdAt: string;
+    timestamp: string; // ISO 8601 timestamp of the last status change
+}
+
+/**
+ * Builds a stable receipt ID from the storage path and object generation, so that
+ * redeliveries of the same event map to the same ledger document while a new upload
+ * to the same path gets a new one.
+ */
+export function receiptIdForObject(storagePath: string, generation: string | null): string {
+    return createHash("sha256")
+        .update(`${storagePath}#${generation || ""}`)
+        .digest("hex")
+        .substring(0, 32);
+}
+
+/**
+ * Returns a reference to the user's receipt ledger collection.
+ */
+export function receiptsCollection(userId: string) {
+    return getFirestore().collection("users").doc(userId).collection("receipts");
+}
+
+/**
+ * gRPC status code returned by create() when the document already exists.
+ */
+const ALREADY_EXISTS = 6;
+
+/**
+ * Creates the ledger entry for an uploaded object in the "received" state,
+ * unless a previous delivery of the same event already created it.
+ *
+ * @param origin - How the file arrived (defaults to an app upload)
+ * @returns Promise<string> - The receipt ID of the ledger entry
+ */
+export async function createReceiptRecord(
+    userId: string,
+    orgId: string,
+    storagePath: string,
+    bucket: string,
+    generation: string | null,
+    origin: ReceiptOrigin = { channel: "app", email: null }
+): Promise<string> {
+    const receiptId = receiptIdForObject(storagePath, generation);
+    const now = new Date().toISOString();
+
+    const record: ReceiptRecord = {
+        receiptId,
+        userId,
+        orgId,
+        fileName: storagePath.split("/").pop() || storagePath,
+        storagePath,
+        bucket,
+        contentHash: null,
+        mimeType: null,
+        thumbnailPath: null,
+        generation,
+        origin,
+        status: "received",
+        extractionStartedAt: null,
+        receiptData: null,
+        parentReceiptId: null,
+        sheetsWriteSuccess: false,
+        sheetRow: null,
+        sheetsError: null,
+        statsApplied: false,
+        review: null,
+        duplicateOf: null,
+        duplicateKind: null,
+        duplicateKept: false,
+        errorMessage: null,
+        createdAt: now,
+        timestamp: now
+    };
+
+    try {
+        // create() fails if the document exists, which makes redeliveries a no-op here
+        await receiptsCollection(userId).doc(receiptId).create(record);
+    } catch (error) {
+        if ((error as { code?: number }).code !== ALREADY_EXISTS) {
+            throw error;
+        }
+        console.log(`Ledger entry ${receiptId} already exists for ${storagePath}; event was redelivered`);
+    }
+    return receiptId;
+}
+
+/**
+ * Creates ledger entries for the additional receipts found in a multi-receipt file.
+ * The upload's own entry keeps the first receipt; receipt N of the file gets the
+ * entry "{parentReceiptId}-{N}", in the "received" state with its data already set.
+ * All entries are created in one batch, so a redelivered event either finds all of
+ * them (and keeps the stored data) or none.
+ *
+ * @returns Promise<string[]> - The receipt IDs of the additional entries, in file order
+ */
+export async function createSplitReceiptRecords(
+    parent: ReceiptRecord,
+    receipts: ReceiptData[]
+): Promise<string[]> {
+    const now = new Date().toISOString();
+    const batch = getFirestore().batch();
+    const receiptIds: string[] = [];
+
+    for (const receiptData of receipts) {
+        const receiptId = `${parent.receiptId}-${receiptData.source.index}`;
+        receiptIds.push(receiptId);
+
+        const record: ReceiptRecord = {
+            ...parent,
+            receiptId,
+            status: "received",
+            extractionStartedAt: null,
+            receiptData,
+            parentReceiptId: parent.receiptId,
+            sheetsWriteSuccess: false,
+            sheetRow: null,
+            sheetsError: null,
+            statsApplied: false,
+            review: null,
+            duplicateOf: null,
+            duplicateKind: null,
+            duplicateKept: false,
+            errorMessage: null,
+            createdAt: now,
+            timestamp: now
+        };
+        batch.create(receiptsCollection(parent.userId).doc(receiptId), record);
+    }
+
+    try {
+        await batch.commit();
+    } catch (error) {
+        if ((error as { code?: number }).code !== ALREADY_EXISTS) {
+            throw error;
+        }
+        console.log(`Split entries of ${parent.receiptId} already exist; event was redelivered`);
+    }
+    return receiptIds;
+}
+
+/**
+ * Decides, in a transaction, what a delivery of the storage event should do,
+ * and claims the extraction (with a lease) when it is this instance's turn.
+ */
+export async function claimProcessing(userId: string, receiptId: string): Promise<ProcessingAction> {
+    const ref = receiptsCollection(userId).doc(receiptId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const record = snapshot.data() as ReceiptRecord | undefined;
+        if (!record) {
+            throw new Error(`Ledger entry ${receiptId} not found`);
+        }
+
+        const now = Date.now();
+        const leaseExpired = !record.extractionStartedAt ||
+            now - new Date(record.extractionStartedAt).getTime() > EXTRACTION_LEASE_MS;
+
+        if (record.status === "received" || (record.status === "extracting" && leaseExpired)) {
+            transaction.update(ref, {
+                status: "extracting",
+                extractionStartedAt: new Date(now).toISOString(),
+                timestamp: new Date(now).toISOString()
+            });
+            return "extract";
+        }
+
+        if (record.status === "extracted") {
+            return "resume_export";
+        }
+
+        return "skip";
+    });
+}
+
+/**
+ * Records an extraction failure. Only applies while the entry is still being
+ * extracted: once a receipt is "extracted", a failure in the export step must
+ * leave it there so a redelivered event can resume the export.
+ *
+ * @returns Promise<boolean> - True if the entry was marked as "error"
+ */
+export async function markExtractionFailed(
+    userId: string,
+    receiptId: string,
+    errorMessage: string
+): Promise<boolean> {
+    const ref = receiptsCollection(userId).doc(receiptId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const record = snapshot.data() as ReceiptRecord | undefined;
+        if (!record || (record.status !== "received" && record.status !== "extracting")) {
+            return false;
+        }
+        transaction.update(ref, {
+            status: "error",
+            errorMessage,
+            timestamp: new Date().toISOString()
+        });
+        return true;
+    });
+}
+
+/**
+ * Reads a ledger entry.
+ */
+export async function getReceiptRecord(userId: string, receiptId: string): Promise<ReceiptRecord | null> {
+    const snapshot = await receiptsCollection(userId).doc(receiptId).get();
+    return snapshot.exists ? snapshot.data() as ReceiptRecord : null;
+}
+
+/**
+ * Applies a partial update to a ledger entry and bumps its timestamp.
+ */
+export async function updateReceiptRecord(
+    userId: string,
+    receiptId: string,
+    update: Partial<Omit<ReceiptRecord, "receiptId" | "userId" | "createdAt">>
+): Promise<void> {
+    await receiptsCollection(userId).doc(receiptId).set({
+        ...update,
+        timestamp: new Date().toISOString()
+    }, { merge: true });
+}
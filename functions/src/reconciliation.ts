@@ -0,0 +1,82 @@
+// functions/src/reconciliation.ts
+
+import { LineItem, TaxLine, ReceiptReconciliation } from "./schema";
+
+/**
+ * Maximum allowed difference (in the receipt's currency) between the extracted
+ * total and line items + tax + tip (or line items + tip when prices include tax)
+ * before the receipt is flagged.
+ * Covers per-line rounding on receipts with many items.
+ */
+export const RECONCILIATION_TOLERANCE = 0.05;
+
+/**
+ * Rounds a currency amount to two decimals.
+ */
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Checks that the line items (or the subtotal when items are not itemized),
+ * plus tax and tip, add up to the extracted total. On tax-inclusive receipts
+ * (VAT/GST) the line prices already contain the tax, so line items + tip
+ * adding up to the total also counts as reconciled.
+ *
+ * @returns ReceiptReconciliation - The computed totals and whether they disagree
+ */
+export function reconcileReceipt(receipt: {
+    totalAmount: number;
+    subtotal: number | null;
+    taxes: TaxLine[];
+    tipAmount: number | null;
+    lineItems: LineItem[];
+}): ReceiptReconciliation {
+    const lineItemsTotal = receipt.lineItems.length > 0
+        ? roundAmount(receipt.lineItems.reduce((sum, item) => sum + item.lineTotal, 0))
+        : null;
+    const taxTotal = roundAmount(receipt.taxes.reduce((sum, tax) => sum + tax.amount, 0));
+    const tipAmount = receipt.tipAmount || 0;
+
+    // Prefer itemized lines; fall back to the printed subtotal
+    const base = lineItemsTotal ?? receipt.subtotal;
+    if (base === null) {
+        return {
+            lineItemsTotal,
+            taxTotal,
+            tipAmount,
+            computedTotal: null,
+            difference: null,
+            taxInclusive: false,
+            hasDiscrepancy: false
+        };
+    }
+
+    const computedTotal = roundAmount(base + taxTotal + tipAmount);
+    const difference = roundAmount(receipt.totalAmount - computedTotal);
+
+    const inclusiveTotal = roundAmount(base + tipAmount);
+    const inclusiveDifference = roundAmount(receipt.totalAmount - inclusiveTotal);
+    if (Math.abs(difference) > RECONCILIATION_TOLERANCE && taxTotal > 0 &&
+        Math.abs(inclusiveDifference) <= RECONCILIATION_TOLERANCE) {
+        return {
+            lineItemsTotal,
+            taxTotal,
+            tipAmount,
+            computedTotal: inclusiveTotal,
+            difference: inclusiveDifference,
+            taxInclusive: true,
+            hasDiscrepancy: false
+        };
+    }
+
+    return {
+        lineItemsTotal,
+        taxTotal,
+        tipAmount,
+        computedTotal,
+        difference,
+        taxInclusive: false,
+        hasDiscrepancy: Math.abs(difference) > RECONCILIATION_TOLERANCE
+    };
+}
@@ -0,0 +1,208 @@
+// functions/src/redrive.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { ReceiptRecord, receiptsCollection } from "./receipts";
+import { retrySheetExport } from "./pipeline";
+import { processReceiptObject, recordProcessingFailure } from "./ingest";
+import {
+    DeadLetterRecord,
+    DeadLetterStage,
+    DeadLetterStatus,
+    claimDeadLetter,
+    deadLettersCollection,
+    recordDeadLetter,
+    resolveDeadLetter
+} from "./deadLetters";
+import { requireAdmin } from "./access";
+
+/**
+ * Maximum number of dead letters re-driven by one call. They run one after
+ * another so a bulk re-drive doesn't hit the same quota that failed them.
+ */
+const MAX_BULK_REDRIVE = 25;
+
+const STAGES: DeadLetterStage[] = ["extraction", "sheets_export"];
+const STATUSES: DeadLetterStatus[] = ["open", "redriving", "resolved"];
+
+/**
+ * Outcome of re-driving one dead letter.
+ */
+export interface RedriveResult {
+    deadLetterId: string;
+    ok: boolean;
+    outcome: string | null; // Where the receipt ended up, e.g. "exported" or "pending_review"
+    error: string | null;
+}
+
+/**
+ * Puts a failed receipt back into the "received" state so the pipeline will
+ * claim it again. Receipts that were extracted but not exported are left as-is
+ * and resumed by the pipeline.
+ *
+ * @returns False if the receipt no longer needs re-driving (e.g. already exported)
+ */
+async function resetFailedReceipt(userId: string, receiptId: string): Promise<boolean> {
+    const ref = receiptsCollection(userId).doc(receiptId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const record = snapshot.data() as ReceiptRecord | undefined;
+        if (!record) {
+            throw new Error(`Receipt ${receiptId} not found`);
+        }
+        if (record.status === "extracted") {
+            return true;
+        }
+        if (record.status !== "error") {
+            return false;
+        }
+        transaction.update(ref, {
+            status: "received",
+            extractionStartedAt: null,
+            errorMessage: null,
+            timestamp: new Date().toISOString()
+        });
+        return true;
+    });
+}
+
+/**
+ * Re-runs the failed stage of a claimed dead letter. A new failure is appended
+ * to its error history and reopens it.
+ */
+async function redrive(deadLetter: DeadLetterRecord): Promise<RedriveResult> {
+    const { deadLetterId, userId, receiptId } = deadLetter;
+
+    try {
+        if (deadLetter.stage === "sheets_export") {
+            try {
+                await retrySheetExport(userId, receiptId);
+            } catch (error) {
+                await recordDeadLetter("sheets_export", userId, receiptId, deadLetter.storagePath, error);
+                throw error;
+            }
+            await resolveDeadLetter(deadLetterId);
+            return { deadLetterId, ok: true, outcome: "exported", error: null };
+        }
+
+        const receipt = await receiptsCollection(userId).doc(receiptId).get();
+        const record = receipt.data() as ReceiptRecord | undefined;
+        if (!record) {
+            throw new Error(`Receipt ${receiptId} not found`);
+        }
+
+        if (!await resetFailedReceipt(userId, receiptId)) {
+            // Handled some other way since it failed (e.g. re-uploaded and resolved)
+            await resolveDeadLetter(deadLetterId);
+            return { deadLetterId, ok: true, outcome: record.status, error: null };
+        }
+
+        try {
+            const outcome = await processReceiptObject(userId, receiptId, record.bucket, record.storagePath);
+            await resolveDeadLetter(deadLetterId);
+            return { deadLetterId, ok: true, outcome, error: null };
+        } catch (error) {
+            const extractionFailed = await recordProcessingFailure(userId, receiptId, record.storagePath, error);
+            if (!extractionFailed) {
+                // Extracted this time, but the export step failed; keep it for another re-drive
+                await recordDeadLetter("extraction", userId, receiptId, record.storagePath, error);
+            }
+            throw error;
+        }
+    } catch (error) {
+        console.error(`Re-drive of ${deadLetterId} failed:`, error);
+        return { deadLetterId, ok: false, outcome: null, error: (error as Error).message };
+    }
+}
+
+/**
+ * Cloud Function: List Dead Letters (admin only)
+ *
+ * Returns failed jobs with their error history, most recently failed first:
+ * { status?: "open" | "redriving" | "resolved" (default "open"), stage?, limit? }.
+ */
+export const listDeadLetters = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        await requireAdmin(request);
+        const status = request.data?.status ?? "open";
+        const stage = request.data?.stage;
+        const limit = Math.min(Math.max(Number(request.data?.limit) || 50, 1), 200);
+
+        if (!STATUSES.includes(status)) {
+            throw new HttpsError("invalid-argument", `status must be one of: ${STATUSES.join(", ")}`);
+        }
+        if (stage !== undefined && !STAGES.includes(stage)) {
+            throw new HttpsError("invalid-argument", `stage must be one of: ${STAGES.join(", ")}`);
+        }
+
+        let query = deadLettersCollection().where("status", "==", status);
+        if (stage) {
+            query = query.where("stage", "==", stage);
+        }
+        const snapshot = await query.orderBy("lastFailedAt", "desc").limit(limit).get();
+
+        return {
+            deadLetters: snapshot.docs.map((doc) => doc.data() as DeadLetterRecord)
+        };
+    }
+);
+
+/**
+ * Cloud Function: Re-drive Dead Letters (admin only)
+ *
+ * Re-runs failed jobs, either individually ({ deadLetterIds: ["..."] }) or in bulk
+ * ({ all: true, stage? }, the most recently failed open jobs first). At most
+ * MAX_BULK_REDRIVE jobs are re-driven per call; call again for the rest.
+ * Jobs already resolved or being re-driven by someone else are skipped.
+ */
+export const redriveDeadLetters = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 540, // Each job may run a full extraction with retries
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const stage = request.data?.stage;
+        if (stage !== undefined && !STAGES.includes(stage)) {
+            throw new HttpsError("invalid-argument", `stage must be one of: ${STAGES.join(", ")}`);
+        }
+
+        let deadLetterIds: string[];
+        if (request.data?.all === true) {
+            let query = deadLettersCollection().where("status", "==", "open");
+            if (stage) {
+                query = query.where("stage", "==", stage);
+            }
+            const snapshot = await query.orderBy("lastFailedAt", "desc").limit(MAX_BULK_REDRIVE).get();
+            deadLetterIds = snapshot.docs.map((doc) => doc.id);
+        } else {
+            deadLetterIds = request.data?.deadLetterIds;
+            if (!Array.isArray(deadLetterIds) || deadLetterIds.length === 0 ||
+                !deadLetterIds.every((id) => typeof id === "string" && id)) {
+                throw new HttpsError("invalid-argument", "deadLetterIds (non-empty array of IDs) or all: true is required");
+            }
+            if (deadLetterIds.length > MAX_BULK_REDRIVE) {
+                throw new HttpsError("invalid-argument", `At most ${MAX_BULK_REDRIVE} dead letters can be re-driven per call`);
+            }
+        }
+
+        const results: RedriveResult[] = [];
+        const skipped: string[] = [];
+        for (const deadLetterId of deadLetterIds) {
+            const deadLetter = await claimDeadLetter(deadLetterId, adminUid);
+            if (!deadLetter) {
+                skipped.push(deadLetterId);
+                continue;
+            }
+            results.push(await redrive(deadLetter));
+        }
+
+        const succeeded = results.filter((result) => result.ok).length;
+        console.log(`Re-drive by ${adminUid}: ${succeeded} succeeded, ${results.length - succeeded} failed, ${skipped.length} skipped`);
+        return { results, skipped };
+    }
+);
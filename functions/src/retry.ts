@@ -0,0 +1,158 @@
+// functions/src/retry.ts
+
+/**
+ * Exponential backoff settings for one kind of external call.
+ */
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+/**
+ * Vertex AI calls: quota errors are common under bursts, so back off longer.
+ */
+export const MODEL_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000
+};
+
+/**
+ * Google Sheets API calls (per-user write quota is 60 requests/minute).
+ */
+export const SHEETS_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 20000
+};
+
+/**
+ * Outgoing webhook deliveries: retried by a scheduled function over roughly a day,
+ * so an endpoint can be down for hours without losing events.
+ */
+export const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 8,
+    baseDelayMs: 60 * 1000,
+    maxDelayMs: 6 * 60 * 60 * 1000
+};
+
+/**
+ * One failed attempt, kept as part of a job's error history.
+ */
+export interface AttemptFailure {
+    attempt: number;
+    message: string;
+    retryable: boolean;
+    at: string;
+}
+
+/**
+ * Thrown when an operation fails permanently or runs out of attempts.
+ * Carries the full error history so it can be dead-lettered.
+ */
+export class RetryExhaustedError extends Error {
+    constructor(
+        public readonly operation: string,
+        public readonly failures: AttemptFailure[],
+        public readonly lastError: unknown
+    ) {
+        super(`${operation} failed after ${failures.length} attempt(s): ${failures[failures.length - 1]?.message}`);
+        this.name = "RetryExhaustedError";
+    }
+
+    /** True if the last failure could succeed on a later re-drive (quota, 5xx, network). */
+    get retryable(): boolean {
+        return this.failures[this.failures.length - 1]?.retryable ?? false;
+    }
+}
+
+const RETRYABLE_HTTP_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// gRPC: DEADLINE_EXCEEDED, RESOURCE_EXHAUSTED, ABORTED, INTERNAL, UNAVAILABLE
+const RETRYABLE_GRPC_CODES = new Set([4, 8, 10, 13, 14]);
+
+const RETRYABLE_NETWORK_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN", "EPIPE"]);
+
+/**
+ * Distinguishes transient failures (quota, 5xx, network) from permanent ones
+ * (bad request, permission denied, invalid data).
+ */
+export function isRetryableError(error: unknown): boolean {
+    const err = error as {
+        code?: number | string;
+        status?: number;
+        response?: { status?: number };
+        message?: string;
+    };
+
+    // googleapis (gaxios) errors carry the HTTP status on the response
+    const httpStatus = err?.response?.status ?? err?.status;
+    if (typeof httpStatus === "number") {
+        return RETRYABLE_HTTP_STATUSES.has(httpStatus);
+    }
+
+    if (typeof err?.code === "string" && RETRYABLE_NETWORK_CODES.has(err.code)) {
+        return true;
+    }
+    if (typeof err?.code === "number") {
+        return RETRYABLE_HTTP_STATUSES.has(err.code) || RETRYABLE_GRPC_CODES.has(err.code);
+    }
+
+    // The Vertex AI SDK only reports the status in the message, e.g. "got status: 429 Too Many Requests"
+    const message = err?.message || "";
+    const statusMatch = message.match(/got status: (\d{3})/);
+    if (statusMatch) {
+        return RETRYABLE_HTTP_STATUSES.has(parseInt(statusMatch[1], 10));
+    }
+    return /RESOURCE_EXHAUSTED|UNAVAILABLE|quota|rate limit|timed? ?out|socket hang up/i.test(message);
+}
+
+/**
+ * Delay before the given retry: exponential backoff with full jitter.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    return Math.floor(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff and jitter.
+ * Permanent failures are not retried.
+ *
+ * @param operation - Name used in logs and the error history (e.g. "Vertex AI generateContent")
+ * @throws RetryExhaustedError with every attempt's failure once it gives up
+ */
+export async function withRetry<T>(
+    operation: string,
+    policy: RetryPolicy,
+    fn: () => Promise<T>
+): Promise<T> {
+    const failures: AttemptFailure[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            const retryable = isRetryableError(error);
+            failures.push({
+                attempt,
+                message: (error as Error)?.message || String(error),
+                retryable,
+                at: new Date().toISOString()
+            });
+
+            if (!retryable || attempt >= policy.maxAttempts) {
+                throw new RetryExhaustedError(operation, failures, error);
+            }
+
+            const delay = backoffDelay(attempt, policy);
+            console.warn(`${operation} failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms: ${(error as Error)?.message}`);
+            await sleep(delay);
+        }
+    }
+}
@@ -0,0 +1,334 @@
+// functions/src/review.ts
+
+import { getFirestore, Query } from "firebase-admin/firestore";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import {
+    ExtractedReceipt,
+    ReceiptData,
+    ReceiptFields,
+    ReviewFlag
+} from "./schema";
+import { reconcileReceipt } from "./reconciliation";
+import { ReceiptValidationError, ValidationIssue } from "./validation";
+import { ReceiptRecord, ReviewDecision, receiptsCollection } from "./receipts";
+import { exportReceipt } from "./pipeline";
+import { emitReceiptEvent } from "./webhooks";
+import { resolveTargetUser, requireAuth } from "./access";
+import { loadTaxonomy } from "./taxonomy";
+import { REVIEWER_ROLES, getOrgIdForUser, requireOrgRole, resolveReceiptUser, resolveTargetOrg } from "./organizations";
+import { recordCorrections } from "./categoryRules";
+import { convertReceipt, loadCurrencyContext } from "./currency";
+
+/**
+ * Receipts with any key field below this confidence go to the review queue.
+ * Override with REVIEW_CONFIDENCE_THRESHOLD (0-1).
+ */
+const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 0.8;
+
+/**
+ * Fields a reviewer may change. Confidence is the model's own output and is never edited.
+ */
+type EditableField = Exclude<keyof ExtractedReceipt, "confidence">;
+
+export function getReviewConfidenceThreshold(): number {
+    const threshold = parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || "");
+    return isNaN(threshold) ? DEFAULT_REVIEW_CONFIDENCE_THRESHOLD : threshold;
+}
+
+/**
+ * Adds review flags for low confidence and the fallback category ("Other") on top of
+ * the flags raised during extraction (fallback values, total mismatches), and decides
+ * whether the receipt needs review.
+ */
+export function applyReviewPolicy(receipt: ReceiptData, threshold: number, fallbackCategory: string): ReceiptData {
+    const reviewFlags: ReviewFlag[] = [...receipt.reviewFlags];
+
+    if (!receipt.confidence) {
+        reviewFlags.push({
+            field: "confidence",
+            reason: "low_confidence",
+            message: "The extractor did not report any confidence scores"
+        });
+    } else {
+        for (const [field, score] of Object.entries(receipt.confidence)) {
+            if (score < threshold) {
+                reviewFlags.push({
+                    field,
+                    reason: "low_confidence",
+                    message: `Confidence ${score} is below the review threshold ${threshold}`
+                });
+            }
+        }
+    }
+
+    if (receipt.category === fallbackCategory) {
+        reviewFlags.push({
+            field: "category",
+            reason: "other_category",
+            message: `Receipt was categorized as "${fallbackCategory}"`
+        });
+    }
+
+    return {
+        ...receipt,
+        reviewFlags,
+        needsReview: reviewFlags.length > 0
+    };
+}
+
+/**
+ * Applies reviewer edits to a receipt. Each edited field is validated against
+ * the same definition as extraction (with the organization's categories), and
+ * the totals are reconciled again.
+ * 
+ * @throws ReceiptValidationError if any edited field is invalid or not editable
+ */
+export function applyReceiptEdits(receipt: ReceiptData, edits: unknown, receiptFields: ReceiptFields): ReceiptData {
+    if (typeof edits !== "object" || edits === null || Array.isArray(edits)) {
+        throw new ReceiptValidationError([
+            { path: "$", code: "invalid_type", message: "Edits must be an object of receipt fields" }
+        ]);
+    }
+
+    const fields = receiptFields.receipt.properties;
+    const issues: ValidationIssue[] = [];
+    const updated: Record<string, unknown> = { ...receipt };
+
+    for (const [key, value] of Object.entries(edits)) {
+        if (!(key in fields) || key === "confidence") {
+            issues.push({ path: key, code: "invalid_type", message: `"${key}" is not an editable receipt field` });
+            continue;
+        }
+        const result = fields[key as EditableField].validate(value, key);
+        if (result.ok) {
+            updated[key] = result.value;
+        } else {
+            issues.push(...result.issues);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new ReceiptValidationError(issues);
+    }
+
+    const edited = updated as unknown as ReceiptData;
+    return {
+        ...edited,
+        reconciliation: reconcileReceipt(edited)
+    };
+}
+
+/**
+ * Atomically moves a receipt out of the review queue, so two reviewers
+ * can't both approve it (and count it twice). Approved receipts become
+ * "extracted" (ready for export) with their review flags resolved, rejected ones "rejected".
+ * 
+ * @param prepare - Computes the approved data from the entry as read in the transaction,
+ *                  so an edit or reprocess that lands meanwhile is not overwritten
+ * @throws HttpsError("not-found") / ("failed-precondition") if the receipt is missing or not pending review
+ */
+async function decidePendingReceipt(
+    userId: string,
+    receiptId: string,
+    review: ReviewDecision,
+    prepare?: (record: ReceiptRecord) => ReceiptData
+): Promise<ReceiptRecord> {
+    const db = getFirestore();
+    const ref = receiptsCollection(userId).doc(receiptId);
+
+    return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        if (!snapshot.exists) {
+            throw new HttpsError("not-found", `Receipt ${receiptId} not found`);
+        }
+
+        const record = snapshot.data() as ReceiptRecord;
+        if (record.status !== "pending_review") {
+            throw new HttpsError("failed-precondition", `Receipt ${receiptId} is not pending review (status: ${record.status})`);
+        }
+
+        const update: Partial<ReceiptRecord> = {
+            status: review.decision === "approved" ? "extracted" : "rejected",
+            review,
+            timestamp: new Date().toISOString()
+        };
+        if (review.decision === "approved" && record.receiptData) {
+            const approvedData = prepare ? prepare(record) : record.receiptData;
+            update.receiptData = { ...approvedData, reviewFlags: [], needsReview: false };
+        }
+        transaction.update(ref, update);
+
+        return { ...record, ...update };
+    });
+}
+
+/**
+ * Reads the common { receiptId, userId?, note? } arguments of the review callables.
+ */
+async function parseReviewRequest(request: CallableRequest) {
+    const receiptId = request.data?.receiptId;
+    if (typeof receiptId !== "string" || !receiptId) {
+        throw new HttpsError("invalid-argument", "receiptId is required");
+    }
+    const note = typeof request.data?.note === "string" ? request.data.note : null;
+
+    return {
+        reviewerUid: requireAuth(request),
+        userId: await resolveReceiptUser(request, receiptId, REVIEWER_ROLES),
+        receiptId,
+        note
+    };
+}
+
+/**
+ * Approves a receipt (optionally with edits) and logs it to the Sheet and user stats.
+ */
+async function approve(request: CallableRequest, edits?: unknown) {
+    const { reviewerUid, userId, receiptId, note } = await parseReviewRequest(request);
+
+    // The entry's organization never changes, so its taxonomy and rates can be loaded up front
+    const snapshot = await receiptsCollection(userId).doc(receiptId).get();
+    const current = snapshot.data() as ReceiptRecord | undefined;
+    if (edits !== undefined && !current?.receiptData) {
+        throw new HttpsError("not-found", `Receipt ${receiptId} has no extracted data to edit`);
+    }
+    // Entries from before organizations were recorded use the uploader's current one
+    const orgId = current?.orgId || await getOrgIdForUser(userId);
+    const [taxonomy, currencyContext] = await Promise.all([
+        edits !== undefined ? loadTaxonomy(orgId) : null,
+        loadCurrencyContext(orgId)
+    ]);
+
+    let editedData: ReceiptData | undefined;
+    let before: ReceiptData | undefined;
+    await decidePendingReceipt(userId, receiptId, {
+        decision: "approved",
+        decidedBy: reviewerUid,
+        decidedAt: new Date().toISOString(),
+        edited: edits !== undefined,
+        note
+    }, (record) => {
+        // Runs again if the transaction retries, so nothing is kept from an earlier attempt
+        const receiptData = record.receiptData as ReceiptData;
+        before = receiptData;
+        editedData = undefined;
+        if (taxonomy) {
+            try {
+                editedData = applyReceiptEdits(receiptData, edits, taxonomy.fields);
+            } catch (error) {
+                if (error instanceof ReceiptValidationError) {
+                    throw new HttpsError("invalid-argument", error.message, { issues: error.issues });
+                }
+                throw error;
+            }
+        }
+        // Convert again: the edits may change the currency, date or total, and missing rates may have been uploaded
+        return convertReceipt(editedData ?? receiptData, currencyContext);
+    });
+
+    // Corrected vendor spellings and categories feed the vendor aliases and rule proposals
+    if (before && editedData) {
+        await recordCorrections(orgId, userId, receiptId, before, editedData);
+    }
+
+    await exportReceipt(userId, receiptId);
+    await emitReceiptEvent("receipt.approved", userId, receiptId);
+
+    console.log(`Receipt ${receiptId} for user ${userId} approved by ${reviewerUid}`);
+    return { success: true, receiptId, status: "exported" };
+}
+
+/**
+ * Cloud Function: List the Review Queue
+ * 
+ * Returns the caller's receipts that are pending review, newest first.
+ * Admins may pass { userId } to list another user's queue. With { scope: "organization",
+ * orgId? }, returns the organization's queue to its owners, admins and approvers.
+ */
+export const listReviewQueue = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const scope = request.data?.scope ?? "personal";
+        if (scope !== "personal" && scope !== "organization") {
+            throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+        }
+        const limit = Math.min(Math.max(Number(request.data?.limit) || 50, 1), 200);
+
+        let query: Query;
+        if (scope === "organization") {
+            const orgId = await resolveTargetOrg(request, request.data?.orgId);
+            await requireOrgRole(request, orgId, REVIEWER_ROLES);
+            query = getFirestore().collectionGroup("receipts").where("orgId", "==", orgId);
+        } else {
+            query = receiptsCollection(await resolveTargetUser(request, request.data?.userId));
+        }
+
+        const snapshot = await query
+            .where("status", "==", "pending_review")
+            .orderBy("createdAt", "desc")
+            .limit(limit)
+            .get();
+
+        return {
+            receipts: snapshot.docs.map((doc) => doc.data() as ReceiptRecord)
+        };
+    }
+);
+
+/**
+ * Cloud Function: Approve a Receipt
+ * 
+ * Approves a pending receipt as extracted: { receiptId, userId?, note? }.
+ */
+export const approveReceipt = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => approve(request)
+);
+
+/**
+ * Cloud Function: Edit and Approve a Receipt
+ * 
+ * Applies field edits, then approves: { receiptId, userId?, edits: { category: "Supplies", ... }, note? }.
+ * Edits are validated against the receipt schema; invalid edits fail with "invalid-argument"
+ * and the list of issues in the error details.
+ */
+export const editAndApproveReceipt = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        if (request.data?.edits === undefined) {
+            throw new HttpsError("invalid-argument", "edits is required");
+        }
+        return approve(request, request.data.edits);
+    }
+);
+
+/**
+ * Cloud Function: Reject a Receipt
+ * 
+ * Discards a pending receipt: { receiptId, userId?, note? }. It is never logged to the Sheet or stats.
+ */
+export const rejectReceipt = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { reviewerUid, userId, receiptId, note } = await parseReviewRequest(request);
+
+        await decidePendingReceipt(userId, receiptId, {
+            decision: "rejected",
+            decidedBy: reviewerUid,
+            decidedAt: new Date().toISOString(),
+            edited: false,
+            note
+        });
+
+        console.log(`Receipt ${receiptId} for user ${userId} rejected by ${reviewerUid}`);
+        return { success: true, receiptId, status: "rejected" };
+    }
+);
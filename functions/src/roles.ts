@@ -0,0 +1,325 @@
+// functions/src/roles.ts
+
+import { createHash, timingSafeEqual } from "crypto";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { requireAdmin, requireAuth } from "./access";
+
+/**
+ * gRPC status code returned by create() when the document already exists.
+ */
+const ALREADY_EXISTS = 6;
+
+/**
+ * Kinds of privilege change recorded in the audit log.
+ */
+export type PrivilegeAction =
+    | "admin_bootstrapped" // First admin, granted with ADMIN_BOOTSTRAP_SECRET
+    | "admin_granted"
+    | "admin_revoked"
+    | "org_role_set" // Joined an organization or changed role (orgId, orgRole claims)
+    | "org_role_removed"; // Left or was removed from an organization
+
+/**
+ * - pending: recorded before the claims are changed; left pending if the function died
+ *   in between, so the claims may or may not have changed
+ * - committed: the claims were changed
+ * - failed: changing the claims failed; they are as before
+ */
+export type PrivilegeAuditStatus = "pending" | "committed" | "failed";
+
+/**
+ * One privilege change, stored at auditLog/{entryId}. Entries are written before the
+ * change is made and only their status is updated afterwards: clients cannot write the
+ * collection and no function deletes entries.
+ */
+export interface PrivilegeAuditEntry {
+    entryId: string;
+    action: PrivilegeAction;
+    actorUid: string; // Who made the change
+    targetUid: string; // Whose privileges changed
+    orgId: string | null; // For organization roles
+    before: Record<string, unknown>; // Custom claims before the change
+    after: Record<string, unknown>; // Custom claims after the change
+    status: PrivilegeAuditStatus;
+    tokensRevoked: boolean; // Sessions ended because privileges were taken away
+    error: string | null; // Why the change failed
+    at: string;
+}
+
+/**
+ * How long a claim change may hold a user's lock before another change may proceed.
+ */
+const CLAIMS_LOCK_MS = 60 * 1000;
+
+export function auditLogCollection() {
+    return getFirestore().collection("auditLog");
+}
+
+/**
+ * Marks the admin bootstrap as used, so ADMIN_BOOTSTRAP_SECRET works once.
+ */
+function bootstrapDoc() {
+    return getFirestore().collection("system").doc("adminBootstrap");
+}
+
+function parseUid(value: unknown): string {
+    if (typeof value !== "string" || !value) {
+        throw new HttpsError("invalid-argument", "uid is required");
+    }
+    return value;
+}
+
+/**
+ * Compares secrets in constant time (digests, so different lengths don't leak either).
+ */
+export function secretsMatch(given: string, expected: string): boolean {
+    const digest = (value: string) => createHash("sha256").update(value, "utf8").digest();
+    return timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Per-user lock on custom claim changes (claimLocks/{uid}): getUser and setCustomUserClaims
+ * are separate calls, so two changes at once would each drop the other's claims.
+ */
+function claimsLockDoc(uid: string) {
+    return getFirestore().collection("claimLocks").doc(uid);
+}
+
+/**
+ * Takes the user's claims lock, or fails if another change holds it.
+ *
+ * @throws HttpsError("aborted") if another change to the user's claims is in progress
+ */
+async function acquireClaimsLock(uid: string, holder: string): Promise<void> {
+    const ref = claimsLockDoc(uid);
+    await getFirestore().runTransaction(async (transaction) => {
+        const lock = (await transaction.get(ref)).data() as { holder: string; expiresAt: string } | undefined;
+        if (lock && lock.expiresAt > new Date().toISOString()) {
+            throw new HttpsError("aborted", `Another privilege change for user ${uid} is in progress; try again`);
+        }
+        transaction.set(ref, { holder, expiresAt: new Date(Date.now() + CLAIMS_LOCK_MS).toISOString() });
+    });
+}
+
+async function releaseClaimsLock(uid: string, holder: string): Promise<void> {
+    const ref = claimsLockDoc(uid);
+    await getFirestore().runTransaction(async (transaction) => {
+        const lock = (await transaction.get(ref)).data() as { holder: string } | undefined;
+        if (lock?.holder === holder) {
+            transaction.delete(ref);
+        }
+    });
+}
+
+/**
+ * True if a change takes privileges away: the admin claim removed, or the organization
+ * or role changed from one the user had.
+ */
+function removesPrivileges(before: Record<string, unknown>, after: Record<string, unknown>): boolean {
+    return (before.admin === true && after.admin !== true) ||
+        (before.orgId !== undefined && before.orgId !== after.orgId) ||
+        (before.orgRole !== undefined && before.orgRole !== after.orgRole);
+}
+
+/**
+ * Changes a user's custom claims, keeping the claims the update does not touch, and
+ * records the change in the audit log first (pending, then committed or failed), so no
+ * change goes unaudited. Changes to one user are serialized by a lock. When privileges
+ * are taken away, the user's refresh tokens are revoked, so they sign in again with the
+ * new claims; isAdmin rejects ID tokens issued before that. Nothing is logged when the
+ * claims are unchanged.
+ *
+ * @param update Returns the new claims from a copy of the current ones
+ * @throws HttpsError("not-found") if the user does not exist
+ * @throws HttpsError("aborted") if another change to the user's claims is in progress
+ */
+export async function updateCustomClaims(
+    targetUid: string,
+    update: (claims: Record<string, unknown>) => Record<string, unknown>,
+    audit: { action: PrivilegeAction; actorUid: string; orgId?: string | null }
+): Promise<{ before: Record<string, unknown>; after: Record<string, unknown>; changed: boolean }> {
+    const auth = getAuth();
+    const ref = auditLogCollection().doc();
+    await acquireClaimsLock(targetUid, ref.id);
+    try {
+        let before: Record<string, unknown>;
+        try {
+            before = (await auth.getUser(targetUid)).customClaims || {};
+        } catch (error) {
+            if ((error as { code?: string }).code === "auth/user-not-found") {
+                throw new HttpsError("not-found", `User ${targetUid} not found`);
+            }
+            throw error;
+        }
+
+        const after = update({ ...before });
+        const changed = JSON.stringify(Object.entries(before).sort()) !== JSON.stringify(Object.entries(after).sort());
+        if (!changed) {
+            return { before, after, changed };
+        }
+
+        const revokeTokens = removesPrivileges(before, after);
+        const entry: PrivilegeAuditEntry = {
+            entryId: ref.id,
+            action: audit.action,
+            actorUid: audit.actorUid,
+            targetUid,
+            orgId: audit.orgId ?? null,
+            before,
+            after,
+            status: "pending",
+            tokensRevoked: false,
+            error: null,
+            at: new Date().toISOString()
+        };
+        await ref.create(entry);
+
+        try {
+            await auth.setCustomUserClaims(targetUid, after);
+        } catch (error) {
+            await ref.update({ status: "failed", error: (error as Error)?.message || String(error) });
+            throw error;
+        }
+        await ref.update({ status: "committed" });
+
+        if (revokeTokens) {
+            await auth.revokeRefreshTokens(targetUid);
+            await ref.update({ tokensRevoked: true });
+        }
+
+        console.log(`Privilege change ${audit.action} for ${targetUid} by ${audit.actorUid}` +
+            (revokeTokens ? " (sessions revoked)" : ""));
+        return { before, after, changed };
+    } finally {
+        await releaseClaimsLock(targetUid, ref.id);
+    }
+}
+
+/**
+ * Cloud Function: Bootstrap the First Admin
+ *
+ * Grants the caller admin privileges: { secret }. The secret must match ADMIN_BOOTSTRAP_SECRET,
+ * and the bootstrap works once per project; later admins are granted with setAdminClaim.
+ * Unset ADMIN_BOOTSTRAP_SECRET once the first admin exists.
+ */
+export const bootstrapAdmin = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const expected = process.env.ADMIN_BOOTSTRAP_SECRET;
+        if (!expected) {
+            throw new HttpsError("failed-precondition", "Admin bootstrap is disabled (ADMIN_BOOTSTRAP_SECRET is not set)");
+        }
+        const secret = request.data?.secret;
+        if (typeof secret !== "string" || !secretsMatch(secret, expected)) {
+            console.warn(`Admin bootstrap with a wrong secret by ${callerUid}`);
+            throw new HttpsError("permission-denied", "Invalid bootstrap secret");
+        }
+
+        try {
+            await bootstrapDoc().create({ usedBy: callerUid, usedAt: new Date().toISOString() });
+        } catch (error) {
+            if ((error as { code?: number }).code === ALREADY_EXISTS) {
+                throw new HttpsError("failed-precondition", "The admin bootstrap has already been used");
+            }
+            throw error;
+        }
+
+        await updateCustomClaims(callerUid, (claims) => ({ ...claims, admin: true }), {
+            action: "admin_bootstrapped",
+            actorUid: callerUid
+        });
+
+        return {
+            success: true,
+            message: `Admin privileges granted to user ${callerUid}`,
+        };
+    }
+);
+
+/**
+ * Cloud Function: Set Admin Custom Claim
+ *
+ * Grants admin privileges to a user: { uid }. Only admins can call it; the first admin
+ * is created with bootstrapAdmin. The user's other claims are kept.
+ */
+export const setAdminClaim = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = await requireAdmin(request);
+        const targetUserId = parseUid(request.data?.uid);
+
+        const { changed } = await updateCustomClaims(targetUserId, (claims) => ({ ...claims, admin: true }), {
+            action: "admin_granted",
+            actorUid: callerUid
+        });
+
+        return {
+            success: true,
+            changed,
+            message: changed ? `Admin privileges granted to user ${targetUserId}` : `User ${targetUserId} is already an admin`,
+        };
+    }
+);
+
+/**
+ * Cloud Function: Remove Admin Custom Claim
+ *
+ * Removes admin privileges from a user: { uid }. Only admins can call it, and not on
+ * themselves (so the last admin can't lock everyone out). The user's other claims are kept.
+ */
+export const removeAdminClaim = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = await requireAdmin(request);
+        const targetUserId = parseUid(request.data?.uid);
+        if (targetUserId === callerUid) {
+            throw new HttpsError("failed-precondition", "Admins cannot remove their own admin privileges");
+        }
+
+        const { changed } = await updateCustomClaims(targetUserId, ({ admin: _admin, ...claims }) => claims, {
+            action: "admin_revoked",
+            actorUid: callerUid
+        });
+
+        return {
+            success: true,
+            changed,
+            message: changed ? `Admin privileges removed from user ${targetUserId}` : `User ${targetUserId} is not an admin`,
+        };
+    }
+);
+
+/**
+ * Cloud Function: List the Privilege Audit Log
+ *
+ * Returns privilege changes, newest first: { uid? (changes to this user), limit? } (admin only).
+ */
+export const listAuditLog = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        await requireAdmin(request);
+        const uid = request.data?.uid;
+        const limit = Math.min(Math.max(Number(request.data?.limit) || 50, 1), 500);
+
+        let query = auditLogCollection().orderBy("at", "desc");
+        if (uid !== undefined && uid !== null) {
+            query = auditLogCollection().where("targetUid", "==", parseUid(uid)).orderBy("at", "desc");
+        }
+        const snapshot = await query.limit(limit).get();
+
+        return {
+            entries: snapshot.docs.map((doc) => doc.data() as PrivilegeAuditEntry)
+        };
+    }
+);
@@ -0,0 +1,510 @@
+// functions/src/rollups.ts
+
+import {
+    getFirestore,
+    CollectionReference,
+    DocumentReference,
+    FieldPath,
+    FieldValue,
+    Query,
+    QueryDocumentSnapshot,
+    WriteBatch
+} from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { ReceiptRecord, receiptsCollection } from "./receipts";
+import { DEFAULT_ORG_ID, MANAGER_ROLES, hasOrgRole, organizationDoc, resolveTargetOrg } from "./organizations";
+import { vendorKey } from "./vendors";
+import { requireAdmin, resolveTargetUser } from "./access";
+
+/**
+ * Receipts read per page while rebuilding rollups.
+ */
+const REBUILD_PAGE_SIZE = 500;
+
+/**
+ * Rollup documents written per batch while rebuilding.
+ */
+const REBUILD_WRITE_BATCH = 400;
+
+/**
+ * Most months returned by getSpendingRollups.
+ */
+const MAX_ROLLUP_MONTHS = 36;
+
+const MONTH = /^\d{4}-\d{2}$/;
+
+/**
+ * Receipt count and amount of one slice of a month.
+ */
+export interface RollupBucket {
+    count: number;
+    totalAmount: number;
+}
+
+/**
+ * Spending of a user or organization in one month, maintained by the functions as
+ * receipts are exported, edited or removed. Stored at users/{userId}/rollups/{YYYY-MM}
+ * and organizations/{orgId}/rollups/{YYYY-MM}. Amounts are in the organization's base
+ * currency (receiptData.baseAmount); byCurrency keeps the amounts as printed. Receipts
+ * without an exchange rate are counted, but add nothing to the base-currency amounts.
+ */
+export interface SpendingRollup extends RollupBucket {
+    month: string; // YYYY-MM of the transaction date
+    byCategory: Record<string, RollupBucket>; // Keyed by category name
+    byVendor: Record<string, RollupBucket & { vendorName: string }>; // Keyed by vendorKey(); vendorName as last seen
+    byCurrency: Record<string, RollupBucket>; // Original amounts, keyed by the receipts' currency ("unknown" if not printed)
+    updatedAt: string;
+}
+
+/**
+ * What one receipt adds to its owners' rollups.
+ */
+interface RollupContribution {
+    userId: string;
+    orgId: string;
+    month: string;
+    category: string;
+    vendorKey: string;
+    vendorName: string;
+    amount: number; // In the base currency
+    currency: string;
+    originalAmount: number;
+}
+
+/**
+ * A pending change to one rollup document (or, with month null, to the owner's totals).
+ */
+interface RollupDelta {
+    ref: DocumentReference;
+    month: string | null;
+    count: number;
+    totalAmount: number;
+    byCategory: Map<string, RollupBucket>;
+    byVendor: Map<string, RollupBucket & { vendorName: string }>;
+    byCurrency: Map<string, RollupBucket>;
+}
+
+export function userRollupsCollection(userId: string) {
+    return getFirestore().collection("users").doc(userId).collection("rollups");
+}
+
+export function orgRollupsCollection(orgId: string) {
+    return organizationDoc(orgId).collection("rollups");
+}
+
+/**
+ * Only exported receipts count towards spending.
+ */
+function contributionOf(record: ReceiptRecord | null): RollupContribution | null {
+    const receiptData = record?.receiptData;
+    if (!record || record.status !== "exported" || !receiptData) {
+        return null;
+    }
+    return {
+        userId: record.userId,
+        orgId: record.orgId || DEFAULT_ORG_ID, // Entries from before organizations were recorded
+        month: receiptData.transactionDate.slice(0, 7),
+        category: receiptData.category,
+        vendorKey: vendorKey(receiptData.vendorName) || "unknown",
+        vendorName: receiptData.vendorName,
+        // Receipts from before conversion are in the base currency
+        amount: receiptData.baseAmount === undefined ? receiptData.totalAmount || 0 : receiptData.baseAmount?.amount ?? 0,
+        currency: receiptData.currency || "unknown",
+        originalAmount: receiptData.totalAmount || 0
+    };
+}
+
+function addToBucket<T extends RollupBucket>(buckets: Map<string, T>, key: string, empty: () => T, count: number, amount: number): T {
+    const bucket = buckets.get(key) ?? empty();
+    bucket.count += count;
+    bucket.totalAmount += amount;
+    buckets.set(key, bucket);
+    return bucket;
+}
+
+/**
+ * The pending change to a document, created on first use.
+ */
+function deltaFor(deltas: Map<string, RollupDelta>, ref: DocumentReference, month: string | null): RollupDelta {
+    const existing = deltas.get(ref.path);
+    if (existing) {
+        return existing;
+    }
+    const created: RollupDelta = { ref, month, count: 0, totalAmount: 0, byCategory: new Map(), byVendor: new Map(), byCurrency: new Map() };
+    deltas.set(ref.path, created);
+    return created;
+}
+
+/**
+ * Adds (sign 1) or removes (sign -1) a receipt's contribution: its user's and
+ * organization's month, and its user's all-time totals.
+ */
+function addContribution(deltas: Map<string, RollupDelta>, contribution: RollupContribution, sign: 1 | -1): void {
+    const amount = sign * contribution.amount;
+    const months = [
+        userRollupsCollection(contribution.userId).doc(contribution.month),
+        orgRollupsCollection(contribution.orgId).doc(contribution.month)
+    ];
+    for (const ref of months) {
+        const delta = deltaFor(deltas, ref, contribution.month);
+        delta.count += sign;
+        delta.totalAmount += amount;
+        addToBucket(delta.byCategory, contribution.category, () => ({ count: 0, totalAmount: 0 }), sign, amount);
+        const vendor = addToBucket(delta.byVendor, contribution.vendorKey,
+            () => ({ count: 0, totalAmount: 0, vendorName: contribution.vendorName }), sign, amount);
+        if (sign === 1) {
+            vendor.vendorName = contribution.vendorName;
+        }
+        addToBucket(delta.byCurrency, contribution.currency, () => ({ count: 0, totalAmount: 0 }), sign, sign * contribution.originalAmount);
+    }
+
+    const totals = deltaFor(deltas, getFirestore().collection("users").doc(contribution.userId), null);
+    totals.count += sign;
+    totals.totalAmount += amount;
+}
+
+/**
+ * Nested increments for the changed buckets of a map field.
+ */
+function bucketIncrements(buckets: Map<string, RollupBucket & { vendorName?: string }>) {
+    return Object.fromEntries(
+        [...buckets.entries()]
+            .filter(([, bucket]) => bucket.count !== 0 || bucket.totalAmount !== 0)
+            .map(([key, bucket]) => [key, {
+                count: FieldValue.increment(bucket.count),
+                totalAmount: FieldValue.increment(bucket.totalAmount),
+                ...(bucket.vendorName !== undefined ? { vendorName: bucket.vendorName } : {})
+            }])
+    );
+}
+
+/**
+ * The rollup writes for receipts whose state changed, to be merged (set with
+ * { merge: true }) in the same transaction or batch as the receipt changes, so
+ * the rollups stay in step with the ledger. Pass null as before for a newly
+ * exported receipt and null as after for a deleted one. Receipts that are not
+ * (or no longer) exported contribute nothing. Changes to the same document are
+ * combined into one write.
+ */
+export function rollupWrites(
+    changes: { before: ReceiptRecord | null; after: ReceiptRecord | null }[]
+): { ref: DocumentReference; data: Record<string, unknown> }[] {
+    const deltas = new Map<string, RollupDelta>();
+    for (const { before, after } of changes) {
+        const removed = contributionOf(before);
+        const added = contributionOf(after);
+        if (removed && added && JSON.stringify(removed) === JSON.stringify(added)) {
+            continue;
+        }
+        if (removed) {
+            addContribution(deltas, removed, -1);
+        }
+        if (added) {
+            addContribution(deltas, added, 1);
+        }
+    }
+
+    const now = new Date().toISOString();
+    return [...deltas.values()].map((delta) => ({
+        ref: delta.ref,
+        data: delta.month === null
+            ? {
+                totalReceipts: FieldValue.increment(delta.count),
+                totalAmount: FieldValue.increment(delta.totalAmount),
+                lastUpdated: now
+            }
+            : {
+                month: delta.month,
+                count: FieldValue.increment(delta.count),
+                totalAmount: FieldValue.increment(delta.totalAmount),
+                byCategory: bucketIncrements(delta.byCategory),
+                byVendor: bucketIncrements(delta.byVendor),
+                byCurrency: bucketIncrements(delta.byCurrency),
+                updatedAt: now
+            }
+    }));
+}
+
+/**
+ * Rounds accumulated floating-point sums to cents.
+ */
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Adds averages (and rounds sums) for clients.
+ */
+function withAverage<T extends RollupBucket>(bucket: T) {
+    const totalAmount = roundAmount(bucket.totalAmount);
+    return { ...bucket, totalAmount, averageAmount: bucket.count > 0 ? roundAmount(totalAmount / bucket.count) : 0 };
+}
+
+function mergeBuckets<T extends RollupBucket>(target: Record<string, T>, source: Record<string, T>): void {
+    for (const [key, bucket] of Object.entries(source)) {
+        const existing = target[key];
+        target[key] = existing
+            ? { ...existing, count: existing.count + bucket.count, totalAmount: existing.totalAmount + bucket.totalAmount }
+            : { ...bucket };
+    }
+}
+
+function sortedBuckets<T extends RollupBucket>(buckets: Record<string, T>) {
+    return Object.entries(buckets)
+        .filter(([, bucket]) => bucket.count > 0)
+        .map(([key, bucket]) => ({ key, ...withAverage(bucket) }))
+        .sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
+/**
+ * Cloud Function: Get Spending Rollups
+ *
+ * Returns monthly spending with per-category and per-vendor counts, sums and averages:
+ * { scope?: "personal" | "organization", userId?, orgId?, from?: "YYYY-MM", to?: "YYYY-MM" }.
+ * Personal rollups are the caller's (admins may pass userId); organization rollups are
+ * seen by the organization's owners and admins, as with its budgets. Without a range, the last 12 months that have receipts are returned.
+ */
+export const getSpendingRollups = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const scope = request.data?.scope ?? "personal";
+        let collection;
+        if (scope === "personal") {
+            collection = userRollupsCollection(await resolveTargetUser(request, request.data?.userId));
+        } else if (scope === "organization") {
+            const orgId = await resolveTargetOrg(request, request.data?.orgId);
+            if (!await hasOrgRole(request, orgId, MANAGER_ROLES)) {
+                throw new HttpsError("permission-denied", "Only the organization's owners and admins can view its spending");
+            }
+            collection = orgRollupsCollection(orgId);
+        } else {
+            throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+        }
+
+        const { from, to } = request.data || {};
+        for (const [name, value] of [["from", from], ["to", to]]) {
+            if (value !== undefined && (typeof value !== "string" || !MONTH.test(value))) {
+                throw new HttpsError("invalid-argument", `${name} must be a month (YYYY-MM)`);
+            }
+        }
+
+        let query: Query = collection;
+        if (from) {
+            query = query.where("month", ">=", from);
+        }
+        if (to) {
+            query = query.where("month", "<=", to);
+        }
+        const snapshot = await query.orderBy("month", "desc").limit(from ? MAX_ROLLUP_MONTHS : 12).get();
+        const months = snapshot.docs
+            .map((doc) => doc.data() as SpendingRollup)
+            .filter((rollup) => rollup.count > 0)
+            .reverse();
+
+        const byCategory: Record<string, RollupBucket> = {};
+        const byVendor: Record<string, RollupBucket & { vendorName: string }> = {};
+        const byCurrency: Record<string, RollupBucket> = {};
+        months.forEach((rollup) => {
+            mergeBuckets(byCategory, rollup.byCategory || {});
+            mergeBuckets(byVendor, rollup.byVendor || {});
+            mergeBuckets(byCurrency, rollup.byCurrency || {});
+        });
+
+        return {
+            months: months.map((rollup) => ({
+                ...withAverage(rollup),
+                byCategory: sortedBuckets(rollup.byCategory || {}).map(({ key, ...bucket }) => ({ category: key, ...bucket })),
+                byVendor: sortedBuckets(rollup.byVendor || {}).map(({ key, ...bucket }) => ({ vendorKey: key, ...bucket })),
+                byCurrency: sortedBuckets(rollup.byCurrency || {}).map(({ key, ...bucket }) => ({ currency: key, ...bucket }))
+            })),
+            total: withAverage({
+                count: months.reduce((sum, rollup) => sum + rollup.count, 0),
+                totalAmount: months.reduce((sum, rollup) => sum + rollup.totalAmount, 0)
+            }),
+            byCategory: sortedBuckets(byCategory).map(({ key, ...bucket }) => ({ category: key, ...bucket })),
+            byVendor: sortedBuckets(byVendor).map(({ key, ...bucket }) => ({ vendorKey: key, ...bucket })),
+            byCurrency: sortedBuckets(byCurrency).map(({ key, ...bucket }) => ({ currency: key, ...bucket }))
+        };
+    }
+);
+
+/**
+ * Reads every receipt in a query, a page at a time.
+ */
+async function forEachReceipt(query: Query, callback: (record: ReceiptRecord) => void): Promise<void> {
+    let last: QueryDocumentSnapshot | undefined;
+    for (;;) {
+        let page = query.orderBy(FieldPath.documentId()).limit(REBUILD_PAGE_SIZE);
+        if (last) {
+            page = page.startAfter(last);
+        }
+        const snapshot = await page.get();
+        snapshot.docs.forEach((doc) => callback(doc.data() as ReceiptRecord));
+        if (snapshot.size < REBUILD_PAGE_SIZE) {
+            return;
+        }
+        last = snapshot.docs[snapshot.docs.length - 1];
+    }
+}
+
+/**
+ * Computes rollups from scratch for the given receipts: user months, organization
+ * months and/or user totals.
+ */
+function computeRollups(
+    records: ReceiptRecord[],
+    scope: { userMonths: boolean; orgMonths: boolean; totals: boolean }
+) {
+    const rollups = new Map<string, { ref: DocumentReference; rollup: SpendingRollup }>();
+    const totals = new Map<string, { count: number; totalAmount: number }>();
+    const now = new Date().toISOString();
+
+    const addTo = (ref: DocumentReference, contribution: RollupContribution) => {
+        const entry = rollups.get(ref.path) ?? {
+            ref,
+            rollup: { month: contribution.month, count: 0, totalAmount: 0, byCategory: {}, byVendor: {}, byCurrency: {}, updatedAt: now }
+        };
+        const { rollup } = entry;
+        rollup.count++;
+        rollup.totalAmount += contribution.amount;
+        const category = rollup.byCategory[contribution.category] ??= { count: 0, totalAmount: 0 };
+        category.count++;
+        category.totalAmount += contribution.amount;
+        const vendor = rollup.byVendor[contribution.vendorKey] ??= { count: 0, totalAmount: 0, vendorName: contribution.vendorName };
+        vendor.count++;
+        vendor.totalAmount += contribution.amount;
+        const currency = rollup.byCurrency[contribution.currency] ??= { count: 0, totalAmount: 0 };
+        currency.count++;
+        currency.totalAmount += contribution.originalAmount;
+        rollups.set(ref.path, entry);
+    };
+
+    for (const record of records) {
+        const contribution = contributionOf(record);
+        if (!contribution) {
+            continue;
+        }
+        if (scope.userMonths) {
+            addTo(userRollupsCollection(contribution.userId).doc(contribution.month), contribution);
+        }
+        if (scope.orgMonths) {
+            addTo(orgRollupsCollection(contribution.orgId).doc(contribution.month), contribution);
+        }
+        if (scope.totals) {
+            const userTotals = totals.get(contribution.userId) ?? { count: 0, totalAmount: 0 };
+            userTotals.count++;
+            userTotals.totalAmount += contribution.amount;
+            totals.set(contribution.userId, userTotals);
+        }
+    }
+    return { rollups, totals };
+}
+
+/**
+ * Replaces rollup documents with rebuilt ones: months that no longer have receipts
+ * are deleted, the others overwritten. User totals are set, not incremented.
+ */
+async function writeRebuiltRollups(
+    collections: CollectionReference[],
+    rebuilt: ReturnType<typeof computeRollups>,
+    userIds: string[]
+): Promise<number> {
+    const db = getFirestore();
+    const writes: ((batch: WriteBatch) => void)[] = [];
+
+    for (const ref of collections) {
+        const existing = await ref.select().get();
+        existing.docs
+            .filter((doc) => !rebuilt.rollups.has(doc.ref.path))
+            .forEach((doc) => writes.push((batch) => batch.delete(doc.ref)));
+    }
+    for (const { ref, rollup } of rebuilt.rollups.values()) {
+        writes.push((batch) => batch.set(ref, rollup));
+    }
+    const now = new Date().toISOString();
+    for (const userId of userIds) {
+        const totals = rebuilt.totals.get(userId) ?? { count: 0, totalAmount: 0 };
+        writes.push((batch) => batch.set(db.collection("users").doc(userId), {
+            totalReceipts: totals.count,
+            totalAmount: roundAmount(totals.totalAmount),
+            lastUpdated: now
+        }, { merge: true }));
+    }
+
+    for (let i = 0; i < writes.length; i += REBUILD_WRITE_BATCH) {
+        const batch = db.batch();
+        writes.slice(i, i + REBUILD_WRITE_BATCH).forEach((write) => write(batch));
+        await batch.commit();
+    }
+    return rebuilt.rollups.size;
+}
+
+/**
+ * Cloud Function: Rebuild Rollups (admin only)
+ *
+ * Recomputes spending rollups and user totals from the receipt ledger:
+ * { userId } for one user's rollups and totals, { orgId } for one organization's
+ * rollups, or neither for everything. Receipts exported while it runs may be
+ * counted twice or not at all; run it when uploads are quiet, or run it again.
+ */
+export const rebuildRollups = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 540, // Reads every receipt in scope
+        memory: "1GiB",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const { userId, orgId } = request.data || {};
+        const records: ReceiptRecord[] = [];
+        const collect = (record: ReceiptRecord) => {
+            if (record.status === "exported") {
+                records.push(record);
+            }
+        };
+
+        let rebuilt;
+        let collections: CollectionReference[];
+        let userIds: string[];
+        if (typeof userId === "string" && userId) {
+            await forEachReceipt(receiptsCollection(userId).where("status", "==", "exported"), collect);
+            rebuilt = computeRollups(records, { userMonths: true, orgMonths: false, totals: true });
+            collections = [userRollupsCollection(userId)];
+            userIds = [userId];
+        } else if (typeof orgId === "string" && orgId) {
+            const receipts = getFirestore().collectionGroup("receipts");
+            await forEachReceipt(receipts.where("orgId", "==", orgId), collect);
+            if (orgId === DEFAULT_ORG_ID) {
+                await forEachReceipt(receipts.where("status", "==", "exported"), (record) => {
+                    if (!record.orgId) {
+                        collect(record);
+                    }
+                });
+            }
+            rebuilt = computeRollups(records, { userMonths: false, orgMonths: true, totals: false });
+            collections = [orgRollupsCollection(orgId)];
+            userIds = [];
+        } else {
+            await forEachReceipt(getFirestore().collectionGroup("receipts").where("status", "==", "exported"), collect);
+            rebuilt = computeRollups(records, { userMonths: true, orgMonths: true, totals: true });
+
+            // Also clear rollups of users and organizations that no longer have exported receipts
+            const [users, organizations] = await Promise.all([
+                getFirestore().collection("users").select().get(),
+                getFirestore().collection("organizations").select().get()
+            ]);
+            userIds = users.docs.map((doc) => doc.id);
+            collections = [
+                ...userIds.map(userRollupsCollection),
+                ...organizations.docs.map((doc) => orgRollupsCollection(doc.id))
+            ];
+        }
+
+        const months = await writeRebuiltRollups(collections, rebuilt, userIds);
+        console.log(`Rollups rebuilt by ${adminUid} (${userId ? `user ${userId}` : orgId ? `organization ${orgId}` : "all"}): ` +
+            `${records.length} receipts, ${months} month documents`);
+        return { success: true, receipts: records.length, months };
+    }
+);
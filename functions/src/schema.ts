@@ -1,9 +1,21 @@
 // functions/src/schema.ts
 
+import { ResponseSchema } from "@google-cloud/vertexai";
+import {
+    Infer,
+    arrayField,
+    enumField,
+    nullable,
+    numberField,
+    objectField,
+    stringField
+} from "./validation";
+
 /**
- * Defines the strict categories allowed for financial logging.
+ * The categories used when an organization has not configured its own taxonomy
+ * (see taxonomy.ts). Receipts store the category name as a plain string.
  */
-export enum Category {
+export enum DefaultCategory {
     MAINTENANCE = "Maintenance",
     CLEANING_SUPPLIES = "Cleaning Supplies",
     UTILITIES = "Utilities",
@@ -12,41 +24,231 @@ export enum Category {
 }
 
 /**
- * TypeScript interface for the clean, structured data extracted by Gemini.
+ * How the purchase was paid for.
  */
-export interface ReceiptData {
-    vendorName: string;
-    transactionDate: string; // YYYY-MM-DD format
-    totalAmount: number;
-    category: Category;
-    timestamp: string; // ISO 8601 timestamp of when the function ran
+export enum PaymentMethodType {
+    CASH = "cash",
+    CREDIT_CARD = "credit_card",
+    DEBIT_CARD = "debit_card",
+    CHECK = "check",
+    BANK_TRANSFER = "bank_transfer",
+    MOBILE = "mobile",
+    OTHER = "other"
 }
 
 /**
- * JSON Schema definition used to force Gemini's structured output.
+ * A tax line on the receipt (e.g. "VAT 21%" or "Sales Tax").
+ */
+export const TAX_LINE_FIELD = objectField({
+    label: nullable(stringField({ description: "The tax name as printed (e.g., VAT, Sales Tax)." })),
+    rate: nullable(numberField({ minimum: 0, description: "The tax rate as a percentage (e.g., 8.25)." })),
+    amount: numberField({ description: "The tax amount." })
+});
+export type TaxLine = Infer<typeof TAX_LINE_FIELD>;
+
+export const PAYMENT_METHOD_FIELD = objectField({
+    type: enumField(PaymentMethodType),
+    last4: nullable(stringField({ pattern: /^\d{4}$/, description: "Last four digits of the card, if printed." }))
+}, { description: "How the purchase was paid, or null if not shown." });
+export type PaymentMethod = Infer<typeof PAYMENT_METHOD_FIELD>;
+
+/**
+ * The model's own confidence (0-1) in the key fields it extracted.
  */
-export const RECEIPT_SCHEMA = {
-    type: "object",
-    properties: {
-        vendorName: {
-            type: "string",
+export const FIELD_CONFIDENCE_FIELD = objectField({
+    vendorName: numberField({ minimum: 0, maximum: 1 }),
+    transactionDate: numberField({ minimum: 0, maximum: 1 }),
+    totalAmount: numberField({ minimum: 0, maximum: 1 }),
+    category: numberField({ minimum: 0, maximum: 1 })
+}, { description: "Your confidence from 0 to 1 that each of these fields is correct." });
+export type FieldConfidence = Infer<typeof FIELD_CONFIDENCE_FIELD>;
+
+/**
+ * Most receipts the extraction of a single file may return.
+ */
+export const MAX_RECEIPTS_PER_FILE = 50;
+
+/**
+ * Single definition of everything the model extracts from a file, for a given
+ * list of category names (the organization's active taxonomy).
+ * The response schema sent to the model, the ExtractedReceipt type and the
+ * runtime validators are all derived from it.
+ */
+export function buildReceiptFields(categories: readonly string[]) {
+    /**
+     * A single purchased item on the receipt.
+     */
+    const lineItem = objectField({
+        description: stringField({ minLength: 1, description: "The item text as printed." }),
+        quantity: numberField({ minimum: 0, exclusiveMinimum: true, description: "Number of units (1 if not shown)." }),
+        unitPrice: nullable(numberField({ description: "Price per unit, or null if not printed." })),
+        lineTotal: numberField({ description: "The line amount." }),
+        category: enumField(categories, { description: "The business category of this item." })
+    });
+
+    const receipt = objectField({
+        vendorName: stringField({
+            minLength: 1,
             description: "The name of the company or store on the receipt (e.g., Home Depot, QuickMart)."
-        },
-        transactionDate: {
-            type: "string",
+        }),
+        transactionDate: stringField({
             format: "date",
             description: "The date of the purchase in YYYY-MM-DD format only."
-        },
-        totalAmount: {
-            type: "number",
+        }),
+        totalAmount: numberField({
+            minimum: 0,
+            exclusiveMinimum: true,
             description: "The grand total of the purchase, including tax and fees."
-        },
-        category: {
-            type: "string",
-            enum: Object.values(Category),
+        }),
+        category: enumField(categories, {
             description: "The assigned business category from the predefined list."
-        },
-        // We will add the timestamp in the processor, not extracted by AI.
-    },
-    required: ["vendorName", "transactionDate", "totalAmount", "category"]
-};
+        }),
+        subtotal: nullable(numberField({
+            description: "The total before tax and tip, or null if not printed."
+        })),
+        taxes: arrayField(TAX_LINE_FIELD, {
+            description: "Each tax line on the receipt. Empty if no tax is shown."
+        }),
+        tipAmount: nullable(numberField({
+            minimum: 0,
+            description: "The tip or gratuity, or null if none."
+        })),
+        currency: nullable(stringField({
+            pattern: /^[A-Z]{3}$/,
+            description: "The ISO 4217 currency code (e.g., USD, EUR), or null if it cannot be determined."
+        })),
+        paymentMethod: nullable(PAYMENT_METHOD_FIELD),
+        receiptNumber: nullable(stringField({
+            description: "The receipt, invoice or transaction number, or null if not printed."
+        })),
+        lineItems: arrayField(lineItem, {
+            description: "Every purchased item on the receipt. Empty if items are not itemized."
+        }),
+        confidence: nullable(FIELD_CONFIDENCE_FIELD)
+    });
+
+    /**
+     * One receipt found in an uploaded file, with the page it is on.
+     */
+    const documentReceipt = objectField({
+        ...receipt.properties,
+        pageNumber: nullable(numberField({
+            minimum: 1,
+            description: "The 1-based page of the document this receipt is on (1 for a single image)."
+        }))
+    });
+
+    /**
+     * Everything extracted from one uploaded file. A file may hold several
+     * receipts: a stack scanned into one PDF, or receipts photographed side by side.
+     */
+    const document = objectField({
+        receipts: arrayField(documentReceipt, {
+            description: "One entry per separate receipt in the file, in page and reading order."
+        })
+    });
+
+    /**
+     * Response schema passed to the model to force Gemini's structured output.
+     * The source, timestamp, reconciliation and review flags are added in the processor, not extracted by AI.
+     */
+    const responseSchema: ResponseSchema = document.schema;
+
+    return { lineItem, receipt, documentReceipt, document, responseSchema };
+}
+export type ReceiptFields = ReturnType<typeof buildReceiptFields>;
+
+export type LineItem = Infer<ReceiptFields["lineItem"]>;
+export type ExtractedReceipt = Infer<ReceiptFields["receipt"]>;
+export type ExtractedDocument = Infer<ReceiptFields["document"]>;
+
+/**
+ * Where a receipt came from. Set by the processor, not extracted by AI.
+ */
+export interface ReceiptSource {
+    filePath: string; // Storage path of the uploaded file
+    pageNumber: number | null; // 1-based page in the file, null if the model did not say
+    index: number; // 0-based position of the receipt within the file
+    count: number; // Number of receipts found in the file
+}
+
+/**
+ * Result of checking that line items + tax + tip add up to the total.
+ * Computed by the processor, not extracted by AI.
+ */
+export interface ReceiptReconciliation {
+    lineItemsTotal: number | null;
+    taxTotal: number;
+    tipAmount: number;
+    computedTotal: number | null; // null when there is nothing to reconcile against
+    difference: number | null; // totalAmount - computedTotal
+    taxInclusive: boolean; // The line prices already include the tax (VAT/GST), so computedTotal leaves it out
+    hasDiscrepancy: boolean;
+}
+
+/**
+ * What the organization's vendor aliases and category rules changed after extraction.
+ * Set by the processor, not extracted by AI.
+ */
+export interface VendorRuleMatch {
+    ruleId: string | null; // Category rule that set the category, null if only the vendor name was canonicalized
+    extractedVendorName: string; // Vendor name as the model read it
+    extractedCategory: string; // Category the model chose
+}
+
+/**
+ * A receipt's total in its organization's base currency (see currency.ts).
+ * Computed by the functions, not extracted by AI.
+ */
+export interface BaseCurrencyAmount {
+    currency: string; // The organization's base currency (ISO 4217)
+    amount: number; // totalAmount converted, rounded to cents
+    rate: number; // Base currency units per unit of the receipt's currency (1 if the same)
+    rateDate: string | null; // Date of the rate used (YYYY-MM-DD), null if no conversion was needed
+    source: "same_currency" | "assumed_base" | "rate_table"; // assumed_base: the receipt's currency is unknown
+}
+
+/**
+ * Which provider and version extracted a receipt (see ExtractionProvider).
+ * Set by the processor, not extracted by AI.
+ */
+export interface ExtractionStamp {
+    provider: string;
+    version: string;
+    promptVersion?: string | null; // Prompt template (see prompts.ts); null if unknown, absent on receipts from before templates
+}
+
+/**
+ * Why a receipt needs a human to look at it.
+ */
+export type ReviewReason =
+    | "invalid_value" // The model never produced a valid value; the raw value was kept or cleared
+    | "category_fallback" // The category could not be matched and was defaulted
+    | "total_mismatch" // Line items + tax + tip do not add up to the total
+    | "low_confidence" // The model's confidence in a field is below the review threshold
+    | "other_category" // The receipt got the taxonomy's fallback category (e.g. "Other")
+    | "missing_exchange_rate"; // No rate to convert the total to the base currency
+
+/**
+ * Explicit marker for a field that was not extracted cleanly.
+ * Replaces silent fallbacks such as substituting today's date.
+ */
+export interface ReviewFlag {
+    field: string; // Path of the field, e.g. "transactionDate" or "lineItems[1].category"
+    reason: ReviewReason;
+    message: string;
+}
+
+/**
+ * TypeScript interface for the clean, structured data extracted by Gemini.
+ */
+export interface ReceiptData extends ExtractedReceipt {
+    source: ReceiptSource;
+    vendorRule?: VendorRuleMatch; // Absent if no alias or rule applied
+    baseAmount?: BaseCurrencyAmount | null; // null if no exchange rate was found; absent on receipts from before conversion (base currency)
+    extractedWith?: ExtractionStamp; // Absent on receipts extracted before versions were recorded
+    reconciliation: ReceiptReconciliation;
+    reviewFlags: ReviewFlag[];
+    needsReview: boolean;
+    timestamp: string; // ISO 8601 timestamp of when the function ran
+}
@@ -0,0 +1,304 @@
+// functions/src/sheetDestinations.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import {
+    DEFAULT_SHEET_COLUMNS,
+    SHEET_COLUMNS,
+    SheetColumnKey,
+    SheetColumnMapping,
+    SheetDestination,
+    canEditSpreadsheet,
+    ensureSheetHeaders,
+    getServiceAccountEmail
+} from "./sheets";
+import { MANAGER_ROLES, getOrgIdForUser, hasOrgRole, organizationDoc, resolveTargetOrg } from "./organizations";
+import { isAdmin, resolveTargetUser } from "./access";
+
+const MAX_HEADER_LENGTH = 100;
+const MAX_SHEET_NAME_LENGTH = 100;
+
+/**
+ * Whose Sheet a destination is: a user's own, or their organization's.
+ */
+export type SheetDestinationScope = "personal" | "organization";
+
+/**
+ * A registered Sheet destination. Stored at users/{userId}/settings/sheetDestination
+ * (personal) or organizations/{orgId}/settings/sheetDestination.
+ */
+export interface SheetDestinationConfig extends SheetDestination {
+    scope: SheetDestinationScope;
+    ownerId: string; // userId or orgId
+    updatedBy: string;
+    updatedAt: string;
+}
+
+/**
+ * The destination a user's receipts are written to, and where it was configured.
+ * "default" is the deployment-wide GOOGLE_SHEET_ID.
+ */
+export interface ResolvedSheetDestination extends SheetDestination {
+    scope: SheetDestinationScope | "default";
+}
+
+function destinationDoc(scope: SheetDestinationScope, ownerId: string) {
+    const owner = scope === "personal"
+        ? getFirestore().collection("users").doc(ownerId)
+        : organizationDoc(ownerId);
+    return owner.collection("settings").doc("sheetDestination");
+}
+
+/**
+ * A registered destination, or null if none is registered at that level.
+ */
+export async function getDestinationConfig(scope: SheetDestinationScope, ownerId: string): Promise<SheetDestinationConfig | null> {
+    const snapshot = await destinationDoc(scope, ownerId).get();
+    return (snapshot.data() as SheetDestinationConfig | undefined) ?? null;
+}
+
+/**
+ * Resolves where a user's receipts go: their own Sheet, else their organization's,
+ * else the deployment-wide GOOGLE_SHEET_ID (first tab, original five columns).
+ *
+ * @returns The destination, or null if none is configured at all
+ */
+export async function resolveSheetDestination(userId: string, orgId: string): Promise<ResolvedSheetDestination | null> {
+    const [personal, organization] = await Promise.all([
+        getDestinationConfig("personal", userId),
+        getDestinationConfig("organization", orgId)
+    ]);
+
+    const config = personal ?? organization;
+    if (config) {
+        return {
+            scope: config.scope,
+            spreadsheetId: config.spreadsheetId,
+            sheetName: config.sheetName,
+            columns: config.columns
+        };
+    }
+
+    return defaultSheetDestination();
+}
+
+/**
+ * The deployment-wide destination (GOOGLE_SHEET_ID), or null if it is not set.
+ */
+export function defaultSheetDestination(): ResolvedSheetDestination | null {
+    const sheetId = process.env.GOOGLE_SHEET_ID;
+    if (!sheetId) {
+        return null;
+    }
+    return { scope: "default", spreadsheetId: sheetId, sheetName: null, columns: DEFAULT_SHEET_COLUMNS };
+}
+
+/**
+ * Accepts a spreadsheet ID or its URL (https://docs.google.com/spreadsheets/d/{id}/edit).
+ */
+function parseSpreadsheetId(value: unknown): string {
+    if (typeof value !== "string") {
+        throw new HttpsError("invalid-argument", "spreadsheetId is required");
+    }
+    const fromUrl = value.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+    const spreadsheetId = fromUrl ? fromUrl[1] : value.trim();
+    if (!/^[a-zA-Z0-9_-]{20,}$/.test(spreadsheetId)) {
+        throw new HttpsError("invalid-argument", "spreadsheetId must be a Google Sheets ID or URL");
+    }
+    return spreadsheetId;
+}
+
+/**
+ * Validates a column mapping: ["vendorName", ...] or [{ field, header? }, ...].
+ * Headers default to the field's standard header.
+ */
+function parseColumns(value: unknown): SheetColumnMapping[] {
+    if (value === undefined || value === null) {
+        return DEFAULT_SHEET_COLUMNS;
+    }
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new HttpsError("invalid-argument", "columns must be a non-empty array");
+    }
+
+    const fields = Object.keys(SHEET_COLUMNS) as SheetColumnKey[];
+    const columns = value.map((entry, index): SheetColumnMapping => {
+        const field = typeof entry === "string" ? entry : entry?.field;
+        if (!fields.includes(field)) {
+            throw new HttpsError("invalid-argument", `columns[${index}].field must be one of: ${fields.join(", ")}`);
+        }
+        const header = typeof entry === "object" && entry?.header !== undefined ? entry.header : SHEET_COLUMNS[field as SheetColumnKey].header;
+        if (typeof header !== "string" || !header.trim() || header.length > MAX_HEADER_LENGTH) {
+            throw new HttpsError("invalid-argument", `columns[${index}].header must be a non-empty string of at most ${MAX_HEADER_LENGTH} characters`);
+        }
+        return { field: field as SheetColumnKey, header: header.trim() };
+    });
+
+    const headers = columns.map((column) => column.header.toLowerCase());
+    if (new Set(headers).size !== headers.length) {
+        throw new HttpsError("invalid-argument", "Column headers must be unique");
+    }
+    return columns;
+}
+
+/**
+ * Makes sure the caller may send receipts to a spreadsheet. The Service Account can edit
+ * every Sheet shared with it (the deployment default and other users' and organizations'
+ * Sheets), so non-admins must be able to edit the file themselves.
+ *
+ * @throws HttpsError("permission-denied") if they can't, or have no verified email to check
+ */
+async function requireSpreadsheetAccess(request: CallableRequest, spreadsheetId: string): Promise<void> {
+    if (await isAdmin(request)) {
+        return;
+    }
+    if (spreadsheetId === process.env.GOOGLE_SHEET_ID) {
+        throw new HttpsError("permission-denied", "The default Sheet can't be registered as a destination");
+    }
+    const token = request.auth?.token;
+    if (typeof token?.email !== "string" || token.email_verified !== true) {
+        throw new HttpsError("permission-denied", "A verified email address is required to register a Sheet");
+    }
+
+    let canEdit: boolean;
+    try {
+        canEdit = await canEditSpreadsheet(spreadsheetId, token.email.toLowerCase());
+    } catch (error) {
+        const serviceAccountEmail = getServiceAccountEmail();
+        throw new HttpsError("failed-precondition",
+            `Could not check the spreadsheet's sharing: ${(error as Error).message}` +
+            (serviceAccountEmail ? ` Make sure it is shared with ${serviceAccountEmail} as an editor.` : ""));
+    }
+    if (!canEdit) {
+        throw new HttpsError("permission-denied", `You need edit access to spreadsheet ${spreadsheetId} to register it`);
+    }
+}
+
+/**
+ * Lists the fields that can be mapped to columns, with their default headers.
+ */
+function availableColumns() {
+    return (Object.keys(SHEET_COLUMNS) as SheetColumnKey[]).map((field) => ({ field, header: SHEET_COLUMNS[field].header }));
+}
+
+/**
+ * Resolves whose destination a change applies to. Personal destinations belong to the
+ * caller (admins may pass userId); organization destinations are changed by the
+ * organization's owners and admins.
+ */
+async function resolveOwner(request: CallableRequest) {
+    const scope = request.data?.scope;
+    if (scope !== "personal" && scope !== "organization") {
+        throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+    }
+    if (scope === "personal") {
+        return { scope: scope as SheetDestinationScope, ownerId: await resolveTargetUser(request, request.data?.userId) };
+    }
+    const orgId = await resolveTargetOrg(request, request.data?.orgId);
+    if (!await hasOrgRole(request, orgId, MANAGER_ROLES)) {
+        throw new HttpsError("permission-denied", "Only the organization's owners and admins can change its Sheet");
+    }
+    return { scope: scope as SheetDestinationScope, ownerId: orgId };
+}
+
+/**
+ * Cloud Function: Get Sheet Destination
+ *
+ * Returns the caller's personal and organization destinations, the one receipts
+ * actually go to, the mappable columns and the Service Account to share Sheets with.
+ * Admins may pass { userId } (and orgId) to look at another user.
+ */
+export const getSheetDestination = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const userId = await resolveTargetUser(request, request.data?.userId);
+        const orgId = request.data?.orgId !== undefined
+            ? await resolveTargetOrg(request, request.data.orgId)
+            : await getOrgIdForUser(userId);
+
+        const [personal, organization, effective] = await Promise.all([
+            getDestinationConfig("personal", userId),
+            getDestinationConfig("organization", orgId),
+            resolveSheetDestination(userId, orgId)
+        ]);
+
+        return {
+            personal,
+            organization,
+            effective,
+            availableColumns: availableColumns(),
+            serviceAccountEmail: getServiceAccountEmail()
+        };
+    }
+);
+
+/**
+ * Cloud Function: Set Sheet Destination
+ *
+ * Registers a spreadsheet for the caller's receipts or (owners and admins) their organization's:
+ * { scope: "personal" | "organization", spreadsheetId (ID or URL), sheetName?, columns?, userId?, orgId? }.
+ * The spreadsheet must be shared with the Service Account, and the caller must be able
+ * to edit it (checked through its Drive sharing). The tab is created if
+ * missing and its header row written or extended to match the columns.
+ */
+export const setSheetDestination = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveOwner(request);
+        const spreadsheetId = parseSpreadsheetId(request.data?.spreadsheetId);
+        const sheetName = request.data?.sheetName ?? null;
+        if (sheetName !== null && (typeof sheetName !== "string" || !sheetName.trim() || sheetName.length > MAX_SHEET_NAME_LENGTH)) {
+            throw new HttpsError("invalid-argument", `sheetName must be a tab name of at most ${MAX_SHEET_NAME_LENGTH} characters, or null for the first tab`);
+        }
+        const columns = parseColumns(request.data?.columns);
+
+        await requireSpreadsheetAccess(request, spreadsheetId);
+
+        const destination: SheetDestination = { spreadsheetId, sheetName: sheetName?.trim() ?? null, columns };
+
+        // Check access and set up the header row now rather than on the first receipt
+        let headers;
+        try {
+            headers = await ensureSheetHeaders(destination);
+        } catch (error) {
+            const serviceAccountEmail = getServiceAccountEmail();
+            throw new HttpsError("failed-precondition",
+                `Could not set up the spreadsheet: ${(error as Error).message}` +
+                (serviceAccountEmail ? ` Make sure it is shared with ${serviceAccountEmail} as an editor.` : ""));
+        }
+
+        const config: SheetDestinationConfig = {
+            ...destination,
+            scope,
+            ownerId,
+            updatedBy: request.auth!.uid,
+            updatedAt: new Date().toISOString()
+        };
+        await destinationDoc(scope, ownerId).set(config);
+
+        console.log(`Sheet destination for ${scope} ${ownerId} set to ${spreadsheetId} ("${headers.sheetName}", headers ${headers.headerAction})`);
+        return { success: true, destination: config, sheetName: headers.sheetName, headerAction: headers.headerAction };
+    }
+);
+
+/**
+ * Cloud Function: Clear Sheet Destination
+ *
+ * Removes a registered destination: { scope, userId?, orgId? }. Receipts then go to
+ * the next destination in line (organization, then the deployment default).
+ */
+export const clearSheetDestination = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveOwner(request);
+        await destinationDoc(scope, ownerId).delete();
+
+        console.log(`Sheet destination for ${scope} ${ownerId} cleared by ${request.auth!.uid}`);
+        return { success: true };
+    }
+);
@@ -0,0 +1,400 @@
+// functions/src/sheetSync.ts
+
+import { getFirestore } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import {
+    SheetContents,
+    SheetDestination,
+    SheetRowOperation,
+    applySheetOperations,
+    comparableCell,
+    deleteReceiptRows,
+    readSheet,
+    rowValues,
+    upsertReceiptRows
+} from "./sheets";
+import {
+    ResolvedSheetDestination,
+    defaultSheetDestination,
+    getDestinationConfig,
+    resolveSheetDestination
+} from "./sheetDestinations";
+import { ReceiptRecord, SheetRowReference, receiptsCollection } from "./receipts";
+import { getOrgIdForUser } from "./organizations";
+import { requireAdmin } from "./access";
+
+/**
+ * Most drift entries returned by one reconciliation (the counts are always complete).
+ */
+const MAX_REPORTED_DRIFT = 500;
+
+/**
+ * Outcome of syncing receipts' rows.
+ */
+export interface SheetSyncResult {
+    updated: number; // Rows written (updated in place or appended)
+    removed: number; // Rows deleted
+    failed: number; // Receipts whose Sheet could not be reached; see their sheetsError
+}
+
+/**
+ * How a Sheet row differs from the receipt ledger.
+ */
+export type SheetDriftKind =
+    | "missing" // Exported receipt with no row
+    | "stale" // Row values differ from the receipt
+    | "duplicate" // Extra row with the same receipt ID
+    | "orphan" // Row for a receipt that no longer exists or is not exported
+    | "untagged" // Row written before receipt IDs were recorded; matched by its recorded position
+    | "unrecorded"; // Row exists but the ledger does not point at it
+
+export interface SheetDrift {
+    kind: SheetDriftKind;
+    receiptId: string | null;
+    row: number | null; // 1-based Sheet row, null for missing rows
+    detail: string | null; // e.g. which columns differ
+}
+
+/**
+ * Where a receipt's row lives, as a destination that can only look rows up
+ * (no column mapping), for receipts whose Sheet is no longer their destination.
+ */
+function rowLocation(sheetRow: SheetRowReference): SheetDestination {
+    return { spreadsheetId: sheetRow.spreadsheetId, sheetName: sheetRow.sheetName, columns: [] };
+}
+
+function sameTab(destination: SheetDestination, sheetRow: SheetRowReference | null): boolean {
+    return !!sheetRow && sheetRow.spreadsheetId === destination.spreadsheetId &&
+        (destination.sheetName === null || destination.sheetName === sheetRow.sheetName);
+}
+
+function locationKey(destination: SheetDestination): string {
+    return `${destination.spreadsheetId}\u0000${destination.sheetName ?? ""}\u0000${JSON.stringify(destination.columns)}`;
+}
+
+/**
+ * Resolves (once per user) where each user's receipts go.
+ */
+function destinationResolver() {
+    const cache = new Map<string, Promise<ResolvedSheetDestination | null>>();
+    return (record: ReceiptRecord) => {
+        if (!cache.has(record.userId)) {
+            cache.set(record.userId, (async () =>
+                resolveSheetDestination(record.userId, record.orgId || await getOrgIdForUser(record.userId))
+            )());
+        }
+        return cache.get(record.userId)!;
+    };
+}
+
+/**
+ * Groups items by Sheet location, so each location gets one read and one batchUpdate.
+ */
+function groupByLocation<T>(entries: { destination: SheetDestination; item: T }[]) {
+    const groups = new Map<string, { destination: SheetDestination; items: T[] }>();
+    for (const { destination, item } of entries) {
+        const key = locationKey(destination);
+        if (!groups.has(key)) {
+            groups.set(key, { destination, items: [] });
+        }
+        groups.get(key)!.items.push(item);
+    }
+    return [...groups.values()];
+}
+
+async function recordSheetError(records: ReceiptRecord[], error: unknown): Promise<void> {
+    const sheetsError = (error as Error).message;
+    const batch = getFirestore().batch();
+    records.forEach((record) => batch.update(receiptsCollection(record.userId).doc(record.receiptId), { sheetsError }));
+    await batch.commit();
+}
+
+/**
+ * Removes receipts' rows wherever the ledger says they are.
+ */
+async function removeRows(records: ReceiptRecord[], result: SheetSyncResult, forget: boolean): Promise<void> {
+    const located = records
+        .filter((record) => record.sheetRow)
+        .map((record) => ({ destination: rowLocation(record.sheetRow!), item: record }));
+
+    for (const { destination, items } of groupByLocation(located)) {
+        try {
+            result.removed += await deleteReceiptRows(items.map((record) => record.receiptId), destination);
+            if (forget) {
+                const batch = getFirestore().batch();
+                items.forEach((record) => batch.update(receiptsCollection(record.userId).doc(record.receiptId), {
+                    sheetRow: null,
+                    sheetsWriteSuccess: false,
+                    sheetsError: null
+                }));
+                await batch.commit();
+            }
+        } catch (error) {
+            console.error(`Failed to remove rows from ${destination.spreadsheetId}:`, error);
+            result.failed += items.length;
+            if (forget) {
+                await recordSheetError(items, error);
+            }
+        }
+    }
+}
+
+/**
+ * Brings receipts' Sheet rows in line with the ledger after they changed: exported
+ * receipts are rewritten in place (or moved, if their user's Sheet changed), and
+ * rows of receipts that are no longer exported (e.g. rejected) are removed.
+ * Changes to the same Sheet are sent as one batchUpdate. Failures are recorded as
+ * sheetsError on the receipts and left for reconcileSheet to repair.
+ */
+export async function syncReceiptRows(records: ReceiptRecord[]): Promise<SheetSyncResult> {
+    const result: SheetSyncResult = { updated: 0, removed: 0, failed: 0 };
+    const destinationFor = destinationResolver();
+
+    const toWrite: { destination: SheetDestination; item: ReceiptRecord }[] = [];
+    const toRemove: ReceiptRecord[] = [];
+    const moved: ReceiptRecord[] = [];
+
+    for (const record of records) {
+        if (record.status !== "exported" || !record.receiptData) {
+            if (record.sheetRow) {
+                toRemove.push(record);
+            }
+            continue;
+        }
+        if (!record.sheetsWriteSuccess) {
+            continue; // Never written; the dead-letter re-drive writes it
+        }
+        const destination = await destinationFor(record);
+        if (!destination) {
+            continue;
+        }
+        if (record.sheetRow && !sameTab(destination, record.sheetRow)) {
+            moved.push(record);
+        }
+        toWrite.push({ destination, item: record });
+    }
+
+    await removeRows(toRemove, result, true);
+    await removeRows(moved, result, false);
+
+    for (const { destination, items } of groupByLocation(toWrite)) {
+        try {
+            const rows = await upsertReceiptRows(items, destination);
+            const batch = getFirestore().batch();
+            items.forEach((record) => batch.update(receiptsCollection(record.userId).doc(record.receiptId), {
+                sheetRow: rows.get(record.receiptId) ?? null,
+                sheetsError: null
+            }));
+            await batch.commit();
+            result.updated += items.length;
+        } catch (error) {
+            console.error(`Failed to sync rows to ${destination.spreadsheetId}:`, error);
+            result.failed += items.length;
+            await recordSheetError(items, error);
+        }
+    }
+
+    console.log(`Sheet sync: ${result.updated} rows written, ${result.removed} removed, ${result.failed} failed`);
+    return result;
+}
+
+/**
+ * Removes the rows of receipts that are being deleted from the ledger.
+ * Call with the records as they were before deletion.
+ */
+export async function removeReceiptRows(records: ReceiptRecord[]): Promise<SheetSyncResult> {
+    const result: SheetSyncResult = { updated: 0, removed: 0, failed: 0 };
+    await removeRows(records, result, false);
+    return result;
+}
+
+/**
+ * Loads ledger entries by receipt ID, in chunks of the "in" query limit.
+ */
+async function findReceiptsById(receiptIds: string[]): Promise<Map<string, ReceiptRecord>> {
+    const found = new Map<string, ReceiptRecord>();
+    for (let i = 0; i < receiptIds.length; i += 30) {
+        const snapshot = await getFirestore().collectionGroup("receipts")
+            .where("receiptId", "in", receiptIds.slice(i, i + 30))
+            .get();
+        snapshot.docs.forEach((doc) => {
+            const record = doc.data() as ReceiptRecord;
+            found.set(record.receiptId, record);
+        });
+    }
+    return found;
+}
+
+/**
+ * 0-based row index from a recorded range such as "'Blad1'!A12:F12".
+ */
+function rowFromRange(updatedRange: string | null): number | null {
+    const match = updatedRange?.match(/![A-Z]+(\d+)/);
+    return match ? Number(match[1]) - 1 : null;
+}
+
+/**
+ * Columns (headers) where a row differs from the receipt, ignoring the ID column.
+ */
+function differingColumns(contents: SheetContents, row: number, record: ReceiptRecord): string[] {
+    const actual = contents.rows[row] || [];
+    const expected = rowValues(record, contents.layout);
+    return contents.layout.columns
+        .map((column, index) => ({ column, index }))
+        .filter(({ index }) => index !== contents.layout.idColumn)
+        .filter(({ index }) => comparableCell(actual[index]) !== comparableCell(expected[index]))
+        .map(({ column }) => column.header);
+}
+
+/**
+ * Compares a Sheet with the ledger entries that point at it, and optionally repairs
+ * every difference in one batchUpdate.
+ */
+export async function reconcileDestination(destination: SheetDestination, repair: boolean) {
+    const contents = await readSheet(destination, false);
+
+    // Ledger entries whose row should be in this tab
+    const snapshot = await getFirestore().collectionGroup("receipts")
+        .where("sheetRow.spreadsheetId", "==", destination.spreadsheetId)
+        .get();
+    const expected = new Map<string, ReceiptRecord>();
+    snapshot.docs.forEach((doc) => {
+        const record = doc.data() as ReceiptRecord;
+        if (record.sheetRow?.sheetName === contents.sheetName && record.status === "exported" && record.receiptData) {
+            expected.set(record.receiptId, record);
+        }
+    });
+
+    // Rows with IDs the query above didn't return (ledger not pointing here, or gone)
+    const unknownIds = [...contents.rowsById.keys()].filter((receiptId) => !expected.has(receiptId));
+    const unknown = await findReceiptsById(unknownIds);
+
+    const drift: SheetDrift[] = [];
+    const operations: SheetRowOperation[] = [];
+    const ledgerFixes: ReceiptRecord[] = [];
+    const report = (kind: SheetDriftKind, receiptId: string | null, row: number | null, detail: string | null = null) =>
+        drift.push({ kind, receiptId, row: row === null ? null : row + 1, detail });
+
+    for (const record of expected.values()) {
+        const [row, ...duplicates] = contents.rowsById.get(record.receiptId) || [];
+        duplicates.forEach((duplicate) => {
+            report("duplicate", record.receiptId, duplicate);
+            operations.push({ type: "delete", row: duplicate, receiptId: record.receiptId });
+        });
+
+        if (row !== undefined) {
+            const differences = differingColumns(contents, row, record);
+            if (differences.length > 0) {
+                report("stale", record.receiptId, row, differences.join(", "));
+                operations.push({ type: "update", row, record });
+            }
+            continue;
+        }
+
+        // Rows written before receipt IDs: recognized at their recorded position, if untagged and matching
+        const recordedRow = rowFromRange(record.sheetRow!.updatedRange);
+        const untagged = recordedRow !== null && recordedRow > 0 && recordedRow < contents.rows.length &&
+            comparableCell(contents.rows[recordedRow][contents.layout.idColumn]) === "" &&
+            differingColumns(contents, recordedRow, record).length === 0;
+        if (untagged) {
+            report("untagged", record.receiptId, recordedRow);
+            operations.push({ type: "setId", row: recordedRow!, receiptId: record.receiptId });
+        } else {
+            report("missing", record.receiptId, null);
+            operations.push({ type: "append", record });
+        }
+    }
+
+    for (const receiptId of unknownIds) {
+        const rows = contents.rowsById.get(receiptId)!;
+        const record = unknown.get(receiptId);
+        if (!record || record.status !== "exported" || !record.receiptData) {
+            rows.forEach((row) => {
+                report("orphan", receiptId, row, record ? `receipt status: ${record.status}` : "receipt not found");
+                operations.push({ type: "delete", row, receiptId });
+            });
+            continue;
+        }
+        report("unrecorded", receiptId, rows[0]);
+        ledgerFixes.push(record);
+        rows.slice(1).forEach((row) => {
+            report("duplicate", receiptId, row);
+            operations.push({ type: "delete", row, receiptId });
+        });
+    }
+
+    if (repair && drift.length > 0) {
+        await applySheetOperations(destination, contents, operations);
+        if (ledgerFixes.length > 0) {
+            // The rows are there; point the ledger at them
+            const batch = getFirestore().batch();
+            ledgerFixes.forEach((record) => batch.update(receiptsCollection(record.userId).doc(record.receiptId), {
+                sheetRow: {
+                    spreadsheetId: destination.spreadsheetId,
+                    sheetName: contents.sheetName,
+                    updatedRange: null,
+                    link: `https://docs.google.com/spreadsheets/d/${destination.spreadsheetId}/edit`
+                },
+                sheetsWriteSuccess: true,
+                sheetsError: null
+            }));
+            await batch.commit();
+        }
+    }
+
+    const counts: Partial<Record<SheetDriftKind, number>> = {};
+    drift.forEach((entry) => counts[entry.kind] = (counts[entry.kind] || 0) + 1);
+
+    return {
+        spreadsheetId: destination.spreadsheetId,
+        sheetName: contents.sheetName,
+        receiptsChecked: expected.size,
+        rowsChecked: Math.max(contents.rows.length - 1, 0),
+        inSync: drift.length === 0,
+        counts,
+        drift: drift.slice(0, MAX_REPORTED_DRIFT),
+        repaired: repair && drift.length > 0
+    };
+}
+
+/**
+ * Cloud Function: Reconcile Sheet (admin only)
+ *
+ * Detects drift between the ledger and a Sheet destination (missing, stale,
+ * duplicate and orphaned rows) and reports it, or repairs it with { repair: true }.
+ * The destination is the one a user's receipts go to ({ userId }), an
+ * organization's ({ orgId }), or the deployment default (neither).
+ */
+export const reconcileSheet = onCall(
+    {
+        region: "us-central1",
+        timeoutSeconds: 540, // Reads the whole Sheet and every receipt pointing at it
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const repair = request.data?.repair === true;
+        const { userId, orgId } = request.data || {};
+
+        let destination: SheetDestination | null;
+        if (typeof userId === "string" && userId) {
+            destination = await resolveSheetDestination(userId, await getOrgIdForUser(userId));
+        } else if (typeof orgId === "string" && orgId) {
+            destination = await getDestinationConfig("organization", orgId) ?? defaultSheetDestination();
+        } else {
+            destination = defaultSheetDestination();
+        }
+        if (!destination) {
+            throw new HttpsError("failed-precondition", "No Google Sheet is configured for this destination");
+        }
+
+        try {
+            const result = await reconcileDestination(destination, repair);
+            console.log(`Sheet ${destination.spreadsheetId} reconciled by ${adminUid}: ` +
+                `${result.drift.length} differences${repair ? " repaired" : ""}`, result.counts);
+            return result;
+        } catch (error) {
+            console.error(`Reconciling ${destination.spreadsheetId} failed:`, error);
+            throw new HttpsError("internal", `Reconciliation failed: ${(error as Error).message}`);
+        }
+    }
+);
@@ -1,13 +1,18 @@
 // functions/src/sheets.ts
 
-import { google } from "googleapis";
-import { ReceiptData } from "./schema";
+import { google, sheets_v4 } from "googleapis";
+import { ReceiptRecord, SheetRowReference } from "./receipts";
+import { RetryExhaustedError, SHEETS_RETRY_POLICY, withRetry } from "./retry";
 
 /**
- * Initialize Google Sheets API client using Service Account credentials.
- * The Service Account JSON key should be provided via environment variable.
+ * How long a function instance trusts a header check before reading the header row again.
  */
-function getSheetsClient() {
+const HEADER_CHECK_CACHE_MS = 10 * 60 * 1000;
+
+/**
+ * Parses the Service Account JSON key from the environment.
+ */
+function getServiceAccountCredentials() {
     const serviceAccountKey = process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_KEY;
     
     if (!serviceAccountKey) {
@@ -29,9 +34,28 @@ function getSheetsClient() {
         );
     }
 
+    return credentials;
+}
+
+/**
+ * The Service Account's email address: spreadsheets must be shared with it.
+ */
+export function getServiceAccountEmail(): string | null {
+    try {
+        return getServiceAccountCredentials().client_email || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Initialize Google Sheets API client using Service Account credentials.
+ * The Service Account JSON key should be provided via environment variable.
+ */
+function getSheetsClient() {
     // Authenticate using Service Account
     const auth = new google.auth.GoogleAuth({
-        credentials: credentials,
+        credentials: getServiceAccountCredentials(),
         scopes: ['https://www.googleapis.com/auth/spreadsheets'],
     });
 
@@ -39,108 +63,715 @@ function getSheetsClient() {
 }
 
 /**
- * Appends receipt data to the specified Google Sheet.
- * 
- * @param receiptData - The structured receipt data to append
- * @param sheetId - The Google Sheet ID (from the Sheet URL)
- * @returns Promise<void>
- * @throws Error if the append operation fails
- */
-export async function appendReceiptToSheet(
-    receiptData: ReceiptData,
-    sheetId: string
-): Promise<void> {
-    if (!sheetId) {
-        throw new Error("Google Sheet ID is required");
+ * Initialize a read-only Google Drive API client (file permissions) with the same Service Account.
+ */
+function getDriveClient() {
+    const auth = new google.auth.GoogleAuth({
+        credentials: getServiceAccountCredentials(),
+        scopes: ['https://www.googleapis.com/auth/drive.metadata.readonly'],
+    });
+
+    return google.drive({ version: 'v3', auth });
+}
+
+/**
+ * Drive roles that can edit a file.
+ */
+const EDITOR_ROLES = new Set(["owner", "organizer", "fileOrganizer", "writer"]);
+
+/**
+ * Checks whether a person can edit a spreadsheet themselves, from the file's Drive
+ * permissions: shared with their email, their email's domain, or anyone with the link.
+ * Group memberships can't be seen, so access only through a group is not recognized.
+ *
+ * @param email - Lowercase, verified email address
+ */
+export async function canEditSpreadsheet(spreadsheetId: string, email: string): Promise<boolean> {
+    const drive = getDriveClient();
+    const domain = email.split("@").pop();
+
+    let pageToken: string | undefined;
+    do {
+        const response = await drive.permissions.list({
+            fileId: spreadsheetId,
+            supportsAllDrives: true,
+            pageToken,
+            fields: "nextPageToken, permissions(type, role, emailAddress, domain)"
+        });
+        const editable = (response.data.permissions || []).some((permission) =>
+            EDITOR_ROLES.has(permission.role || "") && (
+                (permission.type === "user" && permission.emailAddress?.toLowerCase() === email) ||
+                (permission.type === "domain" && permission.domain?.toLowerCase() === domain) ||
+                permission.type === "anyone"
+            )
+        );
+        if (editable) {
+            return true;
+        }
+        pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+    return false;
+}
+
+
+/**
+ * A value written to a Sheet cell (null leaves the cell empty).
+ */
+type SheetCellValue = string | number | null;
+
+/**
+ * Receipt fields that can be mapped to Sheet columns, with their default header.
+ */
+export const SHEET_COLUMNS = {
+    vendorName: { header: "Vendor Name", value: (record: ReceiptRecord) => record.receiptData!.vendorName },
+    transactionDate: { header: "Date", value: (record: ReceiptRecord) => record.receiptData!.transactionDate },
+    totalAmount: { header: "Total Amount", value: (record: ReceiptRecord) => record.receiptData!.totalAmount },
+    category: { header: "Category", value: (record: ReceiptRecord) => record.receiptData!.category },
+    timestamp: { header: "Timestamp", value: (record: ReceiptRecord) => record.receiptData!.timestamp },
+    currency: { header: "Currency", value: (record: ReceiptRecord) => record.receiptData!.currency },
+    baseAmount: { header: "Base Amount", value: (record: ReceiptRecord) => record.receiptData!.baseAmount?.amount ?? null },
+    baseCurrency: { header: "Base Currency", value: (record: ReceiptRecord) => record.receiptData!.baseAmount?.currency ?? null },
+    exchangeRate: { header: "Exchange Rate", value: (record: ReceiptRecord) => record.receiptData!.baseAmount?.rate ?? null },
+    subtotal: { header: "Subtotal", value: (record: ReceiptRecord) => record.receiptData!.subtotal },
+    taxTotal: { header: "Tax", value: (record: ReceiptRecord) => record.receiptData!.reconciliation.taxTotal },
+    tipAmount: { header: "Tip", value: (record: ReceiptRecord) => record.receiptData!.tipAmount },
+    paymentMethod: {
+        header: "Payment Method",
+        value: (record: ReceiptRecord) => {
+            const paymentMethod = record.receiptData!.paymentMethod;
+            if (!paymentMethod) {
+                return null;
+            }
+            return paymentMethod.last4 ? `${paymentMethod.type} ${paymentMethod.last4}` : paymentMethod.type;
+        }
+    },
+    receiptNumber: { header: "Receipt Number", value: (record: ReceiptRecord) => record.receiptData!.receiptNumber },
+    lineItemCount: { header: "Line Items", value: (record: ReceiptRecord) => record.receiptData!.lineItems.length },
+    pageNumber: { header: "Page", value: (record: ReceiptRecord) => record.receiptData!.source?.pageNumber ?? null },
+    fileName: { header: "File", value: (record: ReceiptRecord) => record.fileName },
+    receiptId: { header: "Receipt ID", value: (record: ReceiptRecord) => record.receiptId }
+} satisfies Record<string, { header: string; value: (record: ReceiptRecord) => SheetCellValue }>;
+
+export type SheetColumnKey = keyof typeof SHEET_COLUMNS;
+
+/**
+ * One Sheet column: which receipt field goes in it, under which header.
+ */
+export interface SheetColumnMapping {
+    field: SheetColumnKey;
+    header: string;
+}
+
+/**
+ * The columns of the original Sheet layout (A:E), used unless a destination maps its own.
+ */
+export const DEFAULT_SHEET_COLUMNS: SheetColumnMapping[] = (
+    ["vendorName", "transactionDate", "totalAmount", "category", "timestamp"] as SheetColumnKey[]
+).map((field) => ({ field, header: SHEET_COLUMNS[field].header }));
+
+/**
+ * Header of the receipt ID column that identifies each receipt's row. Added (hidden)
+ * after the mapped columns unless the mapping already includes receiptId.
+ */
+export const RECEIPT_ID_HEADER = "Receipt ID";
+
+/**
+ * Where receipts are written: a spreadsheet, a tab in it and the column layout.
+ */
+export interface SheetDestination {
+    spreadsheetId: string;
+    sheetName: string | null; // Tab to write to; null for the first tab (whatever its localized name, e.g. "Blad1")
+    columns: SheetColumnMapping[];
+}
+
+/**
+ * What ensureSheetHeaders did to the header row.
+ */
+export type HeaderAction = "created" | "upgraded" | "unchanged";
+
+/**
+ * The columns actually written for a destination: its mapping plus the receipt ID column.
+ */
+export interface SheetLayout {
+    columns: SheetColumnMapping[]; // Contiguous from column A: columns[i] is column i + 1
+    idColumn: number; // 0-based index of the receipt ID column (may lie past columns), -1 if a lookup found none
+    hiddenIdColumn: boolean; // True if the ID column was added (and is hidden), not mapped
+}
+
+/**
+ * Lays out a destination's columns against its current header row. A mapped
+ * receiptId column is the ID column. Otherwise the ID column stays where an
+ * existing "Receipt ID" header is, or goes after the mapped columns, and the
+ * mapped columns fill the other positions in order, so changing the mapping
+ * later never moves it. An ID column past the mapped ones is written on its own.
+ */
+function sheetLayout(destination: SheetDestination, headers: string[]): SheetLayout {
+    const mapped = destination.columns.findIndex((column) => column.field === "receiptId");
+    if (mapped !== -1) {
+        return { columns: destination.columns, idColumn: mapped, hiddenIdColumn: false };
+    }
+
+    const existing = headers.findIndex((header) => header.toLowerCase() === RECEIPT_ID_HEADER.toLowerCase());
+    if (destination.columns.length === 0) {
+        // Lookup only (deleting rows from a Sheet the receipt no longer maps to)
+        return { columns: [], idColumn: existing, hiddenIdColumn: true };
+    }
+
+    const idColumn = existing !== -1 ? existing : destination.columns.length;
+    const columns = [...destination.columns];
+    if (idColumn <= columns.length) {
+        columns.splice(idColumn, 0, { field: "receiptId", header: RECEIPT_ID_HEADER });
     }
+    return { columns, idColumn, hiddenIdColumn: true };
+}
 
+/**
+ * A destination's resolved tab, ready for row changes.
+ */
+export interface SheetTab {
+    sheetName: string;
+    tabId: number; // Numeric sheetId of the tab, used by batchUpdate requests
+    layout: SheetLayout;
+}
+
+/**
+ * Converts a 1-based column number to its letter (1 -> A, 27 -> AA).
+ */
+function columnLetter(column: number): string {
+    let letter = "";
+    for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+}
+
+/**
+ * Quotes a tab name for A1 notation ('My Tab'!A1), escaping single quotes.
+ */
+function quoteSheetName(sheetName: string): string {
+    return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+const headerChecks = new Map<string, { checkedAt: number; tabId: number; layout: SheetLayout }>();
+
+/**
+ * Makes sure the destination tab exists and its header row matches the column
+ * mapping (plus the receipt ID column): a missing tab is added, an empty header
+ * row is written, and headers for columns added to the mapping are appended.
+ * Columns after the mapped ones are left alone. A destination without columns
+ * only looks the tab and its ID column up.
+ *
+ * @returns The tab and what was done to the header row
+ * @throws Error if an existing header does not match its mapped column, since
+ *         writing would put values under the wrong headers
+ */
+export async function ensureSheetHeaders(
+    destination: SheetDestination
+): Promise<SheetTab & { headerAction: HeaderAction }> {
     const sheets = getSheetsClient();
+    const { spreadsheetId } = destination;
 
-    // Map ReceiptData to the row format matching the Sheet headers
-    // Headers: Vendor Name, Date, Total Amount, Category, Timestamp
-    const rowData = [
-        receiptData.vendorName,
-        receiptData.transactionDate,
-        receiptData.totalAmount,
-        receiptData.category,
-        receiptData.timestamp
-    ];
+    // Resolve the tab. The first tab's name depends on the spreadsheet's language ("Sheet1", "Blad1", ...)
+    const spreadsheet = await withRetry("Google Sheets get", SHEETS_RETRY_POLICY, () =>
+        sheets.spreadsheets.get({
+            spreadsheetId,
+            fields: "sheets.properties(title,sheetId)",
+        })
+    );
+    const tabs = (spreadsheet.data.sheets || []).map((sheet) => ({
+        title: sheet.properties?.title || "",
+        tabId: sheet.properties?.sheetId ?? 0
+    }));
+    const sheetName = destination.sheetName || tabs[0]?.title || "Sheet1";
+    let tabId = tabs.find((tab) => tab.title === sheetName)?.tabId;
+    const lookupOnly = destination.columns.length === 0;
 
-    try {
-        // Get the actual sheet name from the spreadsheet
-        // This handles different languages (e.g., "Blad1" in Dutch, "Sheet1" in English)
-        const spreadsheet = await sheets.spreadsheets.get({
-            spreadsheetId: sheetId,
-        });
-        
-        const firstSheet = spreadsheet.data.sheets?.[0];
-        const sheetName = firstSheet?.properties?.title || 'Sheet1';
-        
-        console.log(`Using sheet name: "${sheetName}"`);
-        
-        // Append the row to the Sheet
-        // Using 'USER_ENTERED' valueInputOption to preserve number formatting
-        const range = `${sheetName}!A:E`;
-        console.log(`Appending to range: ${range}`);
-        const response = await sheets.spreadsheets.values.append({
-            spreadsheetId: sheetId,
-            range: range,
-            valueInputOption: 'USER_ENTERED',
-            insertDataOption: 'INSERT_ROWS',
-            requestBody: {
-                values: [rowData],
-            },
-        });
+    const cacheKey = [spreadsheetId, sheetName, ...destination.columns.map((column) => `${column.field}=${column.header}`)].join("\u0000");
+    const cached = headerChecks.get(cacheKey);
+    if (cached && tabId === cached.tabId && Date.now() - cached.checkedAt < HEADER_CHECK_CACHE_MS) {
+        return { sheetName, tabId, layout: cached.layout, headerAction: "unchanged" };
+    }
 
-        console.log(`Successfully appended receipt to Sheet. Updated ${response.data.updates?.updatedCells || 0} cells.`);
-        
+    if (tabId === undefined) {
+        if (lookupOnly) {
+            throw new Error(`Tab "${sheetName}" not found in spreadsheet ${spreadsheetId}`);
+        }
+        const added = await withRetry("Google Sheets add tab", SHEETS_RETRY_POLICY, () =>
+            sheets.spreadsheets.batchUpdate({
+                spreadsheetId,
+                requestBody: { requests: [{ addSheet: { properties: { title: sheetName } } }] },
+            })
+        );
+        tabId = added.data.replies?.[0]?.addSheet?.properties?.sheetId ?? 0;
+        console.log(`Added tab "${sheetName}" to spreadsheet ${spreadsheetId}`);
+    }
+
+    const response = await withRetry("Google Sheets get headers", SHEETS_RETRY_POLICY, () =>
+        sheets.spreadsheets.values.get({
+            spreadsheetId,
+            range: `${quoteSheetName(sheetName)}!1:1`,
+        })
+    );
+    const actual = (response.data.values?.[0] || []).map((value) => String(value ?? "").trim());
+    const layout = sheetLayout(destination, actual);
+    const expected = layout.columns.map((column) => column.header);
+    if (lookupOnly) {
+        headerChecks.set(cacheKey, { checkedAt: Date.now(), tabId, layout });
+        return { sheetName, tabId, layout, headerAction: "unchanged" };
+    }
+
+    // Existing headers must line up with the mapping (case-insensitive); blank cells may be filled in
+    const mismatch = expected.findIndex((header, index) =>
+        actual[index] && actual[index].toLowerCase() !== header.toLowerCase()
+    );
+    if (mismatch !== -1) {
+        throw new Error(
+            `Header of column ${columnLetter(mismatch + 1)} in "${sheetName}" is "${actual[mismatch]}" but the column ` +
+            `mapping expects "${expected[mismatch]}". Fix the header row or the column mapping.`
+        );
+    }
+
+    let headerAction: HeaderAction = "unchanged";
+    if (expected.some((header, index) => !actual[index])) {
+        headerAction = actual.some(Boolean) ? "upgraded" : "created";
+        const requests: sheets_v4.Schema$Request[] = [{
+            updateCells: {
+                start: { sheetId: tabId, rowIndex: 0, columnIndex: 0 },
+                rows: [{ values: expected.map((header) => ({ userEnteredValue: { stringValue: header } })) }],
+                fields: "userEnteredValue",
+            }
+        }];
+        // Hide a newly added ID column (one that was already there stays as the user left it)
+        if (layout.hiddenIdColumn && !actual[layout.idColumn]) {
+            requests.push({
+                updateDimensionProperties: {
+                    range: { sheetId: tabId, dimension: "COLUMNS", startIndex: layout.idColumn, endIndex: layout.idColumn + 1 },
+                    properties: { hiddenByUser: true },
+                    fields: "hiddenByUser",
+                }
+            });
+        }
+        await withRetry("Google Sheets update headers", SHEETS_RETRY_POLICY, () =>
+            sheets.spreadsheets.batchUpdate({ spreadsheetId, requestBody: { requests } })
+        );
+        console.log(`Header row of "${sheetName}" in ${spreadsheetId} ${headerAction}: ${expected.join(", ")}`);
+    }
+
+    headerChecks.set(cacheKey, { checkedAt: Date.now(), tabId, layout });
+    return { sheetName, tabId, layout, headerAction };
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Days since 1899-12-30, the epoch of Sheets date serial numbers.
+ */
+function dateSerial(value: string): number | null {
+    const match = value.match(ISO_DATE);
+    if (!match) {
+        return null;
+    }
+    return (Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+/**
+ * The values of a receipt's row for the contiguous layout columns (see SheetLayout).
+ */
+export function rowValues(record: ReceiptRecord, layout: SheetLayout): SheetCellValue[] {
+    return layout.columns.map((column) => SHEET_COLUMNS[column.field].value(record) ?? null);
+}
+
+/**
+ * Converts a value to a cell. Dates (YYYY-MM-DD) are written as real dates, like a
+ * user typing them; strings are never parsed, so a vendor name can't become a formula.
+ */
+function toCellData(value: SheetCellValue): sheets_v4.Schema$CellData {
+    if (value === null || value === "") {
+        return { userEnteredValue: {} };
+    }
+    if (typeof value === "number") {
+        return { userEnteredValue: { numberValue: value } };
+    }
+    const serial = dateSerial(value);
+    if (serial !== null) {
+        return {
+            userEnteredValue: { numberValue: serial },
+            userEnteredFormat: { numberFormat: { type: "DATE", pattern: "yyyy-mm-dd" } }
+        };
+    }
+    return { userEnteredValue: { stringValue: value } };
+}
+
+/**
+ * Normalizes a cell for comparison: dates as serial numbers, numbers rounded to
+ * cents, everything else as trimmed text.
+ */
+export function comparableCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    if (typeof value === "number") {
+        return String(Math.round(value * 100) / 100);
+    }
+    const text = String(value).trim();
+    const serial = dateSerial(text);
+    return serial !== null ? String(serial) : text;
+}
+
+/**
+ * The contents of a destination tab: every row (header first) with the receipt
+ * IDs found in the ID column.
+ */
+export interface SheetContents extends SheetTab {
+    rows: unknown[][]; // Unformatted values, dates as serial numbers; rows[0] is the header row
+    rowsById: Map<string, number[]>; // Receipt ID -> 0-based row indexes (more than one means duplicates)
+}
+
+/**
+ * Reads a destination tab. With idColumnOnly, only the receipt ID column is read
+ * (enough to locate rows); otherwise every mapped column. A tab without an ID
+ * column has no receipt rows.
+ */
+export async function readSheet(destination: SheetDestination, idColumnOnly: boolean): Promise<SheetContents> {
+    const tab = await ensureSheetHeaders(destination);
+    const { sheetName, layout } = tab;
+    if (layout.idColumn === -1) {
+        return { sheetName, tabId: tab.tabId, layout, rows: [], rowsById: new Map() };
+    }
+    const sheets = getSheetsClient();
+
+    const idLetter = columnLetter(layout.idColumn + 1);
+    const range = idColumnOnly
+        ? `${quoteSheetName(sheetName)}!${idLetter}:${idLetter}`
+        : `${quoteSheetName(sheetName)}!A:${columnLetter(Math.max(layout.columns.length, layout.idColumn + 1))}`;
+    const response = await withRetry("Google Sheets read", SHEETS_RETRY_POLICY, () =>
+        sheets.spreadsheets.values.get({
+            spreadsheetId: destination.spreadsheetId,
+            range,
+            valueRenderOption: "UNFORMATTED_VALUE",
+            dateTimeRenderOption: "SERIAL_NUMBER",
+        })
+    );
+    const values = response.data.values || [];
+    const idOffset = idColumnOnly ? 0 : layout.idColumn;
+
+    const rowsById = new Map<string, number[]>();
+    values.forEach((row, index) => {
+        const receiptId = index === 0 ? "" : String(row[idOffset] ?? "").trim();
+        if (receiptId) {
+            rowsById.set(receiptId, [...(rowsById.get(receiptId) || []), index]);
+        }
+    });
+
+    return {
+        sheetName,
+        tabId: tab.tabId,
+        layout,
+        rows: idColumnOnly ? [] : values,
+        rowsById
+    };
+}
+
+/**
+ * A change to a destination tab. Rows are 0-based indexes as read by readSheet;
+ * deletions name the receipt ID the row held when it was read.
+ */
+export type SheetRowOperation =
+    | { type: "update"; row: number; record: ReceiptRecord }
+    | { type: "append"; record: ReceiptRecord }
+    | { type: "delete"; row: number; receiptId: string }
+    | { type: "setId"; row: number; receiptId: string };
+
+/**
+ * Thrown when a row no longer holds the receipt it held when the tab was read: rows
+ * were inserted, deleted or sorted in between (by hand or by another write). Nothing
+ * was changed; read the tab again and plan the operations anew.
+ */
+export class SheetChangedError extends Error {
+    constructor(public readonly sheetName: string, public readonly row: number) {
+        super(`Row ${row + 1} of "${sheetName}" changed since it was read`);
+        this.name = "SheetChangedError";
+    }
+}
+
+/**
+ * How many times a write is planned again when the tab changes under it.
+ */
+const MAX_SHEET_CHANGED_ATTEMPTS = 3;
+
+/**
+ * The receipt ID a row-indexed operation expects at its row ("" for an untagged row).
+ */
+function expectedRowId(operation: SheetRowOperation): string | null {
+    switch (operation.type) {
+        case "update":
+            return operation.record.receiptId;
+        case "delete":
+            return operation.receiptId;
+        case "setId":
+            return "";
+        default:
+            return null;
+    }
+}
+
+/**
+ * Reads the ID column again right before a batchUpdate and checks that every row an
+ * operation addresses still holds the receipt it held when planned, so a shifted row
+ * is never overwritten or deleted.
+ *
+ * @throws SheetChangedError at the first row that moved
+ */
+async function verifyRowIds(destination: SheetDestination, tab: SheetTab, operations: SheetRowOperation[]): Promise<void> {
+    const addressed = operations.filter((operation) => expectedRowId(operation) !== null);
+    if (addressed.length === 0) {
         return;
-    } catch (error) {
-        console.error("Error appending to Google Sheet:", error);
-        
-        // Provide more detailed error information
-        if (error instanceof Error) {
-            throw new Error(`Failed to append to Google Sheet: ${error.message}`);
+    }
+    const current = await readSheet(destination, true);
+    if (current.tabId !== tab.tabId || current.layout.idColumn !== tab.layout.idColumn) {
+        throw new SheetChangedError(tab.sheetName, 0);
+    }
+    const idAtRow = new Map<number, string>();
+    current.rowsById.forEach((rows, receiptId) => rows.forEach((row) => idAtRow.set(row, receiptId)));
+
+    for (const operation of addressed) {
+        const row = (operation as { row: number }).row;
+        if ((idAtRow.get(row) ?? "") !== expectedRowId(operation)) {
+            throw new SheetChangedError(tab.sheetName, row);
         }
-        throw error;
     }
 }
 
 /**
- * Verifies that the Sheet exists and has the correct headers.
- * This is useful for initial setup validation.
- * 
- * @param sheetId - The Google Sheet ID
- * @returns Promise<boolean> - True if headers are correct
+ * Reads a tab, plans row operations from it and applies them, starting over from a
+ * fresh read (up to MAX_SHEET_CHANGED_ATTEMPTS times) when the tab changes in between.
+ *
+ * @returns The contents the applied operations were planned from
+ */
+async function applyPlannedOperations(
+    destination: SheetDestination,
+    plan: (contents: SheetContents) => SheetRowOperation[]
+): Promise<{ contents: SheetContents; operations: SheetRowOperation[] }> {
+    for (let attempt = 1; ; attempt++) {
+        const contents = await readSheet(destination, true);
+        const operations = plan(contents);
+        try {
+            await applySheetOperations(destination, contents, operations);
+            return { contents, operations };
+        } catch (error) {
+            if (!(error instanceof SheetChangedError) || attempt >= MAX_SHEET_CHANGED_ATTEMPTS) {
+                throw error;
+            }
+            console.warn(`${error.message}; reading ${destination.spreadsheetId} again (attempt ${attempt})`);
+        }
+    }
+}
+
+/**
+ * Writes a receipt ID into a row's ID column.
+ */
+function setIdRequest(tab: SheetTab, row: number, receiptId: string): sheets_v4.Schema$Request {
+    return {
+        updateCells: {
+            start: { sheetId: tab.tabId, rowIndex: row, columnIndex: tab.layout.idColumn },
+            rows: [{ values: [toCellData(receiptId)] }],
+            fields: "userEnteredValue",
+        }
+    };
+}
+
+/**
+ * The cells of a new row, including an ID column past the mapped columns.
+ */
+function appendedRow(record: ReceiptRecord, layout: SheetLayout): sheets_v4.Schema$CellData[] {
+    const cells = rowValues(record, layout).map(toCellData);
+    while (cells.length < layout.idColumn) {
+        cells.push({});
+    }
+    if (layout.idColumn >= layout.columns.length) {
+        cells[layout.idColumn] = toCellData(record.receiptId);
+    }
+    return cells;
+}
+
+/**
+ * Applies row operations to a tab in a single batchUpdate: updates and ID fixes
+ * first, then deletions (bottom-up, so row indexes stay valid), then appends.
+ * The rows are checked against a fresh read of the ID column first.
+ *
+ * @throws SheetChangedError if an addressed row no longer holds the expected receipt
  */
-export async function validateSheetHeaders(sheetId: string): Promise<boolean> {
+export async function applySheetOperations(
+    destination: SheetDestination,
+    tab: SheetTab,
+    operations: SheetRowOperation[]
+): Promise<void> {
+    if (operations.length === 0) {
+        return;
+    }
+    await verifyRowIds(destination, tab, operations);
+
+    const { tabId, layout } = tab;
+    const requests: sheets_v4.Schema$Request[] = [];
+
+    for (const operation of operations) {
+        if (operation.type === "update") {
+            const cells = rowValues(operation.record, layout).map(toCellData);
+            // Keep the row's formatting; only date cells get their date format (again)
+            requests.push({
+                updateCells: {
+                    start: { sheetId: tabId, rowIndex: operation.row, columnIndex: 0 },
+                    rows: [{ values: cells.map((cell) => ({ userEnteredValue: cell.userEnteredValue })) }],
+                    fields: "userEnteredValue",
+                }
+            });
+            if (layout.idColumn >= layout.columns.length) {
+                requests.push(setIdRequest(tab, operation.row, operation.record.receiptId));
+            }
+            cells.forEach((cell, column) => {
+                if (cell.userEnteredFormat) {
+                    requests.push({
+                        repeatCell: {
+                            range: { sheetId: tabId, startRowIndex: operation.row, endRowIndex: operation.row + 1, startColumnIndex: column, endColumnIndex: column + 1 },
+                            cell: { userEnteredFormat: cell.userEnteredFormat },
+                            fields: "userEnteredFormat.numberFormat",
+                        }
+                    });
+                }
+            });
+        } else if (operation.type === "setId") {
+            requests.push(setIdRequest(tab, operation.row, operation.receiptId));
+        }
+    }
+
+    const deletions = operations
+        .filter((operation): operation is Extract<SheetRowOperation, { type: "delete" }> => operation.type === "delete")
+        .map((operation) => operation.row)
+        .sort((a, b) => b - a);
+    for (const row of new Set(deletions)) {
+        requests.push({
+            deleteDimension: {
+                range: { sheetId: tabId, dimension: "ROWS", startIndex: row, endIndex: row + 1 },
+            }
+        });
+    }
+
+    const appends = operations.filter((operation): operation is Extract<SheetRowOperation, { type: "append" }> => operation.type === "append");
+    if (appends.length > 0) {
+        requests.push({
+            appendCells: {
+                sheetId: tabId,
+                rows: appends.map((operation) => ({ values: appendedRow(operation.record, layout) })),
+                fields: "userEnteredValue,userEnteredFormat.numberFormat",
+            }
+        });
+    }
+
     const sheets = getSheetsClient();
-    const expectedHeaders = ['Vendor Name', 'Date', 'Total Amount', 'Category', 'Timestamp'];
+    await withRetry("Google Sheets batchUpdate", SHEETS_RETRY_POLICY, () =>
+        sheets.spreadsheets.batchUpdate({
+            spreadsheetId: destination.spreadsheetId,
+            requestBody: { requests },
+        })
+    );
+    console.log(`Applied ${operations.length} row changes to "${tab.sheetName}" in ${destination.spreadsheetId} (${requests.length} requests)`);
+}
+
+/**
+ * Reference to a receipt's row, for the receipt ledger.
+ */
+function rowReference(destination: SheetDestination, tab: SheetTab, row: number | null): SheetRowReference {
+    return {
+        spreadsheetId: destination.spreadsheetId,
+        sheetName: tab.sheetName,
+        updatedRange: row === null
+            ? null
+            : `${quoteSheetName(tab.sheetName)}!A${row + 1}:${columnLetter(tab.layout.columns.length)}${row + 1}`,
+        link: `https://docs.google.com/spreadsheets/d/${destination.spreadsheetId}/edit`
+    };
+}
+
+/**
+ * Writes a batch of receipts to a destination by receipt ID: rows that already
+ * exist are updated in place, the others appended. Extra rows with the same ID
+ * are removed. Safe to repeat: a retried write never adds a second row.
+ * 
+ * Quota (429) and 5xx errors are retried with backoff.
+ * 
+ * @returns Where each receipt's row is, keyed by receipt ID
+ * @throws RetryExhaustedError if the API keeps failing, Error for any other failure
+ */
+export async function upsertReceiptRows(
+    records: ReceiptRecord[],
+    destination: SheetDestination
+): Promise<Map<string, SheetRowReference>> {
+    if (!destination.spreadsheetId) {
+        throw new Error("Google Sheet ID is required");
+    }
+    const missing = records.find((record) => !record.receiptData);
+    if (missing) {
+        throw new Error(`Receipt ${missing.receiptId} has no extracted data`);
+    }
 
     try {
-        const response = await sheets.spreadsheets.values.get({
-            spreadsheetId: sheetId,
-            range: 'Sheet1!A1:E1', // Get first row (headers)
+        const { contents, operations } = await applyPlannedOperations(destination, (contents) => {
+            const operations: SheetRowOperation[] = [];
+            for (const record of records) {
+                const [row, ...duplicates] = contents.rowsById.get(record.receiptId) || [];
+                operations.push(row === undefined ? { type: "append", record } : { type: "update", row, record });
+                duplicates.forEach((duplicate) => operations.push({ type: "delete", row: duplicate, receiptId: record.receiptId }));
+            }
+            return operations;
         });
+        console.log(`Using sheet name: "${contents.sheetName}"`);
+
+        // Deletions and appends move rows; read the IDs again if the batch did either
+        const moved = operations.some((operation) => operation.type !== "update");
+        const after = moved ? await readSheet(destination, true) : contents;
 
-        const headers = response.data.values?.[0] || [];
+        const references = new Map<string, SheetRowReference>();
+        for (const record of records) {
+            const row = after.rowsById.get(record.receiptId)?.[0] ?? null;
+            references.set(record.receiptId, rowReference(destination, after, row));
+        }
+        return references;
+    } catch (error) {
+        console.error("Error writing to Google Sheet:", error);
         
-        // Check if headers match (case-insensitive)
-        const headersMatch = expectedHeaders.every((expected, index) => {
-            const actual = headers[index]?.toString().trim() || '';
-            return actual.toLowerCase() === expected.toLowerCase();
-        });
+        // Keep the attempt history for the dead-letter store
+        if (error instanceof RetryExhaustedError) {
+            throw error;
+        }
 
-        if (!headersMatch) {
-            console.warn('Sheet headers do not match expected format:', {
-                expected: expectedHeaders,
-                actual: headers
-            });
+        // Provide more detailed error information
+        if (error instanceof Error) {
+            throw new Error(`Failed to write to Google Sheet: ${error.message}`);
         }
+        throw error;
+    }
+}
 
-        return headersMatch;
+/**
+ * Removes receipts' rows from a destination by receipt ID. IDs without a row are ignored.
+ * 
+ * @returns The number of rows removed
+ * @throws RetryExhaustedError if the API keeps failing, Error for any other failure
+ */
+export async function deleteReceiptRows(receiptIds: string[], destination: SheetDestination): Promise<number> {
+    try {
+        const { operations } = await applyPlannedOperations(destination, (contents) =>
+            receiptIds.flatMap((receiptId) => (contents.rowsById.get(receiptId) || [])
+                .map((row): SheetRowOperation => ({ type: "delete", row, receiptId })))
+        );
+        return operations.length;
     } catch (error) {
-        console.error("Error validating Sheet headers:", error);
-        return false;
+        console.error("Error deleting Google Sheet rows:", error);
+        if (error instanceof RetryExhaustedError) {
+            throw error;
+        }
+        if (error instanceof Error) {
+            throw new Error(`Failed to delete Google Sheet rows: ${error.message}`);
+        }
+        throw error;
     }
 }
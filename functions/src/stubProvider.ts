@@ -0,0 +1,45 @@
+// functions/src/stubProvider.ts
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ReceiptData } from "./schema";
+import {
+    ExtractionProvider,
+    ExtractionRequest,
+    StubProviderConfig,
+    resolveExtraction
+} from "./extraction";
+
+/**
+ * Creates the fixture-backed stub provider.
+ * 
+ * Looks up {fixturesDir}/{contentHash}.json - a recorded raw model response,
+ * e.g. saved by the Vertex provider with EXTRACTION_RECORD_FIXTURES_DIR - and
+ * runs it through the same validation as a live response. Needs no network,
+ * so the whole pipeline can run in the emulator and CI.
+ */
+export function createStubProvider(config: StubProviderConfig): ExtractionProvider {
+    const fixturesDir = path.resolve(config.fixturesDir);
+
+    return {
+        name: "stub",
+        version: "fixtures",
+        promptVersion: null, // Unknown: the responses may have been recorded with any prompt
+
+        async extract(request: ExtractionRequest): Promise<ReceiptData[]> {
+            const fixturePath = path.join(fixturesDir, `${request.contentHash}.json`);
+
+            let textResponse: string;
+            try {
+                textResponse = await fs.readFile(fixturePath, "utf8");
+            } catch (error) {
+                throw new Error(
+                    `No recorded extraction for ${request.filePath} (hash ${request.contentHash}) in ${fixturesDir}`
+                );
+            }
+
+            console.log(`Replaying recorded extraction ${fixturePath} for ${request.filePath}`);
+            return resolveExtraction(textResponse, request.filePath, request.taxonomy);
+        }
+    };
+}
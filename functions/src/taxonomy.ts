@@ -0,0 +1,209 @@
+// functions/src/taxonomy.ts
+
+import { DefaultCategory, ReceiptFields, buildReceiptFields } from "./schema";
+import { organizationDoc } from "./organizations";
+
+/**
+ * How long a function instance reuses a loaded taxonomy. Changes made through the
+ * category callables apply immediately on the instance that made them.
+ */
+const TAXONOMY_CACHE_MS = 60 * 1000;
+
+/**
+ * One category of an organization's taxonomy.
+ * Stored at organizations/{orgId}/categories/{categoryId}.
+ */
+export interface CategoryDefinition {
+    categoryId: string;
+    name: string; // What receipts store in category / lineItems[].category
+    description: string; // Shown to the model in the prompt
+    glAccountCode: string | null; // General ledger account for accounting exports
+    parentId: string | null; // categoryId of the parent category, null at the top level
+    keywords: string[]; // Lowercase fragments that map free-text categories here (e.g. "utilit")
+    isFallback: boolean; // Used when nothing else matches; such receipts are flagged for review
+    active: boolean; // False once deleted or merged into another category
+    mergedInto: string | null; // categoryId this category was merged into
+    sortOrder: number;
+    createdAt: string | null; // null for the built-in default taxonomy
+    updatedAt: string | null;
+}
+
+/**
+ * An organization's active taxonomy, with everything extraction derives from it.
+ */
+export interface Taxonomy {
+    orgId: string;
+    categories: CategoryDefinition[]; // Active categories, parents followed by their children
+    fallback: string; // Name of the fallback category
+    fields: ReceiptFields; // Schema enum and validators restricted to the category names
+    prompt: string; // Category list for the extraction prompt
+}
+
+function defaultCategory(
+    categoryId: string,
+    name: DefaultCategory,
+    description: string,
+    keywords: string[],
+    sortOrder: number
+): CategoryDefinition {
+    return {
+        categoryId,
+        name,
+        description,
+        glAccountCode: null,
+        parentId: null,
+        keywords,
+        isFallback: name === DefaultCategory.OTHER,
+        active: true,
+        mergedInto: null,
+        sortOrder,
+        createdAt: null,
+        updatedAt: null
+    };
+}
+
+/**
+ * The taxonomy of organizations that have not configured their own.
+ * Seeded into Firestore the first time an admin edits an organization's categories.
+ */
+export const DEFAULT_CATEGORY_DEFINITIONS: CategoryDefinition[] = [
+    defaultCategory("maintenance", DefaultCategory.MAINTENANCE, "Tools, hardware, repairs, equipment maintenance", ["maintenance"], 10),
+    defaultCategory("cleaning-supplies", DefaultCategory.CLEANING_SUPPLIES, "Cleaning products, detergents, paper towels, etc.", ["cleaning"], 20),
+    defaultCategory("utilities", DefaultCategory.UTILITIES, "Electricity, water, gas, internet, phone bills", ["utilit"], 30),
+    defaultCategory("supplies", DefaultCategory.SUPPLIES, "Office supplies, general business supplies", ["suppl"], 40),
+    defaultCategory("other", DefaultCategory.OTHER, "Anything that doesn't fit the above categories", [], 50)
+];
+
+/**
+ * Returns a reference to an organization's category collection.
+ */
+export function categoriesCollection(orgId: string) {
+    return organizationDoc(orgId).collection("categories");
+}
+
+function bySortOrder(a: CategoryDefinition, b: CategoryDefinition): number {
+    return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+}
+
+/**
+ * Orders categories as a tree: each parent followed by its children. Children of
+ * inactive or missing parents are listed at the top level.
+ */
+function orderAsTree(categories: CategoryDefinition[]): CategoryDefinition[] {
+    const ids = new Set(categories.map((category) => category.categoryId));
+    const ordered: CategoryDefinition[] = [];
+
+    const visit = (parentId: string | null) => {
+        categories
+            .filter((category) => (category.parentId && ids.has(category.parentId) ? category.parentId : null) === parentId)
+            .sort(bySortOrder)
+            .forEach((category) => {
+                ordered.push(category);
+                visit(category.categoryId);
+            });
+    };
+    visit(null);
+    return ordered;
+}
+
+/**
+ * Renders the category list of the extraction prompt, with subcategories indented
+ * under their parent.
+ */
+function buildCategoryPrompt(categories: CategoryDefinition[]): string {
+    const byId = new Map(categories.map((category) => [category.categoryId, category]));
+    const depth = (category: CategoryDefinition): number =>
+        category.parentId && byId.has(category.parentId) ? depth(byId.get(category.parentId)!) + 1 : 0;
+
+    const lines = categories.map((category) => {
+        const indent = "  ".repeat(depth(category));
+        return `${indent}- "${category.name}"${category.description ? `: ${category.description}` : ""}`;
+    });
+
+    return `Categories:
+${lines.join("\n")}
+
+Use the most specific category that fits. Use the same categories for each line item.`;
+}
+
+/**
+ * Builds the taxonomy used for extraction from an organization's category definitions.
+ * Falls back to the default taxonomy if the organization has no active categories.
+ */
+export function buildTaxonomy(orgId: string, definitions: CategoryDefinition[]): Taxonomy {
+    let categories = orderAsTree(definitions.filter((category) => category.active));
+    if (categories.length === 0) {
+        categories = orderAsTree(DEFAULT_CATEGORY_DEFINITIONS);
+    }
+
+    const fallback = categories.find((category) => category.isFallback) || categories[categories.length - 1];
+
+    return {
+        orgId,
+        categories,
+        fallback: fallback.name,
+        fields: buildReceiptFields(categories.map((category) => category.name)),
+        prompt: buildCategoryPrompt(categories)
+    };
+}
+
+const taxonomyCache = new Map<string, { taxonomy: Taxonomy; loadedAt: number }>();
+
+/**
+ * Loads an organization's active taxonomy (cached per function instance for TAXONOMY_CACHE_MS).
+ */
+export async function loadTaxonomy(orgId: string): Promise<Taxonomy> {
+    const cached = taxonomyCache.get(orgId);
+    if (cached && Date.now() - cached.loadedAt < TAXONOMY_CACHE_MS) {
+        return cached.taxonomy;
+    }
+
+    const snapshot = await categoriesCollection(orgId).get();
+    const taxonomy = buildTaxonomy(orgId, snapshot.docs.map((doc) => doc.data() as CategoryDefinition));
+    taxonomyCache.set(orgId, { taxonomy, loadedAt: Date.now() });
+    return taxonomy;
+}
+
+/**
+ * Drops a cached taxonomy after its categories changed.
+ */
+export function invalidateTaxonomy(orgId: string): void {
+    taxonomyCache.delete(orgId);
+}
+
+/**
+ * Maps a free-text category onto the taxonomy: an exact (case-insensitive) name,
+ * then a keyword fragment, then a category name contained in the text.
+ * Falls back to the taxonomy's fallback category if nothing matches.
+ */
+export function normalizeCategory(category: unknown, taxonomy: Taxonomy): string {
+    if (typeof category !== "string" || !category.trim()) {
+        return taxonomy.fallback;
+    }
+
+    const lowerCategory = category.trim().toLowerCase();
+
+    const exact = taxonomy.categories.find((candidate) => candidate.name.toLowerCase() === lowerCategory);
+    if (exact) {
+        return exact.name;
+    }
+
+    // Keyword fragments in taxonomy order (e.g. "cleaning" before "suppl")
+    const byKeyword = taxonomy.categories.find((candidate) =>
+        candidate.keywords.some((keyword) => keyword && lowerCategory.includes(keyword.toLowerCase()))
+    );
+    if (byKeyword) {
+        return byKeyword.name;
+    }
+
+    // Longest contained name first, so "Cleaning Supplies" wins over "Supplies"
+    const byName = [...taxonomy.categories]
+        .sort((a, b) => b.name.length - a.name.length)
+        .find((candidate) => lowerCategory.includes(candidate.name.toLowerCase()));
+    if (byName) {
+        return byName.name;
+    }
+
+    console.warn(`Unknown category "${category}", defaulting to "${taxonomy.fallback}"`);
+    return taxonomy.fallback;
+}
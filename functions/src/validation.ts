@@ -0,0 +1,291 @@
+// functions/src/validation.ts
+
+import { Schema, SchemaType } from "@google-cloud/vertexai";
+
+/**
+ * Why a value failed validation.
+ */
+export type ValidationIssueCode =
+    | "invalid_json"
+    | "missing"
+    | "invalid_type"
+    | "invalid_enum"
+    | "invalid_format"
+    | "out_of_range";
+
+/**
+ * A single validation failure, addressed by its path in the document
+ * (e.g. "lineItems[2].category"). "$" is the document root.
+ */
+export interface ValidationIssue {
+    path: string;
+    code: ValidationIssueCode;
+    message: string;
+}
+
+/**
+ * Thrown when user-supplied data (e.g. a receipt edit) fails validation.
+ */
+export class ReceiptValidationError extends Error {
+    constructor(public readonly issues: ValidationIssue[]) {
+        super(`Validation failed:\n${formatIssues(issues)}`);
+        this.name = "ReceiptValidationError";
+    }
+}
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * A field definition that produces both the model's response schema and
+ * a runtime validator, so the TypeScript type, the schema sent to the model
+ * and the validation rules cannot drift apart.
+ */
+export interface Field<T> {
+    readonly schema: Schema;
+    readonly nullable: boolean;
+    validate(value: unknown, path: string): ValidationResult<T>;
+}
+
+/**
+ * The TypeScript type described by a field definition.
+ */
+export type Infer<F> = F extends Field<infer T> ? T : never;
+
+function fail<T>(path: string, code: ValidationIssueCode, message: string): ValidationResult<T> {
+    return { ok: false, issues: [{ path, code, message }] };
+}
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "array";
+    }
+    return typeof value;
+}
+
+/**
+ * Joins a parent path and a property name ("$" + "vendorName" -> "vendorName").
+ */
+export function childPath(path: string, key: string | number): string {
+    if (typeof key === "number") {
+        return `${path}[${key}]`;
+    }
+    return path === "$" ? key : `${path}.${key}`;
+}
+
+interface StringOptions {
+    description?: string;
+    /** "date" requires a real calendar date in YYYY-MM-DD format. */
+    format?: "date";
+    pattern?: RegExp;
+    minLength?: number;
+}
+
+export function stringField(options: StringOptions = {}): Field<string> {
+    return {
+        schema: { type: SchemaType.STRING, description: options.description },
+        nullable: false,
+        validate(value, path) {
+            if (typeof value !== "string") {
+                return fail(path, value === undefined ? "missing" : "invalid_type", `Expected a string, got ${describe(value)}`);
+            }
+            const trimmed = value.trim();
+            if (options.minLength !== undefined && trimmed.length < options.minLength) {
+                return fail(path, "invalid_format", `Expected at least ${options.minLength} character(s)`);
+            }
+            if (options.format === "date" && !isCalendarDate(trimmed)) {
+                return fail(path, "invalid_format", `Expected a date in YYYY-MM-DD format, got "${trimmed}"`);
+            }
+            if (options.pattern && !options.pattern.test(trimmed)) {
+                return fail(path, "invalid_format", `"${trimmed}" does not match ${options.pattern}`);
+            }
+            return { ok: true, value: trimmed };
+        }
+    };
+}
+
+interface NumberOptions {
+    description?: string;
+    minimum?: number;
+    /** Reject zero as well as negative values when minimum is 0. */
+    exclusiveMinimum?: boolean;
+    maximum?: number;
+}
+
+export function numberField(options: NumberOptions = {}): Field<number> {
+    return {
+        schema: { type: SchemaType.NUMBER, description: options.description },
+        nullable: false,
+        validate(value, path) {
+            if (typeof value !== "number" || !isFinite(value)) {
+                return fail(path, value === undefined ? "missing" : "invalid_type", `Expected a number, got ${describe(value)}`);
+            }
+            if (options.minimum !== undefined) {
+                const tooSmall = options.exclusiveMinimum ? value <= options.minimum : value < options.minimum;
+                if (tooSmall) {
+                    const bound = options.exclusiveMinimum ? "greater than" : "at least";
+                    return fail(path, "out_of_range", `Expected a number ${bound} ${options.minimum}, got ${value}`);
+                }
+            }
+            if (options.maximum !== undefined && value > options.maximum) {
+                return fail(path, "out_of_range", `Expected a number at most ${options.maximum}, got ${value}`);
+            }
+            return { ok: true, value };
+        }
+    };
+}
+
+/**
+ * A string restricted to the values of a string enum (or a list of values
+ * known only at runtime). Matching is case-insensitive and returns the canonical value.
+ */
+export function enumField<E extends string>(
+    values: Record<string, E> | readonly E[],
+    options: { description?: string } = {}
+): Field<E> {
+    const allowed: E[] = Array.isArray(values) ? [...values] : Object.values(values);
+    return {
+        schema: { type: SchemaType.STRING, enum: allowed, description: options.description },
+        nullable: false,
+        validate(value, path) {
+            if (typeof value !== "string") {
+                return fail(path, value === undefined ? "missing" : "invalid_type", `Expected a string, got ${describe(value)}`);
+            }
+            const match = allowed.find((candidate) => candidate.toLowerCase() === value.trim().toLowerCase());
+            if (!match) {
+                return fail(path, "invalid_enum", `"${value}" is not one of: ${allowed.join(", ")}`);
+            }
+            return { ok: true, value: match };
+        }
+    };
+}
+
+export function arrayField<T>(items: Field<T>, options: { description?: string } = {}): Field<T[]> {
+    return {
+        schema: { type: SchemaType.ARRAY, items: items.schema, description: options.description },
+        nullable: false,
+        validate(value, path) {
+            if (!Array.isArray(value)) {
+                return fail(path, value === undefined ? "missing" : "invalid_type", `Expected an array, got ${describe(value)}`);
+            }
+            const issues: ValidationIssue[] = [];
+            const result: T[] = [];
+            value.forEach((item, index) => {
+                const itemResult = items.validate(item, childPath(path, index));
+                if (itemResult.ok) {
+                    result.push(itemResult.value);
+                } else {
+                    issues.push(...itemResult.issues);
+                }
+            });
+            return issues.length > 0 ? { ok: false, issues } : { ok: true, value: result };
+        }
+    };
+}
+
+/**
+ * An object field that exposes its property definitions, so callers can
+ * validate (or repair) one property at a time.
+ */
+export interface ObjectField<P extends Record<string, Field<unknown>>> extends Field<{ [K in keyof P]: Infer<P[K]> }> {
+    readonly properties: P;
+}
+
+/**
+ * An object whose properties are all required unless wrapped in nullable(),
+ * in which case a missing property is read as null.
+ */
+export function objectField<P extends Record<string, Field<unknown>>>(
+    properties: P,
+    options: { description?: string } = {}
+): ObjectField<P> {
+    const schemaProperties: Record<string, Schema> = {};
+    const required: string[] = [];
+    for (const [key, field] of Object.entries(properties)) {
+        schemaProperties[key] = field.schema;
+        if (!field.nullable) {
+            required.push(key);
+        }
+    }
+
+    return {
+        properties,
+        schema: {
+            type: SchemaType.OBJECT,
+            properties: schemaProperties,
+            required,
+            description: options.description
+        },
+        nullable: false,
+        validate(value, path) {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                return fail(path, value === undefined ? "missing" : "invalid_type", `Expected an object, got ${describe(value)}`);
+            }
+            const input = value as Record<string, unknown>;
+            const issues: ValidationIssue[] = [];
+            const result: Record<string, unknown> = {};
+            for (const [key, field] of Object.entries(properties)) {
+                const propertyResult = field.validate(input[key], childPath(path, key));
+                if (propertyResult.ok) {
+                    result[key] = propertyResult.value;
+                } else {
+                    issues.push(...propertyResult.issues);
+                }
+            }
+            return issues.length > 0
+                ? { ok: false, issues }
+                : { ok: true, value: result as { [K in keyof P]: Infer<P[K]> } };
+        }
+    };
+}
+
+/**
+ * Allows null (or a missing property) in addition to the wrapped field's values.
+ */
+export function nullable<T>(field: Field<T>): Field<T | null> {
+    return {
+        schema: { ...field.schema, nullable: true },
+        nullable: true,
+        validate(value, path) {
+            if (value === null || value === undefined) {
+                return { ok: true, value: null };
+            }
+            return field.validate(value, path);
+        }
+    };
+}
+
+/**
+ * Parses a JSON document and validates it against a field definition.
+ */
+export function parseAndValidate<T>(field: Field<T>, jsonText: string): ValidationResult<T> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonText);
+    } catch (error) {
+        return fail("$", "invalid_json", `Response is not valid JSON: ${(error as Error).message}`);
+    }
+    return field.validate(parsed, "$");
+}
+
+/**
+ * Formats validation issues as one line per issue, for logs and repair prompts.
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
+
+/**
+ * True if the string is a real calendar date in YYYY-MM-DD format.
+ */
+export function isCalendarDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return false;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
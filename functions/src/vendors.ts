@@ -0,0 +1,418 @@
+// functions/src/vendors.ts
+
+import { createHash } from "crypto";
+import { getFirestore, FieldValue } from "firebase-admin/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { MANAGER_ROLES, hasOrgRole, organizationDoc, requireOrgRole, resolveTargetOrg } from "./organizations";
+import { requireAdmin } from "./access";
+
+const MAX_VENDOR_NAME_LENGTH = 120;
+const MAX_ALIASES = 30; // Firestore's limit for array-contains-any
+
+// Legal-form suffixes that don't tell two vendors apart ("Acme Inc." = "ACME")
+const CORPORATE_SUFFIXES = new Set(["inc", "incorporated", "llc", "ltd", "limited", "co", "corp", "corporation", "company", "gmbh", "plc"]);
+
+/**
+ * A vendor's canonical name and the spellings that refer to it.
+ * Stored at organizations/{orgId}/vendors/{vendorId}.
+ */
+export interface VendorDefinition {
+    vendorId: string;
+    canonicalName: string; // What receipts store in vendorName
+    aliases: string[]; // Vendor keys (see vendorKey) that map to this vendor, including the canonical name's
+    source: "manual" | "learned"; // Entered by an admin, or from an accepted alias proposal
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A vendor name a user changed on a receipt. Stored at organizations/{orgId}/vendorCorrections/{id}.
+ */
+export interface VendorCorrection {
+    userId: string;
+    receiptId: string;
+    fromName: string; // Vendor name before the edit
+    fromKey: string;
+    toName: string; // Vendor name after the edit
+    toKey: string;
+    createdAt: string;
+}
+
+/**
+ * proposed: learned from corrections, waiting for an owner or admin of the organization;
+ * accepted: added to the vendor's aliases; dismissed: never proposed again.
+ */
+export type AliasProposalStatus = "proposed" | "accepted" | "dismissed";
+
+/**
+ * "Spelling X is vendor Y", proposed once the same correction was made often enough.
+ * Stored at organizations/{orgId}/vendorAliasProposals/{proposalId}.
+ */
+export interface VendorAliasProposal {
+    proposalId: string;
+    alias: string; // Vendor key of the corrected spelling
+    extractedName: string; // The spelling as last corrected
+    canonicalName: string; // The name it was corrected to
+    status: AliasProposalStatus;
+    evidenceCount: number; // Corrections the proposal was made from
+    decidedBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Returns a reference to an organization's vendor collection.
+ */
+export function vendorsCollection(orgId: string) {
+    return organizationDoc(orgId).collection("vendors");
+}
+
+/**
+ * Returns a reference to an organization's vendor name correction log.
+ */
+export function vendorCorrectionsCollection(orgId: string) {
+    return organizationDoc(orgId).collection("vendorCorrections");
+}
+
+/**
+ * Returns a reference to an organization's learned alias proposals.
+ */
+export function aliasProposalsCollection(orgId: string) {
+    return organizationDoc(orgId).collection("vendorAliasProposals");
+}
+
+/**
+ * Reduces a vendor name to the key aliases and rules match on: lowercase, no
+ * punctuation, store numbers ("#1234") or legal-form suffixes, single spaces.
+ * "Acme Hardware, Inc. #0412" and "ACME HARDWARE" both become "acme hardware".
+ */
+export function vendorKey(name: string): string {
+    const words = name
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/#\s*\d+/g, " ")
+        .replace(/['\u2019]/g, "")
+        .replace(/[^\p{L}\p{N}\s]/gu, " ")
+        .split(/\s+/)
+        .filter(Boolean);
+
+    while (words.length > 1 && CORPORATE_SUFFIXES.has(words[words.length - 1])) {
+        words.pop();
+    }
+    return words.join(" ");
+}
+
+/**
+ * Loads an organization's alias map (vendor key -> canonical name).
+ */
+export async function loadVendorAliases(orgId: string): Promise<Map<string, string>> {
+    const snapshot = await vendorsCollection(orgId).get();
+    const aliases = new Map<string, string>();
+    for (const doc of snapshot.docs) {
+        const vendor = doc.data() as VendorDefinition;
+        for (const alias of vendor.aliases) {
+            if (!aliases.has(alias)) {
+                aliases.set(alias, vendor.canonicalName);
+            }
+        }
+    }
+    return aliases;
+}
+
+/**
+ * Returns the canonical name for a vendor, or the name unchanged if it has no alias.
+ */
+export function canonicalVendorName(name: string, aliases: Map<string, string>): string {
+    return aliases.get(vendorKey(name)) ?? name;
+}
+
+/**
+ * Adds a spelling to the aliases of the vendor it was corrected to, creating that vendor
+ * if needed, so later receipts get the corrected name straight away.
+ *
+ * @throws HttpsError("failed-precondition") if the spelling already belongs to a different vendor
+ */
+async function addVendorAlias(orgId: string, extractedName: string, correctedName: string): Promise<void> {
+    const fromKey = vendorKey(extractedName);
+    const toKey = vendorKey(correctedName);
+
+    const collection = vendorsCollection(orgId);
+    const keys = [...new Set([fromKey, toKey].filter(Boolean))];
+    const matches = await collection.where("aliases", "array-contains-any", keys).get();
+    const vendors = matches.docs.map((doc) => doc.data() as VendorDefinition);
+    const owner = vendors.find((vendor) => vendor.aliases.includes(fromKey));
+    const target = vendors.find((vendor) => vendor.aliases.includes(toKey));
+    const now = new Date().toISOString();
+
+    if (owner && owner !== target) {
+        throw new HttpsError("failed-precondition", `"${extractedName}" is already an alias of ${owner.canonicalName}`);
+    }
+    if (target) {
+        if (fromKey && !target.aliases.includes(fromKey)) {
+            await collection.doc(target.vendorId).update({
+                aliases: FieldValue.arrayUnion(fromKey),
+                updatedAt: now
+            });
+            console.log(`Added vendor alias "${extractedName}" -> "${target.canonicalName}" in ${orgId}`);
+        }
+        return;
+    }
+
+    const ref = collection.doc();
+    const vendor: VendorDefinition = {
+        vendorId: ref.id,
+        canonicalName: correctedName.trim(),
+        aliases: keys,
+        source: "learned",
+        createdAt: now,
+        updatedAt: now
+    };
+    await ref.set(vendor);
+    console.log(`Added vendor "${vendor.canonicalName}" (from "${extractedName}") in ${orgId}`);
+}
+
+/**
+ * ID of the alias proposed for a spelling and vendor, so repeated corrections
+ * update one proposal instead of creating new ones.
+ */
+function aliasProposalIdFor(fromKey: string, toKey: string): string {
+    const digest = createHash("sha256").update(`${fromKey}\n${toKey}`).digest("hex");
+    return `learned-${digest.substring(0, 20)}`;
+}
+
+/**
+ * Logs a corrected vendor name and proposes the extracted spelling as an alias once the
+ * same correction was made often enough (see getRuleProposalMinCorrections). A single
+ * edit never renames other receipts: an owner or admin of the organization accepts the
+ * proposal with resolveAliasProposal. Proposals that were accepted or dismissed are left alone.
+ */
+export async function recordVendorCorrection(
+    orgId: string,
+    userId: string,
+    receiptId: string,
+    extractedName: string,
+    correctedName: string,
+    minimumCorrections: number
+): Promise<void> {
+    const fromKey = vendorKey(extractedName);
+    const toKey = vendorKey(correctedName);
+    if (!fromKey || !toKey || fromKey === toKey) {
+        return; // Only the formatting changed
+    }
+
+    const correction: VendorCorrection = {
+        userId,
+        receiptId,
+        fromName: extractedName,
+        fromKey,
+        toName: correctedName,
+        toKey,
+        createdAt: new Date().toISOString()
+    };
+    await vendorCorrectionsCollection(orgId).add(correction);
+
+    const snapshot = await vendorCorrectionsCollection(orgId)
+        .where("fromKey", "==", fromKey)
+        .where("toKey", "==", toKey)
+        .limit(100)
+        .get();
+    if (snapshot.size < minimumCorrections) {
+        return;
+    }
+
+    // Nothing to learn if the aliases already give this name
+    const aliases = await loadVendorAliases(orgId);
+    if (aliases.has(fromKey) && vendorKey(aliases.get(fromKey)!) === toKey) {
+        return;
+    }
+
+    const ref = aliasProposalsCollection(orgId).doc(aliasProposalIdFor(fromKey, toKey));
+    await getFirestore().runTransaction(async (transaction) => {
+        const existing = await transaction.get(ref);
+        const proposal = existing.data() as VendorAliasProposal | undefined;
+        if (proposal && proposal.status !== "proposed") {
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const updated: VendorAliasProposal = {
+            proposalId: ref.id,
+            alias: fromKey,
+            extractedName: extractedName.trim(),
+            canonicalName: correctedName.trim(),
+            status: "proposed",
+            evidenceCount: snapshot.size,
+            decidedBy: null,
+            createdAt: proposal?.createdAt ?? now,
+            updatedAt: now
+        };
+        transaction.set(ref, updated);
+    });
+    console.log(`Proposed vendor alias ${ref.id}: "${extractedName}" -> "${correctedName}" (${snapshot.size} corrections) in ${orgId}`);
+}
+
+/**
+ * Cloud Function: List Vendors
+ *
+ * Returns the canonical vendors of the caller's organization (admins may pass { orgId }),
+ * and for its owners and admins the alias proposals waiting for a decision.
+ */
+export const listVendors = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const [snapshot, manager] = await Promise.all([
+            vendorsCollection(orgId).orderBy("canonicalName").get(),
+            hasOrgRole(request, orgId, MANAGER_ROLES)
+        ]);
+        const proposals = manager
+            ? await aliasProposalsCollection(orgId).where("status", "==", "proposed").get()
+            : null;
+        return {
+            orgId,
+            vendors: snapshot.docs.map((doc) => doc.data() as VendorDefinition),
+            aliasProposals: proposals ? proposals.docs.map((doc) => doc.data() as VendorAliasProposal) : []
+        };
+    }
+);
+
+/**
+ * Cloud Function: Save Vendor (admin only)
+ *
+ * Creates or updates a canonical vendor: { orgId?, vendorId?, canonicalName, aliases: ["Acme Corp", ...] }.
+ * Aliases are spellings as they appear on receipts; each may belong to one vendor only.
+ */
+export const saveVendor = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const vendorId = request.data?.vendorId;
+        const canonicalName = request.data?.canonicalName;
+        const aliases = request.data?.aliases ?? [];
+
+        if (vendorId !== undefined && (typeof vendorId !== "string" || !vendorId)) {
+            throw new HttpsError("invalid-argument", "vendorId must be a vendor ID");
+        }
+        if (typeof canonicalName !== "string" || !vendorKey(canonicalName) || canonicalName.length > MAX_VENDOR_NAME_LENGTH) {
+            throw new HttpsError("invalid-argument", `canonicalName must be a vendor name of at most ${MAX_VENDOR_NAME_LENGTH} characters`);
+        }
+        if (!Array.isArray(aliases) || !aliases.every((alias) => typeof alias === "string" && vendorKey(alias))) {
+            throw new HttpsError("invalid-argument", "aliases must be an array of vendor names");
+        }
+
+        const keys = [...new Set([canonicalName, ...aliases].map(vendorKey))];
+        if (keys.length > MAX_ALIASES) {
+            throw new HttpsError("invalid-argument", `A vendor can have at most ${MAX_ALIASES} distinct aliases`);
+        }
+
+        const collection = vendorsCollection(orgId);
+        const ref = vendorId ? collection.doc(vendorId) : collection.doc();
+
+        const vendor = await getFirestore().runTransaction(async (transaction) => {
+            const existing = await transaction.get(ref);
+            if (vendorId && !existing.exists) {
+                throw new HttpsError("not-found", `Vendor ${vendorId} not found`);
+            }
+            const conflicts = await transaction.get(collection.where("aliases", "array-contains-any", keys));
+            const conflict = conflicts.docs.find((doc) => doc.id !== ref.id);
+            if (conflict) {
+                const other = conflict.data() as VendorDefinition;
+                const shared = keys.filter((key) => other.aliases.includes(key));
+                throw new HttpsError("already-exists", `"${shared.join("\", \"")}" already belongs to vendor ${other.canonicalName}`);
+            }
+
+            const now = new Date().toISOString();
+            const saved: VendorDefinition = {
+                vendorId: ref.id,
+                canonicalName: canonicalName.trim(),
+                aliases: keys,
+                source: "manual",
+                createdAt: (existing.data() as VendorDefinition | undefined)?.createdAt ?? now,
+                updatedAt: now
+            };
+            transaction.set(ref, saved);
+            return saved;
+        });
+
+        console.log(`Vendor "${vendor.canonicalName}" (${vendor.vendorId}) saved in ${orgId} by ${adminUid}`);
+        return { success: true, vendor };
+    }
+);
+
+/**
+ * Cloud Function: Delete Vendor (admin only)
+ *
+ * { orgId?, vendorId }. Receipts already logged keep their vendor name.
+ */
+export const deleteVendor = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const adminUid = await requireAdmin(request);
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const vendorId = request.data?.vendorId;
+        if (typeof vendorId !== "string" || !vendorId) {
+            throw new HttpsError("invalid-argument", "vendorId is required");
+        }
+
+        const ref = vendorsCollection(orgId).doc(vendorId);
+        const snapshot = await ref.get();
+        if (!snapshot.exists) {
+            throw new HttpsError("not-found", `Vendor ${vendorId} not found`);
+        }
+        await ref.delete();
+
+        console.log(`Vendor ${vendorId} deleted from ${orgId} by ${adminUid}`);
+        return { success: true, vendorId };
+    }
+);
+
+/**
+ * Cloud Function: Resolve Alias Proposal
+ *
+ * Accepts (adds to the vendor's aliases) or dismisses an alias learned from vendor name
+ * corrections: { orgId?, proposalId, action: "accept" | "dismiss" }. Owners and admins of
+ * the organization only, since an alias renames every member's receipts.
+ */
+export const resolveAliasProposal = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const orgId = await resolveTargetOrg(request, request.data?.orgId);
+        const callerUid = await requireOrgRole(request, orgId, MANAGER_ROLES);
+        const proposalId = request.data?.proposalId;
+        const action = request.data?.action;
+        if (typeof proposalId !== "string" || !proposalId || proposalId.includes("/")) {
+            throw new HttpsError("invalid-argument", "proposalId is required");
+        }
+        if (action !== "accept" && action !== "dismiss") {
+            throw new HttpsError("invalid-argument", "action must be \"accept\" or \"dismiss\"");
+        }
+
+        const ref = aliasProposalsCollection(orgId).doc(proposalId);
+        const snapshot = await ref.get();
+        const proposal = snapshot.data() as VendorAliasProposal | undefined;
+        if (!proposal) {
+            throw new HttpsError("not-found", `Alias proposal ${proposalId} not found`);
+        }
+        if (proposal.status !== "proposed") {
+            throw new HttpsError("failed-precondition", `Alias proposal ${proposalId} was already decided (status: ${proposal.status})`);
+        }
+
+        if (action === "accept") {
+            await addVendorAlias(orgId, proposal.extractedName, proposal.canonicalName);
+        }
+        const status: AliasProposalStatus = action === "accept" ? "accepted" : "dismissed";
+        await ref.update({ status, decidedBy: callerUid, updatedAt: new Date().toISOString() });
+
+        console.log(`Alias proposal ${proposalId} in ${orgId} ${status} by ${callerUid}`);
+        return { success: true, proposalId, status };
+    }
+);
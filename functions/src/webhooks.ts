@@ -0,0 +1,761 @@
+// functions/src/webhooks.ts
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import { request as httpsRequest } from "https";
+import { BlockList, LookupFunction, isIP } from "net";
+import { getFirestore, DocumentReference, Query } from "firebase-admin/firestore";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { ReceiptRecord, getReceiptRecord } from "./receipts";
+import { WEBHOOK_RETRY_POLICY, backoffDelay } from "./retry";
+import { MANAGER_ROLES, DEFAULT_ORG_ID, hasOrgRole, resolveTargetOrg } from "./organizations";
+import { isAdmin, requireAuth, resolveTargetUser } from "./access";
+
+/**
+ * gRPC status code returned by create() when the document already exists.
+ */
+const ALREADY_EXISTS = 6;
+
+/**
+ * How long an endpoint gets to answer a delivery.
+ */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Addresses webhooks are never sent to: unspecified, private, carrier-grade NAT, loopback,
+ * link-local (including the metadata server at 169.254.169.254), benchmarking, multicast and
+ * reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+const INTERNAL_ADDRESSES = new BlockList();
+([
+    ["0.0.0.0", 8, "ipv4"], ["10.0.0.0", 8, "ipv4"], ["100.64.0.0", 10, "ipv4"], ["127.0.0.0", 8, "ipv4"],
+    ["169.254.0.0", 16, "ipv4"], ["172.16.0.0", 12, "ipv4"], ["192.0.0.0", 24, "ipv4"], ["192.168.0.0", 16, "ipv4"],
+    ["198.18.0.0", 15, "ipv4"], ["224.0.0.0", 3, "ipv4"],
+    ["::", 128, "ipv6"], ["::1", 128, "ipv6"], ["64:ff9b::", 96, "ipv6"], ["fc00::", 7, "ipv6"],
+    ["fe80::", 10, "ipv6"], ["ff00::", 8, "ipv6"]
+] as const).forEach(([network, prefix, type]) => INTERNAL_ADDRESSES.addSubnet(network, prefix, type));
+
+/**
+ * How long a retry run's claim on a delivery is honored before another run may retry it.
+ */
+const RETRY_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Most due deliveries one scheduled run retries.
+ */
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * Deliveries one scheduled run attempts at the same time.
+ */
+const RETRY_CONCURRENCY = 10;
+
+/**
+ * How long a scheduled run keeps starting attempts, leaving room in its timeout for the
+ * attempts in flight (each up to DELIVERY_TIMEOUT_MS). Unclaimed deliveries wait for the next run.
+ */
+const RETRY_RUN_BUDGET_MS = 4 * 60 * 1000;
+
+const MAX_SUBSCRIPTIONS_PER_OWNER = 20;
+
+/**
+ * Events a subscription can receive:
+ * - receipt.extracted: extracted and exported without needing review
+ * - receipt.needs_review: held in the review queue
+ * - receipt.approved: approved from the review queue and exported
+ * - receipt.failed: extraction failed (the receipt is dead-lettered)
+ * - budget.exceeded: a month's spending reached 100% (or more) of a budget
+ */
+export type WebhookEventType =
+    | "receipt.extracted"
+    | "receipt.needs_review"
+    | "receipt.approved"
+    | "receipt.failed"
+    | "budget.exceeded";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+    "receipt.extracted",
+    "receipt.needs_review",
+    "receipt.approved",
+    "receipt.failed",
+    "budget.exceeded"
+];
+
+/**
+ * Whose events a subscription receives: a user's own receipts and personal budgets, or
+ * every member's receipts and the budgets of an organization.
+ */
+export type WebhookScope = "personal" | "organization";
+
+/**
+ * An HTTPS endpoint registered for events, stored at webhookSubscriptions/{subscriptionId}.
+ * Clients cannot read the collection: it holds the signing secret.
+ */
+export interface WebhookSubscription {
+    subscriptionId: string;
+    scope: WebhookScope;
+    ownerId: string; // userId or orgId
+    url: string;
+    events: WebhookEventType[];
+    description: string | null;
+    secret: string; // HMAC-SHA256 key of the signatures; only returned when created or rotated
+    active: boolean; // Inactive subscriptions receive nothing
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * The JSON body POSTed to endpoints. Receivers should deduplicate on id: retries and
+ * replays of an event carry the same id.
+ */
+export interface WebhookEvent {
+    id: string;
+    type: WebhookEventType | "webhook.test";
+    createdAt: string;
+    data: Record<string, unknown>;
+}
+
+/**
+ * - pending: the first attempt is in progress; retried from nextAttemptAt if it never finishes
+ * - retrying: failed so far; tried again from nextAttemptAt
+ * - failed: gave up after WEBHOOK_RETRY_POLICY.maxAttempts attempts (replay to send again)
+ */
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "retrying" | "failed";
+
+export interface WebhookDeliveryAttempt {
+    at: string;
+    statusCode: number | null; // null if the endpoint could not be reached
+    error: string | null;
+    durationMs: number;
+}
+
+/**
+ * One event sent to one subscription, stored at
+ * webhookSubscriptions/{subscriptionId}/deliveries/{deliveryId} (the delivery log).
+ */
+export interface WebhookDelivery {
+    deliveryId: string;
+    subscriptionId: string;
+    eventId: string;
+    eventType: WebhookEvent["type"];
+    body: string; // Exactly what is signed and sent
+    status: WebhookDeliveryStatus;
+    attempts: WebhookDeliveryAttempt[];
+    nextAttemptAt: string | null;
+    replayOf: string | null; // deliveryId this delivery replays
+    createdAt: string;
+    deliveredAt: string | null;
+}
+
+export function webhookSubscriptionsCollection() {
+    return getFirestore().collection("webhookSubscriptions");
+}
+
+function deliveriesCollection(subscriptionId: string) {
+    return webhookSubscriptionsCollection().doc(subscriptionId).collection("deliveries");
+}
+
+function newSecret(): string {
+    return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * The signature header of a delivery: "t={unix seconds},v1={hex HMAC-SHA256 of "{t}.{body}"}".
+ * Receivers recompute it with the subscription secret and reject old timestamps.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+    const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Subscriptions without their secret, for the callables.
+ */
+function withoutSecret({ secret: _secret, ...subscription }: WebhookSubscription) {
+    return subscription;
+}
+
+function isInternalAddress(address: string): boolean {
+    const family = isIP(address);
+    return family === 0 || INTERNAL_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * dns.lookup for delivery connections that fails when the host resolves to an internal
+ * address. It runs as part of the connection, so the address checked is the one connected
+ * to: a host name can't pass a check and then be re-pointed at an internal address.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, "");
+            return;
+        }
+        const internal = addresses.find((entry) => isInternalAddress(entry.address));
+        if (internal || addresses.length === 0) {
+            callback(new Error(`${hostname} resolves to ${internal ? `internal address ${internal.address}` : "no address"}`), "");
+            return;
+        }
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * POSTs a webhook body to a public address (see publicLookup). Redirects are not followed:
+ * they could point at an internal address.
+ *
+ * @returns The response status code
+ * @throws Error if the host is internal, can't be reached or doesn't answer in time
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const target = new URL(url);
+        const host = target.hostname.replace(/^\[|\]$/g, "");
+        if (isIP(host) && isInternalAddress(host)) {
+            reject(new Error(`${host} is an internal address`));
+            return;
+        }
+
+        const request = httpsRequest(target, {
+            method: "POST",
+            headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+            lookup: publicLookup,
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+        }, (response) => {
+            resolve(response.statusCode ?? 0);
+            response.destroy(); // Only the status matters
+        });
+        request.on("error", reject);
+        request.end(body);
+    });
+}
+
+/**
+ * POSTs a delivery once and records the attempt: succeeded on a 2xx answer, otherwise
+ * retried with backoff until WEBHOOK_RETRY_POLICY runs out.
+ */
+async function attemptDelivery(
+    subscription: WebhookSubscription,
+    ref: DocumentReference,
+    delivery: WebhookDelivery
+): Promise<WebhookDelivery> {
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+        statusCode = await postWebhook(subscription.url, {
+            "Content-Type": "application/json",
+            "User-Agent": "receipt-webhooks/1",
+            "X-Webhook-Event": delivery.eventType,
+            "X-Webhook-Delivery": delivery.deliveryId,
+            "X-Webhook-Signature": signPayload(subscription.secret, Math.floor(startedAt / 1000), delivery.body)
+        }, delivery.body);
+        if (statusCode < 200 || statusCode >= 300) {
+            error = `HTTP ${statusCode}`;
+        }
+    } catch (caught) {
+        error = (caught as Error)?.message || String(caught);
+    }
+
+    const at = new Date().toISOString();
+    const attempts = [...delivery.attempts, { at, statusCode, error, durationMs: Date.now() - startedAt }];
+    let status: WebhookDeliveryStatus = "succeeded";
+    let nextAttemptAt: string | null = null;
+    if (error !== null) {
+        status = attempts.length >= WEBHOOK_RETRY_POLICY.maxAttempts ? "failed" : "retrying";
+        if (status === "retrying") {
+            const delay = Math.max(WEBHOOK_RETRY_POLICY.baseDelayMs, backoffDelay(attempts.length, WEBHOOK_RETRY_POLICY));
+            nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        }
+        console.warn(`Webhook delivery ${delivery.deliveryId} to subscription ${subscription.subscriptionId} ` +
+            `failed (attempt ${attempts.length}): ${error}`);
+    }
+
+    const update = { status, attempts, nextAttemptAt, deliveredAt: status === "succeeded" ? at : null };
+    await ref.update(update);
+    return { ...delivery, ...update };
+}
+
+/**
+ * Records a delivery in the subscription's log and makes the first attempt. The delivery is
+ * recorded under a retry lease, so the scheduled retries pick it up if this instance dies
+ * before the attempt is recorded.
+ *
+ * @returns The delivery, or null if it was already recorded (the same event emitted again)
+ */
+async function deliver(
+    subscription: WebhookSubscription,
+    event: WebhookEvent,
+    deliveryId: string,
+    replayOf: string | null = null
+): Promise<WebhookDelivery | null> {
+    const ref = deliveriesCollection(subscription.subscriptionId).doc(deliveryId);
+    const delivery: WebhookDelivery = {
+        deliveryId,
+        subscriptionId: subscription.subscriptionId,
+        eventId: event.id,
+        eventType: event.type,
+        body: JSON.stringify(event),
+        status: "pending",
+        attempts: [],
+        nextAttemptAt: new Date(Date.now() + RETRY_LEASE_MS).toISOString(),
+        replayOf,
+        createdAt: new Date().toISOString(),
+        deliveredAt: null
+    };
+    try {
+        await ref.create(delivery);
+    } catch (error) {
+        if ((error as { code?: number }).code === ALREADY_EXISTS) {
+            return null;
+        }
+        throw error;
+    }
+    return attemptDelivery(subscription, ref, delivery);
+}
+
+/**
+ * Sends an event to the active subscriptions of its owners that want it. Events are
+ * identified by a key (e.g. the receipt and its status change), so emitting the same
+ * one again (a redelivered trigger) sends nothing new. Never throws: a failing webhook
+ * must not fail the receipt.
+ */
+export async function emitEvent(
+    type: WebhookEventType,
+    key: string,
+    owners: { userId: string | null; orgId: string | null },
+    data: Record<string, unknown>
+): Promise<void> {
+    try {
+        const queries = [
+            owners.userId ? { scope: "personal", ownerId: owners.userId } : null,
+            owners.orgId ? { scope: "organization", ownerId: owners.orgId } : null
+        ].filter((owner): owner is { scope: WebhookScope; ownerId: string } => owner !== null)
+            .map(({ scope, ownerId }) => webhookSubscriptionsCollection()
+                .where("scope", "==", scope)
+                .where("ownerId", "==", ownerId)
+                .get());
+        const subscriptions = (await Promise.all(queries))
+            .flatMap((snapshot) => snapshot.docs.map((doc) => doc.data() as WebhookSubscription))
+            .filter((subscription) => subscription.active && subscription.events.includes(type));
+        if (subscriptions.length === 0) {
+            return;
+        }
+
+        const id = `evt_${createHash("sha256").update(`${type}|${key}`).digest("hex").substring(0, 32)}`;
+        const event: WebhookEvent = { id, type, createdAt: new Date().toISOString(), data };
+        await Promise.all(subscriptions.map((subscription) => deliver(subscription, event, id)));
+    } catch (error) {
+        console.error(`Failed to emit webhook event ${type} for ${key}:`, error);
+    }
+}
+
+/**
+ * Emits a receipt event with the receipt's current ledger entry (including its ReceiptData).
+ */
+export async function emitReceiptEvent(type: WebhookEventType, userId: string, receiptId: string): Promise<void> {
+    let record: ReceiptRecord | null;
+    try {
+        record = await getReceiptRecord(userId, receiptId);
+    } catch (error) {
+        console.error(`Failed to load receipt ${receiptId} for webhook event ${type}:`, error);
+        return;
+    }
+    if (!record) {
+        return;
+    }
+    await emitEvent(type, `${userId}/${receiptId}/${record.timestamp}`, { userId, orgId: record.orgId || DEFAULT_ORG_ID }, {
+        receiptId,
+        userId,
+        orgId: record.orgId,
+        status: record.status,
+        fileName: record.fileName,
+        receiptData: record.receiptData,
+        errorMessage: record.errorMessage,
+        origin: record.origin ?? null,
+        timestamp: record.timestamp
+    });
+}
+
+/**
+ * Rejects endpoints that are not HTTPS URLs of a public host (internal host names and
+ * addresses), so subscriptions can't probe the functions' network. Host names are checked
+ * again when they are resolved for each delivery (see publicLookup).
+ */
+function parseEndpointUrl(value: unknown): string {
+    if (typeof value !== "string" || value.length > 2000) {
+        throw new HttpsError("invalid-argument", "url is required");
+    }
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new HttpsError("invalid-argument", "url is not a valid URL");
+    }
+    if (url.protocol !== "https:" || url.username || url.password) {
+        throw new HttpsError("invalid-argument", "url must be an https:// URL without credentials");
+    }
+
+    const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    const internal = host === "localhost" || /\.(localhost|local|internal)$/.test(host) ||
+        (isIP(host) !== 0 && isInternalAddress(host));
+    if (internal) {
+        throw new HttpsError("invalid-argument", "url must point at a public host");
+    }
+    return url.toString();
+}
+
+function parseEvents(value: unknown): WebhookEventType[] {
+    if (!Array.isArray(value) || value.length === 0 ||
+        !value.every((event) => WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType))) {
+        throw new HttpsError("invalid-argument", `events must list one or more of: ${WEBHOOK_EVENT_TYPES.join(", ")}`);
+    }
+    return [...new Set(value as WebhookEventType[])];
+}
+
+function parseDescription(value: unknown): string | null {
+    if (value === undefined || value === null || value === "") {
+        return null;
+    }
+    if (typeof value !== "string" || value.length > 200) {
+        throw new HttpsError("invalid-argument", "description must be a string of at most 200 characters");
+    }
+    return value;
+}
+
+/**
+ * Resolves whose subscriptions a request is about. Personal subscriptions are the caller's
+ * (admins may pass userId); organization subscriptions are managed by its owners and admins.
+ */
+async function resolveSubscriptionOwner(request: CallableRequest): Promise<{ scope: WebhookScope; ownerId: string }> {
+    const scope = request.data?.scope ?? "personal";
+    if (scope === "personal") {
+        return { scope, ownerId: await resolveTargetUser(request, request.data?.userId) };
+    }
+    if (scope !== "organization") {
+        throw new HttpsError("invalid-argument", "scope must be \"personal\" or \"organization\"");
+    }
+    const orgId = await resolveTargetOrg(request, request.data?.orgId);
+    if (!await hasOrgRole(request, orgId, MANAGER_ROLES)) {
+        throw new HttpsError("permission-denied", "Only the organization's owners and admins can manage its webhooks");
+    }
+    return { scope, ownerId: orgId };
+}
+
+/**
+ * Loads a subscription the caller may manage: their own, their organization's (owners
+ * and admins), or any (admins).
+ *
+ * @throws HttpsError("not-found") if it does not exist or belongs to someone else
+ */
+async function loadSubscription(request: CallableRequest, subscriptionId: unknown): Promise<WebhookSubscription> {
+    const callerUid = requireAuth(request);
+    if (typeof subscriptionId !== "string" || !subscriptionId || subscriptionId.includes("/")) {
+        throw new HttpsError("invalid-argument", "subscriptionId is required");
+    }
+    const snapshot = await webhookSubscriptionsCollection().doc(subscriptionId).get();
+    const subscription = snapshot.data() as WebhookSubscription | undefined;
+    const allowed = subscription && (await isAdmin(request) ||
+        (subscription.scope === "personal" && subscription.ownerId === callerUid) ||
+        (subscription.scope === "organization" && await hasOrgRole(request, subscription.ownerId, MANAGER_ROLES)));
+    if (!allowed) {
+        throw new HttpsError("not-found", `Webhook subscription ${subscriptionId} not found`);
+    }
+    return subscription;
+}
+
+/**
+ * Cloud Function: Retry Failed Webhook Deliveries
+ *
+ * Every 5 minutes, attempts the deliveries whose backoff has expired again, and those whose
+ * first attempt never finished. Up to RETRY_CONCURRENCY attempts run at once.
+ */
+export const retryWebhookDeliveries = onSchedule(
+    {
+        schedule: "every 5 minutes",
+        region: "us-central1",
+        timeoutSeconds: 300,
+    },
+    async () => {
+        const startedAt = Date.now();
+        const now = new Date(startedAt).toISOString();
+        const due = await getFirestore().collectionGroup("deliveries")
+            .where("status", "in", ["pending", "retrying"])
+            .where("nextAttemptAt", "<=", now)
+            .orderBy("nextAttemptAt")
+            .limit(RETRY_BATCH_SIZE)
+            .get();
+
+        const subscriptions = new Map<string, Promise<WebhookSubscription | null>>();
+        const loadSubscriptionOnce = (subscriptionId: string) => {
+            if (!subscriptions.has(subscriptionId)) {
+                subscriptions.set(subscriptionId, webhookSubscriptionsCollection().doc(subscriptionId).get()
+                    .then((snapshot) => (snapshot.data() as WebhookSubscription | undefined) ?? null));
+            }
+            return subscriptions.get(subscriptionId)!;
+        };
+
+        const retryOne = async (ref: DocumentReference): Promise<boolean> => {
+            // Claim the delivery, so an overlapping run doesn't send it twice
+            const delivery = await getFirestore().runTransaction(async (transaction) => {
+                const snapshot = await transaction.get(ref);
+                const current = snapshot.data() as WebhookDelivery | undefined;
+                if ((current?.status !== "pending" && current?.status !== "retrying") ||
+                    !current.nextAttemptAt || current.nextAttemptAt > now) {
+                    return null;
+                }
+                transaction.update(ref, { nextAttemptAt: new Date(Date.now() + RETRY_LEASE_MS).toISOString() });
+                return current;
+            });
+            if (!delivery) {
+                return false;
+            }
+
+            const subscription = await loadSubscriptionOnce(delivery.subscriptionId);
+            if (!subscription?.active) {
+                await ref.update({ status: "failed", nextAttemptAt: null });
+                return false;
+            }
+            await attemptDelivery(subscription, ref, delivery);
+            return true;
+        };
+
+        let next = 0;
+        let retried = 0;
+        const worker = async () => {
+            while (next < due.docs.length && Date.now() - startedAt < RETRY_RUN_BUDGET_MS) {
+                const doc = due.docs[next++];
+                try {
+                    if (await retryOne(doc.ref)) {
+                        retried++;
+                    }
+                } catch (error) {
+                    console.error(`Failed to retry webhook delivery ${doc.ref.path}:`, error);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(RETRY_CONCURRENCY, due.size) }, worker));
+
+        if (due.size > 0) {
+            console.log(`Retried ${retried} of ${due.size} due webhook deliveries`);
+        }
+    }
+);
+
+/**
+ * Cloud Function: Create a Webhook Subscription
+ *
+ * Registers an HTTPS endpoint for events: { url, events, description?, scope?: "personal" |
+ * "organization", userId?, orgId? }. Returns the subscription with its signing secret,
+ * which is not shown again (rotate it with updateWebhookSubscription).
+ */
+export const createWebhookSubscription = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const callerUid = requireAuth(request);
+        const { scope, ownerId } = await resolveSubscriptionOwner(request);
+        const url = parseEndpointUrl(request.data?.url);
+        const events = parseEvents(request.data?.events);
+        const description = parseDescription(request.data?.description);
+
+        const existing = await webhookSubscriptionsCollection()
+            .where("scope", "==", scope)
+            .where("ownerId", "==", ownerId)
+            .count()
+            .get();
+        if (existing.data().count >= MAX_SUBSCRIPTIONS_PER_OWNER) {
+            throw new HttpsError("resource-exhausted", `At most ${MAX_SUBSCRIPTIONS_PER_OWNER} webhook subscriptions are allowed`);
+        }
+
+        const ref = webhookSubscriptionsCollection().doc();
+        const now = new Date().toISOString();
+        const subscription: WebhookSubscription = {
+            subscriptionId: ref.id,
+            scope,
+            ownerId,
+            url,
+            events,
+            description,
+            secret: newSecret(),
+            active: true,
+            createdBy: callerUid,
+            createdAt: now,
+            updatedAt: now
+        };
+        await ref.set(subscription);
+
+        console.log(`Webhook subscription ${ref.id} (${scope} ${ownerId}) created by ${callerUid}`);
+        return { subscription: withoutSecret(subscription), secret: subscription.secret };
+    }
+);
+
+/**
+ * Cloud Function: List Webhook Subscriptions
+ *
+ * Returns a user's or an organization's subscriptions, without their secrets:
+ * { scope?, userId?, orgId? }.
+ */
+export const listWebhookSubscriptions = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const { scope, ownerId } = await resolveSubscriptionOwner(request);
+        const snapshot = await webhookSubscriptionsCollection()
+            .where("scope", "==", scope)
+            .where("ownerId", "==", ownerId)
+            .get();
+        return {
+            subscriptions: snapshot.docs
+                .map((doc) => withoutSecret(doc.data() as WebhookSubscription))
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        };
+    }
+);
+
+/**
+ * Cloud Function: Update a Webhook Subscription
+ *
+ * Changes a subscription: { subscriptionId, url?, events?, description?, active?,
+ * rotateSecret? }. With rotateSecret, returns the new secret; the old one stops working.
+ */
+export const updateWebhookSubscription = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const subscription = await loadSubscription(request, request.data?.subscriptionId);
+        const update: Partial<WebhookSubscription> = { updatedAt: new Date().toISOString() };
+        if (request.data?.url !== undefined) {
+            update.url = parseEndpointUrl(request.data.url);
+        }
+        if (request.data?.events !== undefined) {
+            update.events = parseEvents(request.data.events);
+        }
+        if (request.data?.description !== undefined) {
+            update.description = parseDescription(request.data.description);
+        }
+        if (request.data?.active !== undefined) {
+            if (typeof request.data.active !== "boolean") {
+                throw new HttpsError("invalid-argument", "active must be a boolean");
+            }
+            update.active = request.data.active;
+        }
+        if (request.data?.rotateSecret === true) {
+            update.secret = newSecret();
+        }
+
+        await webhookSubscriptionsCollection().doc(subscription.subscriptionId).update(update);
+        const updated = { ...subscription, ...update };
+        return {
+            subscription: withoutSecret(updated),
+            ...(update.secret ? { secret: update.secret } : {})
+        };
+    }
+);
+
+/**
+ * Cloud Function: Delete a Webhook Subscription
+ *
+ * Deletes a subscription and its delivery log: { subscriptionId }.
+ */
+export const deleteWebhookSubscription = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const subscription = await loadSubscription(request, request.data?.subscriptionId);
+        await getFirestore().recursiveDelete(webhookSubscriptionsCollection().doc(subscription.subscriptionId));
+
+        console.log(`Webhook subscription ${subscription.subscriptionId} deleted by ${request.auth?.uid}`);
+        return { success: true };
+    }
+);
+
+/**
+ * Cloud Function: List Webhook Deliveries
+ *
+ * Returns a subscription's delivery log, newest first: { subscriptionId, status?, limit? }.
+ */
+export const listWebhookDeliveries = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const subscription = await loadSubscription(request, request.data?.subscriptionId);
+        const limit = Math.min(Math.max(Number(request.data?.limit) || 50, 1), 200);
+        const status = request.data?.status;
+        if (status !== undefined && !["pending", "succeeded", "retrying", "failed"].includes(status)) {
+            throw new HttpsError("invalid-argument", "status must be \"pending\", \"succeeded\", \"retrying\" or \"failed\"");
+        }
+
+        let query: Query = deliveriesCollection(subscription.subscriptionId);
+        if (status !== undefined) {
+            query = query.where("status", "==", status);
+        }
+        const snapshot = await query.orderBy("createdAt", "desc").limit(limit).get();
+        return { deliveries: snapshot.docs.map((doc) => doc.data() as WebhookDelivery) };
+    }
+);
+
+/**
+ * Cloud Function: Send a Test Webhook
+ *
+ * Sends a "webhook.test" event to a subscription right away (active or not) and returns
+ * the delivery: { subscriptionId }. Failed test deliveries are retried like others while
+ * the subscription is active.
+ */
+export const sendTestWebhook = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const subscription = await loadSubscription(request, request.data?.subscriptionId);
+        const id = `evt_test_${randomBytes(12).toString("hex")}`;
+        const delivery = await deliver(subscription, {
+            id,
+            type: "webhook.test",
+            createdAt: new Date().toISOString(),
+            data: { subscriptionId: subscription.subscriptionId, message: "Test event" }
+        }, id);
+        return { delivery };
+    }
+);
+
+/**
+ * Cloud Function: Replay a Webhook Delivery
+ *
+ * Sends a past delivery's event again, unchanged (same event id), as a new delivery:
+ * { subscriptionId, deliveryId }.
+ */
+export const replayWebhookDelivery = onCall(
+    {
+        region: "us-central1",
+    },
+    async (request) => {
+        const subscription = await loadSubscription(request, request.data?.subscriptionId);
+        const deliveryId = request.data?.deliveryId;
+        if (typeof deliveryId !== "string" || !deliveryId || deliveryId.includes("/")) {
+            throw new HttpsError("invalid-argument", "deliveryId is required");
+        }
+        const snapshot = await deliveriesCollection(subscription.subscriptionId).doc(deliveryId).get();
+        if (!snapshot.exists) {
+            throw new HttpsError("not-found", `Delivery ${deliveryId} not found`);
+        }
+
+        const original = snapshot.data() as WebhookDelivery;
+        const replayId = `${original.eventId}_replay_${randomBytes(6).toString("hex")}`;
+        const delivery = await deliver(subscription, JSON.parse(original.body) as WebhookEvent, replayId, deliveryId);
+
+        console.log(`Webhook delivery ${deliveryId} replayed as ${replayId} by ${request.auth?.uid}`);
+        return { delivery };
+    }
+);
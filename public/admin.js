@@ -16,6 +16,7 @@ document.addEventListener('DOMContentLoaded', async () => {
         doc, 
         getDoc, 
         collection, 
+        collectionGroup,
         getDocs, 
         query, 
         where,
@@ -109,8 +110,8 @@ document.addEventListener('DOMContentLoaded', async () => {
     // Load statistics
     async function loadStatistics() {
         try {
-            const batchesRef = collection(db, 'batches');
-            const batchesSnap = await getDocs(batchesRef);
+            // Every processed file is a document in users/{uid}/receipts
+            const receiptsSnap = await getDocs(collectionGroup(db, 'receipts'));
 
             let totalReceipts = 0;
             let successful = 0;
@@ -120,9 +121,9 @@ document.addEventListener('DOMContentLoaded', async () => {
             const categoryCounts = {};
             const statusCounts = {};
 
-            batchesSnap.forEach((docSnap) => {
+            receiptsSnap.forEach((docSnap) => {
                 const data = docSnap.data();
-                const userId = docSnap.id;
+                const userId = data.userId;
                 
                 userIds.add(userId);
                 totalReceipts++;
@@ -131,7 +132,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                 const status = data.status || 'unknown';
                 statusCounts[status] = (statusCounts[status] || 0) + 1;
 
-                if (status === 'complete') {
+                if (status === 'exported') {
                     successful++;
                     if (data.receiptData && data.receiptData.totalAmount) {
                         totalAmount += data.receiptData.totalAmount;
@@ -235,16 +236,11 @@ document.addEventListener('DOMContentLoaded', async () => {
         try {
             receiptsTableContainer.innerHTML = '<div class="loading-state">Loading receipts...</div>';
             
-            const batchesRef = collection(db, 'batches');
-            const batchesSnap = await getDocs(batchesRef);
+            const receiptsSnap = await getDocs(collectionGroup(db, 'receipts'));
 
             allReceiptsData = [];
-            batchesSnap.forEach((docSnap) => {
-                const data = docSnap.data();
-                allReceiptsData.push({
-                    userId: docSnap.id,
-                    ...data
-                });
+            receiptsSnap.forEach((docSnap) => {
+                allReceiptsData.push(docSnap.data());
             });
 
             displayReceipts(allReceiptsData);
@@ -262,7 +258,7 @@ document.addEventListener('DOMContentLoaded', async () => {
         let filtered = receipts.filter(receipt => {
             // Tab filter (errors tab shows only errors and processing)
             if (currentTab === 'errors') {
-                if (receipt.status !== 'error' && receipt.status !== 'processing') {
+                if (receipt.status !== 'error' && receipt.status !== 'extracting') {
                     return false;
                 }
             }
@@ -316,7 +312,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                         ${filtered.map(receipt => {
                             const receiptData = receipt.receiptData || {};
                             const timestamp = receipt.timestamp ? new Date(receipt.timestamp).toLocaleString() : 'N/A';
-                            const filePath = receipt.errorFile || `receipts/${receipt.userId}/${receipt.fileName || receipt.lastFileProcessed || 'unknown'}`;
+                            const filePath = receipt.storagePath || `receipts/${receipt.userId}/${receipt.fileName || 'unknown'}`;
                             const storageUrl = `https://console.firebase.google.com/project/financialanaliyst/storage/${filePath}`;
                             
                             return `
@@ -324,6 +320,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                                     <td class="user-id-cell">${receipt.userId.substring(0, 8)}...</td>
                                     <td>
                                         ${receipt.fileName || receipt.lastFileProcessed || 'N/A'}
+                                        ${receiptData.source && receiptData.source.count > 1 ? `<br><small>Receipt ${receiptData.source.index + 1} of ${receiptData.source.count}${receiptData.source.pageNumber ? `, page ${receiptData.source.pageNumber}` : ''}</small>` : ''}
                                         ${receipt.status === 'error' ? `<br><a href="${storageUrl}" target="_blank" class="storage-link" title="View in Firebase Storage">📁 View File</a>` : ''}
                                     </td>
                                     <td>${receiptData.vendorName || 'N/A'}</td>
@@ -346,16 +343,18 @@ document.addEventListener('DOMContentLoaded', async () => {
         try {
             errorLogsContainer.innerHTML = '<div class="loading-state">Loading error logs...</div>';
             
-            const batchesRef = collection(db, 'batches');
-            const batchesSnap = await getDocs(batchesRef);
+            const receiptsSnap = await getDocs(
+                query(collectionGroup(db, 'receipts'), where('status', '==', 'error'))
+            );
 
             const errors = [];
-            batchesSnap.forEach((docSnap) => {
+            receiptsSnap.forEach((docSnap) => {
                 const data = docSnap.data();
                 if (data.status === 'error') {
                     errors.push({
-                        userId: docSnap.id,
-                        fileName: data.fileName || data.lastFileProcessed || 'Unknown',
+                        userId: data.userId,
+                        storagePath: data.storagePath,
+                        fileName: data.fileName || 'Unknown',
                         errorMessage: data.errorMessage || 'Unknown error',
                         timestamp: data.timestamp || new Date().toISOString()
                     });
@@ -371,7 +370,7 @@ document.addEventListener('DOMContentLoaded', async () => {
             errors.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
 
             errorLogsContainer.innerHTML = errors.map(error => {
-                const filePath = `receipts/${error.userId}/${error.fileName}`;
+                const filePath = error.storagePath || `receipts/${error.userId}/${error.fileName}`;
                 const storageUrl = `https://console.firebase.google.com/project/financialanaliyst/storage/${filePath}`;
                 
                 return `
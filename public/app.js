@@ -22,7 +22,7 @@ document.addEventListener('DOMContentLoaded', async () => {
         onAuthStateChanged 
     } = authModule;
     const { ref, uploadBytesResumable } = storageModule;
-    const { doc, setDoc, getDoc, onSnapshot, collection, getDocs } = firestoreModule;
+    const { doc, setDoc, getDoc, onSnapshot, collection, getDocs, query, orderBy, limit } = firestoreModule;
 
     const { auth, storage, db } = window.firebase;
     const googleProvider = new GoogleAuthProvider();
@@ -268,10 +268,13 @@ document.addEventListener('DOMContentLoaded', async () => {
             return;
         }
 
-        // Validate file type
-        if (!file.type || !file.type.startsWith('image/')) {
+        // Validate file type (PDFs may hold several receipts, one per page or more).
+        // Some browsers report no type for iPhone HEIC photos, so also go by the extension;
+        // the server checks the actual content either way.
+        const isHeic = /\.(heic|heif)$/i.test(file.name);
+        if (!(file.type.startsWith('image/') || file.type === 'application/pdf' || isHeic)) {
             console.error('Invalid file type:', file.type);
-            alert('Please upload an image file');
+            alert('Please upload an image or PDF file');
             return;
         }
 
@@ -297,7 +300,7 @@ document.addEventListener('DOMContentLoaded', async () => {
 
         try {
             // Ensure we send a contentType so some mobile browsers (camera captures) don't stall
-            const metadata = { contentType: file.type || 'image/jpeg' };
+            const metadata = { contentType: file.type || (isHeic ? 'image/heic' : 'image/jpeg') };
 
             // Upload file
             const uploadTask = uploadBytesResumable(storageRef, file, metadata);
@@ -398,6 +401,39 @@ document.addEventListener('DOMContentLoaded', async () => {
                     </p>
                 </div>
             `;
+        } else if (data.status === 'pending_review') {
+            const receiptData = data.receiptData || {};
+            statusContainer.innerHTML = `
+                <div class="status-message processing">
+                    <strong>Needs review:</strong> ${fileName}
+                    <p>This receipt was extracted but is waiting for approval before it is added to your Google Sheet.</p>
+                </div>
+            `;
+            // Flag messages quote text read from the receipt, so they are added as text, not HTML
+            const flags = receiptData.reviewFlags || [];
+            if (flags.length > 0) {
+                const list = document.createElement('ul');
+                flags.forEach(flag => {
+                    const item = document.createElement('li');
+                    item.textContent = flag.message;
+                    list.appendChild(item);
+                });
+                statusContainer.querySelector('.status-message').appendChild(list);
+            }
+        } else if (data.status === 'duplicate') {
+            statusContainer.innerHTML = `
+                <div class="status-message processing">
+                    <strong>Possible duplicate:</strong> ${fileName}
+                    <p>This receipt looks like one you already uploaded, so it was not added to your Google Sheet.</p>
+                </div>
+            `;
+        } else if (data.status === 'rejected') {
+            statusContainer.innerHTML = `
+                <div class="status-message error">
+                    <strong>File not accepted:</strong> ${fileName}
+                    <p>${data.errorMessage || 'This file is not a supported image or PDF.'}</p>
+                </div>
+            `;
         } else if (data.status === 'error') {
             statusContainer.innerHTML = `
                 <div class="status-message error">
@@ -409,17 +445,26 @@ document.addEventListener('DOMContentLoaded', async () => {
     }
 
     async function updateHistory(userId) {
-        // This would fetch and display upload history
-        // For now, we'll just show a placeholder
-        const batchRef = doc(db, 'batches', userId);
-        const snapshot = await getDoc(batchRef);
-        
-        if (snapshot.exists()) {
-            const data = snapshot.data();
-            historyContainer.innerHTML = `
+        // Upload history comes from the per-user receipt ledger (users/{uid}/receipts)
+        const receiptsRef = collection(db, 'users', userId, 'receipts');
+        const receiptsSnap = await getDocs(query(receiptsRef, orderBy('createdAt', 'desc'), limit(10)));
+
+        if (receiptsSnap.empty) {
+            historyContainer.innerHTML = '';
+            return;
+        }
+
+        historyContainer.innerHTML = receiptsSnap.docs.map((docSnap) => {
+            const data = docSnap.data();
+            // Files with several receipts have one ledger entry per receipt
+            const source = data.receiptData && data.receiptData.source;
+            const part = source && source.count > 1
+                ? ` (receipt ${source.index + 1} of ${source.count}${source.pageNumber ? `, page ${source.pageNumber}` : ''})`
+                : '';
+            return `
                 <div class="history-item">
                     <div>
-                        <div class="file-name">${data.lastFileProcessed || 'Unknown'}</div>
+                        <div class="file-name">${data.fileName || 'Unknown'}${part}</div>
                         <div style="font-size: 12px; color: var(--text-secondary);">
                             ${new Date(data.timestamp).toLocaleString()}
                         </div>
@@ -427,7 +472,7 @@ document.addEventListener('DOMContentLoaded', async () => {
                     <span class="file-status ${data.status}">${data.status}</span>
                 </div>
             `;
-        }
+        }).join('');
     }
 
     // Initialize history on load
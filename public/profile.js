@@ -176,33 +176,26 @@ document.addEventListener('DOMContentLoaded', async () => {
         }
     }
 
-    // Load receipt history
+    // Load receipt history from the per-user receipt ledger
     async function loadReceiptHistory(userId) {
         try {
-            const batchRef = doc(db, 'batches', userId);
-            const batchSnap = await getDoc(batchRef);
+            const receiptsRef = collection(db, 'users', userId, 'receipts');
+            const receiptsSnap = await getDocs(query(receiptsRef, orderBy('createdAt', 'desc'), limit(50)));
 
-            if (!batchSnap.exists()) {
+            if (receiptsSnap.empty) {
                 receiptHistoryContainer.innerHTML = '<p class="empty-state">No receipt history yet. Upload your first receipt to get started!</p>';
                 return;
             }
 
-            const data = batchSnap.data();
-            const historyItems = [];
-
-            if (data.receiptData) {
-                const receipt = data.receiptData;
-                const status = data.status || 'unknown';
-                const fileName = data.fileName || data.lastFileProcessed || 'Unknown';
-                const timestamp = data.timestamp ? new Date(data.timestamp) : new Date();
-
-                historyItems.push({
-                    fileName,
-                    status,
-                    receipt,
-                    timestamp
-                });
-            }
+            const historyItems = receiptsSnap.docs.map((docSnap) => {
+                const data = docSnap.data();
+                return {
+                    fileName: data.fileName || 'Unknown',
+                    status: data.status || 'unknown',
+                    receipt: data.receiptData || {},
+                    timestamp: data.timestamp ? new Date(data.timestamp) : new Date()
+                };
+            });
 
             if (historyItems.length === 0) {
                 receiptHistoryContainer.innerHTML = '<p class="empty-state">No receipt history yet.</p>';